@@ -0,0 +1,374 @@
+import path from 'path';
+import { OutputFormat } from '../shared/output';
+
+/**
+ * Command tree of the `tenancy` CLI (cli/tenancy.ts)
+ *
+ * Every command runs one of the existing scripts in `db/scripts/` or `db-rls/scripts/`.
+ * The CLI validates the arguments against the spec below first, so all commands share
+ * the same flag names, `--help` text and `--json` handling.
+ */
+
+export interface OptionSpec {
+  flag: string;
+  /** Short or legacy spelling, forwarded as `flag` */
+  alias?: string;
+  /** Placeholder shown in help when the option takes a value, e.g. '<seconds>' */
+  value?: string;
+  description: string;
+}
+
+export interface ParsedCommand {
+  positionals: string[];
+  /** Given options by their `flag`; `true` for options without a value */
+  options: Map<string, string | true>;
+  format: OutputFormat;
+}
+
+/** A script to run, with the arguments to pass it */
+export interface ScriptInvocation {
+  script: string;
+  args: string[];
+}
+
+export interface CommandSpec {
+  name: string;
+  summary: string;
+  /** Positional arguments for usage and validation; `[name]` is optional */
+  args?: string[];
+  options?: OptionSpec[];
+  /** Machine-readable formats the command supports (`--json` is `--format json`) */
+  formats?: OutputFormat[];
+  /** Script run with the positionals, options and `--format`, unless `run` is given */
+  script?: string;
+  /** Builds the invocation itself, for commands that pick a script by their arguments; throws on invalid combinations */
+  run?: (parsed: ParsedCommand) => ScriptInvocation;
+}
+
+export interface CommandGroup {
+  name: string;
+  summary: string;
+  commands: Array<CommandSpec | CommandGroup>;
+}
+
+export function isCommandGroup(node: CommandSpec | CommandGroup): node is CommandGroup {
+  return 'commands' in node;
+}
+
+const dbScript = (name: string) => path.join(__dirname, '..', 'db', 'scripts', `${name}.ts`);
+const rlsScript = (name: string) => path.join(__dirname, '..', 'db-rls', 'scripts', `${name}.ts`);
+
+/**
+ * Arguments for a script: positionals, then the given options in their canonical spelling
+ * @param omit - Options the CLI consumed itself (e.g. `--all` when it picks the script)
+ */
+export function forwardArgs(parsed: ParsedCommand, omit: string[] = []): string[] {
+  const options = [...parsed.options]
+    .filter(([flag]) => !omit.includes(flag))
+    .flatMap(([flag, value]) => (value === true ? [flag] : [flag, value]));
+  return [...parsed.positionals, ...options];
+}
+
+const formatArgs = (parsed: ParsedCommand) => (parsed.format === 'text' ? [] : ['--format', parsed.format]);
+
+/**
+ * Throws unless every given option is one of `allowed`
+ */
+function allowOnly(parsed: ParsedCommand, allowed: string[], context: string): void {
+  const other = [...parsed.options.keys()].find((flag) => !allowed.includes(flag));
+  if (other) {
+    throw new Error(`${other} cannot be used ${context}`);
+  }
+}
+
+const LOCK_OPTIONS: OptionSpec[] = [
+  { flag: '--lock-timeout', value: '<seconds>', description: 'Wait up to this long for a migration lock held elsewhere (default: 60)' },
+  { flag: '--no-wait', description: 'Fail immediately if the migration lock is held' },
+];
+
+const SHARD_OPTION: OptionSpec = {
+  flag: '--shard',
+  value: '<shard>',
+  description: 'Database from DATABASE_SHARDS to place the tenant on (default: DATABASE_URL)',
+};
+
+const schemaCommands: CommandGroup = {
+  name: 'schema',
+  summary: 'Schema-per-tenant approach (db/)',
+  commands: [
+    {
+      name: 'create',
+      summary: 'Create a tenant schema, apply the migrations and register it in schema_tracker',
+      args: ['<schema_name>'],
+      options: [
+        { flag: '--from-template', description: 'Copy the _tenant_template schema instead of replaying every migration' },
+        { flag: '--with-role', description: 'Also create a dedicated tenant_<schema> database role' },
+        SHARD_OPTION,
+      ],
+      script: dbScript('create-tenant'),
+    },
+    {
+      name: 'drop',
+      summary: 'Drop a tenant schema (and its dedicated role) and remove it from schema_tracker',
+      args: ['<schema_name>'],
+      script: dbScript('drop-tenant'),
+    },
+    {
+      name: 'list',
+      summary: 'List the tenants in schema_tracker with status, shard and migrated version',
+      formats: ['json', 'ndjson'],
+      script: dbScript('list-tenants'),
+    },
+    {
+      name: 'migrate',
+      summary: 'Apply pending migrations to one tenant, the public schema, or every tenant (--all)',
+      args: ['[schema_name|public]'],
+      options: [
+        { flag: '--all', description: 'Migrate every tenant in schema_tracker in parallel' },
+        { flag: '--dry-run', alias: '--plan', description: 'Print the plan with its SQL, execute nothing' },
+        { flag: '--unpin', description: 'Clear a rollback pin and migrate to the latest (one tenant)' },
+        { flag: '--concurrency', alias: '-c', value: '<number>', description: 'Tenants migrated at the same time (--all, default: 4)' },
+        { flag: '--timeout', value: '<seconds>', description: 'Fail a tenant that takes longer (--all, default: 300)' },
+        ...LOCK_OPTIONS,
+      ],
+      formats: ['json', 'ndjson'],
+      run: (parsed) => {
+        const [target] = parsed.positionals;
+        const all = parsed.options.has('--all');
+        if (all === Boolean(target)) {
+          throw new Error('Give a schema name, public, or --all');
+        }
+        if (all) {
+          allowOnly(parsed, ['--all', '--dry-run', '--concurrency', '--timeout', '--lock-timeout', '--no-wait'], 'with --all');
+          return { script: dbScript('migrate-tenants'), args: [...forwardArgs(parsed, ['--all']), ...formatArgs(parsed)] };
+        }
+
+        // One schema: only the dry-run plan has a JSON form
+        if (parsed.format === 'ndjson' || (parsed.format === 'json' && !parsed.options.has('--dry-run'))) {
+          throw new Error(`--format ${parsed.format} needs --all${parsed.format === 'json' ? ' or --dry-run' : ''}`);
+        }
+        const json = parsed.format === 'json' ? ['--json'] : [];
+        if (target === 'public') {
+          allowOnly(parsed, ['--dry-run', '--lock-timeout', '--no-wait'], 'for the public schema');
+          return { script: dbScript('migrate-public'), args: [...forwardArgs({ ...parsed, positionals: [] }), ...json] };
+        }
+        allowOnly(parsed, ['--dry-run', '--unpin', '--lock-timeout', '--no-wait'], 'for one tenant');
+        return { script: dbScript('migrate-tenant'), args: [...forwardArgs(parsed), ...json] };
+      },
+    },
+    {
+      name: 'rollback',
+      summary: 'Roll back migrations on one tenant, or every tenant (--all), using the down migrations',
+      args: ['[schema_name]'],
+      options: [
+        { flag: '--all', description: 'Roll back every tenant in schema_tracker' },
+        { flag: '--to', value: '<tag>', description: 'Roll back everything applied after this migration (default: only the latest)' },
+        ...LOCK_OPTIONS,
+      ],
+      run: (parsed) => {
+        const all = parsed.options.has('--all');
+        if (all === Boolean(parsed.positionals[0])) {
+          throw new Error('Give a schema name or --all');
+        }
+        return all
+          ? { script: dbScript('rollback-tenants'), args: forwardArgs(parsed, ['--all']) }
+          : { script: dbScript('rollback-tenant'), args: forwardArgs(parsed) };
+      },
+    },
+    {
+      name: 'health',
+      summary: 'Check every tenant and the public schema; optionally repair what it finds',
+      options: [
+        { flag: '--fix', description: 'Offer a repair for each fixable issue, one prompt at a time' },
+        { flag: '--policy', value: '<kind=strategy,...>', description: 'Repair without prompting, e.g. missing-migrations=apply,orphaned=skip' },
+      ],
+      formats: ['json', 'ndjson'],
+      script: dbScript('health-check'),
+    },
+    {
+      name: 'suspend',
+      summary: "Freeze a tenant: revoke its schema access and end its sessions",
+      args: ['<schema_name>'],
+      script: dbScript('suspend-tenant'),
+    },
+    {
+      name: 'resume',
+      summary: "Restore a suspended tenant's schema access",
+      args: ['<schema_name>'],
+      script: dbScript('resume-tenant'),
+    },
+    {
+      name: 'clone',
+      summary: 'Copy a tenant (structure, data and migration history) into a new tenant',
+      args: ['<source>', '<target>'],
+      options: [{ flag: '--schema-only', description: 'Copy the structure and migration history without rows' }, ...LOCK_OPTIONS],
+      script: dbScript('clone-tenant'),
+    },
+    {
+      name: 'rename',
+      summary: 'Rename a tenant schema and its schema_tracker row',
+      args: ['<old_name>', '<new_name>'],
+      options: LOCK_OPTIONS,
+      script: dbScript('rename-tenant'),
+    },
+    {
+      name: 'move',
+      summary: 'Move a tenant to another shard while it stays online',
+      args: ['<schema_name>'],
+      options: [
+        { flag: '--to', value: '<shard>', description: 'Shard to move the tenant to (required)' },
+        { flag: '--batch-size', value: '<rows>', description: 'Rows copied per batch (default: 1000)' },
+        ...LOCK_OPTIONS,
+      ],
+      script: dbScript('move-tenant'),
+    },
+    {
+      name: 'export',
+      summary: "Export a tenant's data as NDJSON files plus a manifest",
+      args: ['<schema_name>'],
+      options: [{ flag: '--out', value: '<dir>', description: 'Directory to write the export to (required)' }],
+      script: dbScript('export-tenant'),
+    },
+    {
+      name: 'import',
+      summary: 'Load an export into a new tenant',
+      args: ['<dir>'],
+      options: [{ flag: '--as', value: '<schema_name>', description: 'Create the tenant under another name' }, SHARD_OPTION],
+      script: dbScript('import-tenant'),
+    },
+    {
+      name: 'grant-role',
+      summary: "Create a tenant's dedicated database role, or repair its grants",
+      args: ['<schema_name>'],
+      script: dbScript('grant-tenant-role'),
+    },
+    {
+      name: 'rebaseline',
+      summary: 'Accept the current migration file contents as the recorded hashes',
+      args: ['[schema_name|public]'],
+      options: [
+        { flag: '--all', description: 'The public schema and every tracked tenant' },
+        { flag: '--tag', value: '<tags>', description: 'Only these migrations (comma-separated)' },
+      ],
+      script: dbScript('rebaseline-migrations'),
+    },
+    {
+      name: 'metrics',
+      summary: 'Serve tenancy health metrics for Prometheus on /metrics',
+      options: [
+        { flag: '--port', alias: '-p', value: '<number>', description: 'Port to listen on (default: 9464)' },
+        { flag: '--host', value: '<address>', description: 'Address to listen on (default: 0.0.0.0)' },
+        { flag: '--once', description: 'Print one scrape and exit' },
+      ],
+      script: dbScript('metrics-exporter'),
+    },
+    {
+      name: 'verify-isolation',
+      summary: 'Run many tenants in parallel and fail if any query sees another tenant',
+      options: [
+        { flag: '--tenants', alias: '-n', value: '<number>', description: 'Tenants to run (default: 8)' },
+        { flag: '--rounds', alias: '-r', value: '<number>', description: 'Rounds per tenant (default: 25)' },
+      ],
+      script: dbScript('verify-isolation'),
+    },
+    {
+      name: 'verify-operations',
+      summary: 'Run migrate, rollback, rename, clone, move and other operations end to end on scratch tenants',
+      args: ['[check]'],
+      script: dbScript('verify-operations'),
+    },
+    {
+      name: 'demo',
+      summary: 'Create a test tenant, insert data and query it',
+      options: [{ flag: '--timing', alias: '-t', description: 'Show query execution times' }],
+      script: dbScript('demo-tenant-schema'),
+    },
+    {
+      name: 'benchmark',
+      summary: 'Measure search_path overhead and provisioning time',
+      script: dbScript('benchmark'),
+    },
+    {
+      name: 'cleanup',
+      summary: 'Drop every tenant schema and the public tables (complete reset)',
+      options: [{ flag: '--drop', alias: '-d', description: 'Confirm dropping everything (required)' }],
+      run: (parsed) => {
+        if (!parsed.options.has('--drop')) {
+          throw new Error('cleanup drops every tenant schema; pass --drop to confirm');
+        }
+        return { script: dbScript('cleanup'), args: forwardArgs(parsed) };
+      },
+    },
+  ],
+};
+
+const rlsCommands: CommandGroup = {
+  name: 'rls',
+  summary: 'Row-level security approach (db-rls/)',
+  commands: [
+    {
+      name: 'org',
+      summary: 'Organizations (the tenants of the RLS approach)',
+      commands: [
+        {
+          name: 'create',
+          summary: 'Create an organization; its id is the tenant ID',
+          args: ['<name>'],
+          formats: ['json'],
+          script: rlsScript('create-org'),
+        },
+        {
+          name: 'list',
+          summary: 'List the organizations with their user counts',
+          formats: ['json', 'ndjson'],
+          script: rlsScript('list-orgs'),
+        },
+      ],
+    },
+    {
+      name: 'migrate',
+      summary: 'Apply the RLS migrations (as DATABASE_URL_ADMIN)',
+      script: rlsScript('migrate'),
+    },
+    {
+      name: 'verify',
+      summary: 'Verify tables, RLS, policies, foreign keys, ownership and schema drift',
+      formats: ['json', 'ndjson'],
+      script: rlsScript('verify-migrations'),
+    },
+    {
+      name: 'cleanup',
+      summary: 'Delete all data (truncate the tables), or drop the tables with --drop',
+      options: [{ flag: '--drop', alias: '-d', description: 'Drop the tables instead (complete reset)' }],
+      script: rlsScript('cleanup'),
+    },
+    {
+      name: 'demo',
+      summary: 'Create organizations, users and stacks and check RLS isolation',
+      options: [{ flag: '--timing', alias: '-t', description: 'Show query execution times' }],
+      script: rlsScript('demo'),
+    },
+    {
+      name: 'benchmark',
+      summary: 'Measure RLS overhead, batch vs single operations',
+      options: [{ flag: '--iterations', alias: '-i', value: '<number>', description: 'Iterations for every benchmark' }],
+      script: rlsScript('benchmark'),
+    },
+  ],
+};
+
+export const COMMANDS: CommandGroup = {
+  name: 'tenancy',
+  summary: 'Manage tenants for both multi-tenancy approaches',
+  commands: [schemaCommands, rlsCommands],
+};
+
+/**
+ * The script and arguments a parsed command runs
+ */
+export function resolveInvocation(command: CommandSpec, parsed: ParsedCommand): ScriptInvocation {
+  if (command.run) {
+    return command.run(parsed);
+  }
+  return { script: command.script!, args: [...forwardArgs(parsed), ...formatArgs(parsed)] };
+}
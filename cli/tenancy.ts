@@ -0,0 +1,295 @@
+import { spawn } from 'child_process';
+import os from 'os';
+import { OutputFormat } from '../shared/output';
+import {
+  COMMANDS,
+  CommandGroup,
+  CommandSpec,
+  OptionSpec,
+  ParsedCommand,
+  isCommandGroup,
+  resolveInvocation,
+} from './commands';
+
+/**
+ * `tenancy` - one CLI for the scripts of both approaches
+ *
+ * Usage:
+ *   pnpm tenancy <group> <command> [arguments] [options]
+ *   pnpm tenancy schema create acme_corp --shard shard1
+ *   pnpm tenancy schema migrate --all --concurrency 8
+ *   pnpm tenancy schema health --json
+ *   pnpm tenancy rls org list
+ *   pnpm tenancy <group> [<command>] --help        # Help for a group or command
+ *   pnpm tenancy completion bash|zsh               # Print a shell completion script
+ *
+ * Global options: --json (same as --format json), --format <text|json|ndjson>, -h/--help.
+ * The pnpm scripts in package.json (db:*, db-rls:*) are aliases for these commands.
+ */
+
+const GLOBAL_OPTIONS: OptionSpec[] = [
+  { flag: '--json', description: 'Print machine-readable JSON (same as --format json)' },
+  { flag: '--format', value: '<text|json|ndjson>', description: 'Output format, for commands that support it' },
+  { flag: '--help', alias: '-h', description: 'Show help' },
+];
+
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'ndjson'];
+
+function formatOptions(options: OptionSpec[]): string[] {
+  // Short aliases go in front (-c, --concurrency), long ones after (--dry-run, --plan)
+  const labels = options.map(({ flag, alias, value }) => {
+    const short = alias && !alias.startsWith('--') ? `${alias}, ` : '    ';
+    const long = alias?.startsWith('--') ? `, ${alias}` : '';
+    return `${short}${flag}${long}${value ? ` ${value}` : ''}`;
+  });
+  const width = Math.max(...labels.map((label) => label.length)) + 2;
+  return options.map((option, i) => `  ${labels[i].padEnd(width)}${option.description}`);
+}
+
+function groupHelp(group: CommandGroup, path: string[]): string {
+  const names = [...group.commands.map((c) => c.name), ...(path.length === 1 ? ['completion'] : [])];
+  const width = Math.max(...names.map((name) => name.length)) + 2;
+  const lines = [
+    `Usage: ${[...path, '<command>'].join(' ')} [arguments] [options]`,
+    '',
+    group.summary,
+    '',
+    'Commands:',
+    ...group.commands.map((c) => `  ${c.name.padEnd(width)}${c.summary}`),
+  ];
+  if (path.length === 1) {
+    lines.push(`  ${'completion'.padEnd(width)}Print a shell completion script (bash or zsh)`);
+  }
+  lines.push('', 'Global options:', ...formatOptions(GLOBAL_OPTIONS));
+  lines.push('', `Run ${[...path, '<command>', '--help'].join(' ')} for the options of a command.`);
+  return lines.join('\n');
+}
+
+function commandHelp(command: CommandSpec, path: string[]): string {
+  const options = [...(command.options ?? [])];
+  if (command.formats) {
+    options.push(
+      { flag: '--json', description: 'Print JSON (same as --format json)' },
+      { flag: '--format', value: `<text|${command.formats.join('|')}>`, description: 'Output format (default: text)' }
+    );
+  }
+  options.push({ flag: '--help', alias: '-h', description: 'Show this help' });
+
+  return [
+    `Usage: ${[...path, ...(command.args ?? [])].join(' ')}${command.options?.length ? ' [options]' : ''}`,
+    '',
+    command.summary,
+    '',
+    'Options:',
+    ...formatOptions(options),
+  ].join('\n');
+}
+
+/**
+ * Prints a completion script for bash (or zsh, through bashcompinit)
+ *
+ * Candidates come from the command tree: subcommands while inside a group, the options
+ * of the command once one is given.
+ */
+function completionScript(shell: string): string {
+  const cases: Array<[string, string[]]> = [];
+  const walk = (node: CommandSpec | CommandGroup, path: string[]) => {
+    if (isCommandGroup(node)) {
+      node.commands.forEach((child) => walk(child, [...path, child.name]));
+      const names = node.commands.map((c) => c.name);
+      cases.push([path.join(' '), [...names, ...(path.length === 0 ? ['completion'] : []), '--help']]);
+    } else {
+      const options = (node.options ?? []).flatMap((o) => [o.flag, ...(o.alias ? [o.alias] : [])]);
+      cases.push([path.join(' '), [...options, ...(node.formats ? ['--json', '--format'] : []), '--help']]);
+    }
+  };
+  walk(COMMANDS, []);
+  cases.push(['completion', ['bash', 'zsh']]);
+  // Longest paths first: "schema create"* must match before "schema"*
+  cases.sort(([a], [b]) => b.split(' ').length - a.split(' ').length || b.length - a.length);
+
+  const caseLines = cases.map(([path, words]) =>
+    path ? `    "${path}"|"${path} "*) opts="${words.join(' ')}" ;;` : `    "") opts="${words.join(' ')}" ;;`
+  );
+  const script = [
+    '# tenancy completion - add to your shell profile: eval "$(pnpm -s tenancy completion ' + shell + ')"',
+    "# and use an alias for the CLI, e.g. alias tenancy='pnpm -s tenancy'",
+    '_tenancy_completion() {',
+    '  local cur="${COMP_WORDS[COMP_CWORD]}" words=() word opts',
+    '  for word in "${COMP_WORDS[@]:1:COMP_CWORD-1}"; do',
+    '    [[ $word == -* ]] || words+=("$word")',
+    '  done',
+    '  case "${words[*]}" in',
+    ...caseLines,
+    '    *) opts="" ;;',
+    '  esac',
+    '  COMPREPLY=($(compgen -W "$opts" -- "$cur"))',
+    '}',
+    'complete -o default -F _tenancy_completion tenancy',
+  ];
+  if (shell === 'zsh') {
+    script.unshift('autoload -U +X bashcompinit && bashcompinit');
+  }
+  return script.join('\n');
+}
+
+/**
+ * The commands in argv that exist, for the usage hint after an error
+ */
+function knownPath(argv: string[]): string[] {
+  const path = [COMMANDS.name];
+  let node: CommandSpec | CommandGroup = COMMANDS;
+  for (const token of argv.filter((a) => !a.startsWith('-'))) {
+    const child: CommandSpec | CommandGroup | undefined = isCommandGroup(node)
+      ? node.commands.find((c) => c.name === token)
+      : undefined;
+    if (!child) {
+      break;
+    }
+    node = child;
+    path.push(token);
+  }
+  return path;
+}
+
+/**
+ * Finds the command in argv and parses its arguments against the command's spec
+ * @throws Error with a message for the user on an unknown command or option, or a missing argument
+ */
+function parseArgs(argv: string[]): {
+  node: CommandSpec | CommandGroup;
+  path: string[];
+  help: boolean;
+  parsed: ParsedCommand;
+} {
+  let node: CommandSpec | CommandGroup = COMMANDS;
+  const path = [COMMANDS.name];
+  const rest: string[] = [];
+  let help = false;
+  let format: OutputFormat | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const token = argv[i];
+    if (token === '--help' || token === '-h') {
+      help = true;
+    } else if (token === '--json' || token === '--format') {
+      const value = (token === '--json' ? 'json' : argv[++i]) as OutputFormat;
+      if (!OUTPUT_FORMATS.includes(value)) {
+        throw new Error(`--format must be one of ${OUTPUT_FORMATS.join(', ')}`);
+      }
+      format = value;
+    } else if (isCommandGroup(node) && !token.startsWith('-')) {
+      const child: CommandSpec | CommandGroup | undefined = node.commands.find((c) => c.name === token);
+      if (!child) {
+        throw new Error(`Unknown command "${[...path.slice(1), token].join(' ')}"`);
+      }
+      node = child;
+      path.push(token);
+    } else {
+      rest.push(token);
+    }
+  }
+
+  const parsed: ParsedCommand = { positionals: [], options: new Map(), format: format ?? 'text' };
+  if (isCommandGroup(node)) {
+    if (rest.length > 0) {
+      throw new Error(`Unknown option ${rest[0]}`);
+    }
+    return { node, path, help, parsed };
+  }
+
+  const command = node;
+  for (let i = 0; i < rest.length; i++) {
+    const token = rest[i];
+    if (!token.startsWith('-')) {
+      parsed.positionals.push(token);
+      continue;
+    }
+    const option = command.options?.find((o) => o.flag === token || o.alias === token);
+    if (!option) {
+      throw new Error(`Unknown option ${token}`);
+    }
+    if (option.value) {
+      const value = rest[++i];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`${option.flag} needs a value ${option.value}`);
+      }
+      parsed.options.set(option.flag, value);
+    } else {
+      parsed.options.set(option.flag, true);
+    }
+  }
+
+  if (!help) {
+    const args = command.args ?? [];
+    const required = args.filter((arg) => !arg.startsWith('[')).length;
+    if (parsed.positionals.length < required) {
+      throw new Error(`Missing ${args.slice(parsed.positionals.length, required).join(' ')}`);
+    }
+    if (parsed.positionals.length > args.length) {
+      throw new Error(`Unexpected argument ${parsed.positionals[args.length]}`);
+    }
+    if (parsed.format !== 'text' && !command.formats?.includes(parsed.format)) {
+      throw new Error(`--format ${parsed.format} is not supported by "${path.slice(1).join(' ')}"`);
+    }
+  }
+
+  return { node, path, help, parsed };
+}
+
+/**
+ * Runs the script in a child process with the same Node flags (the tsx loader) and exits with its code
+ */
+function runScript(script: string, args: string[]): void {
+  const child = spawn(process.execPath, [...process.execArgv, script, ...args], { stdio: 'inherit' });
+
+  // Ctrl+C reaches the child too (same process group); wait for it to exit rather than leaving it behind
+  process.on('SIGINT', () => {});
+  process.on('SIGTERM', () => child.kill('SIGTERM'));
+  child.on('exit', (code, signal) => {
+    process.exit(code ?? (signal ? 128 + os.constants.signals[signal] : 1));
+  });
+}
+
+function main(argv: string[]) {
+  if (argv[0] === 'completion') {
+    const shell = argv[1];
+    if (shell !== 'bash' && shell !== 'zsh') {
+      console.error('Usage: tenancy completion <bash|zsh>');
+      process.exit(1);
+    }
+    console.log(completionScript(shell));
+    process.exit(0);
+  }
+
+  let result: ReturnType<typeof parseArgs>;
+  try {
+    result = parseArgs(argv);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    console.error(`Run ${knownPath(argv).join(' ')} --help for usage`);
+    process.exit(1);
+  }
+
+  const { node, path, help, parsed } = result;
+  if (isCommandGroup(node)) {
+    // A group without a command prints its help; exits 1 unless help was asked for
+    (help ? console.log : console.error)(groupHelp(node, path));
+    process.exit(help ? 0 : 1);
+  }
+  if (help) {
+    console.log(commandHelp(node, path));
+    process.exit(0);
+  }
+
+  try {
+    const { script, args } = resolveInvocation(node, parsed);
+    runScript(script, args);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    console.error(`Run ${path.join(' ')} --help for usage`);
+    process.exit(1);
+  }
+}
+
+main(process.argv.slice(2));
@@ -1,30 +1,109 @@
 import 'dotenv/config';
 import postgres from 'postgres';
-import { drizzle } from 'drizzle-orm/postgres-js';
+import { drizzle, PostgresJsDatabase } from 'drizzle-orm/postgres-js';
 import * as schema from './schema';
+import { lazy } from '../shared/lazy';
 
-if (!process.env.DATABASE_URL_ADMIN) {
-  throw new Error('DATABASE_URL_ADMIN environment variable is required');
+// application_name of each pool's sessions, so the metrics exporter can count them in pg_stat_activity
+export const MASTER_POOL_APPLICATION_NAME = 'db-rls:master';
+export const APP_POOL_APPLICATION_NAME = 'db-rls:app';
+
+const poolOptions = {
+  idle_timeout: 20,
+  connect_timeout: 10,
+  max_lifetime: 60 * 30, // 30 minutes
+};
+
+export interface RlsConnectionsConfig {
+  /** Owner connection string - for migrations and admin operations (bypasses RLS) */
+  adminUrl: string;
+  /** app_owner connection string - for application queries (subject to RLS) */
+  appUrl: string;
+  /** postgres-js options per pool, over the defaults (master: 5 connections, app: 20) */
+  pool?: { master?: postgres.Options<{}>; app?: postgres.Options<{}> };
 }
 
-if (!process.env.DATABASE_URL_APP) {
-  throw new Error('DATABASE_URL_APP environment variable is required');
+/**
+ * The master and app pools of one RLS setup
+ */
+export interface RlsConnections {
+  masterClient: postgres.Sql;
+  masterDb: PostgresJsDatabase<typeof schema>;
+  appClient: postgres.Sql;
+  appDb: PostgresJsDatabase<typeof schema>;
+  /** Closes both pools; queries on them fail afterwards */
+  close(options?: { timeout?: number }): Promise<void>;
+}
+
+/**
+ * Creates the master and app pools for an RLS setup; nothing connects until the first query
+ */
+export function createRlsConnections(config: RlsConnectionsConfig): RlsConnections {
+  const { master = {}, app = {} } = config.pool ?? {};
+
+  // Master Owner - for migrations and admin operations (bypasses RLS)
+  const masterClient = postgres(config.adminUrl, {
+    max: 5,
+    ...poolOptions,
+    ...master,
+    connection: { application_name: MASTER_POOL_APPLICATION_NAME, ...master.connection },
+  });
+
+  // App Owner - for application queries (subject to RLS)
+  const appClient = postgres(config.appUrl, {
+    max: 20,
+    ...poolOptions,
+    ...app,
+    connection: { application_name: APP_POOL_APPLICATION_NAME, ...app.connection },
+  });
+
+  return {
+    masterClient,
+    masterDb: drizzle(masterClient, { schema }),
+    appClient,
+    appDb: drizzle(appClient, { schema }),
+    async close(options) {
+      await Promise.all([masterClient.end(options), appClient.end(options)]);
+    },
+  };
+}
+
+let defaultConnections: RlsConnections | undefined;
+
+/**
+ * The pools behind the default exports below, created from DATABASE_URL_ADMIN and
+ * DATABASE_URL_APP on first use
+ * @throws Error if either environment variable is missing
+ */
+export function getDefaultRlsConnections(): RlsConnections {
+  if (!defaultConnections) {
+    if (!process.env.DATABASE_URL_ADMIN) {
+      throw new Error('DATABASE_URL_ADMIN environment variable is required');
+    }
+    if (!process.env.DATABASE_URL_APP) {
+      throw new Error('DATABASE_URL_APP environment variable is required');
+    }
+    defaultConnections = createRlsConnections({
+      adminUrl: process.env.DATABASE_URL_ADMIN,
+      appUrl: process.env.DATABASE_URL_APP,
+    });
+  }
+  return defaultConnections;
+}
+
+/**
+ * Closes the default pools if they were used, e.g. on shutdown; the next use opens new ones
+ */
+export async function closeDefaultRlsConnections(options?: { timeout?: number }): Promise<void> {
+  const connections = defaultConnections;
+  defaultConnections = undefined;
+  await connections?.close(options);
 }
 
 // Master Owner - for migrations and admin operations (bypasses RLS)
-export const masterClient = postgres(process.env.DATABASE_URL_ADMIN, {
-  max: 5,
-  idle_timeout: 20,
-  connect_timeout: 10,
-  max_lifetime: 60 * 30, // 30 minutes
-});
-export const masterDb = drizzle(masterClient, { schema });
+export const masterClient = lazy(() => getDefaultRlsConnections().masterClient, { callable: true });
+export const masterDb = lazy(() => getDefaultRlsConnections().masterDb);
 
 // App Owner - for application queries (subject to RLS)
-export const appClient = postgres(process.env.DATABASE_URL_APP, {
-  max: 20,
-  idle_timeout: 20,
-  connect_timeout: 10,
-  max_lifetime: 60 * 30, // 30 minutes
-});
-export const appDb = drizzle(appClient, { schema });
+export const appClient = lazy(() => getDefaultRlsConnections().appClient, { callable: true });
+export const appDb = lazy(() => getDefaultRlsConnections().appDb);
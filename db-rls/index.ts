@@ -1,3 +1,4 @@
 export * from './schema';
 export * from './connections';
 export * from './tenant-wrapper';
+export * from './tenancy';
@@ -0,0 +1,72 @@
+import postgres from 'postgres';
+import { masterClient, appClient, MASTER_POOL_APPLICATION_NAME, APP_POOL_APPLICATION_NAME } from './connections';
+import { RLS_TABLES, EXPECTED_RLS_POLICIES, getRlsStatus, getRlsPolicies } from './verification';
+import { MetricFamily } from '../shared/metrics';
+
+/**
+ * Metrics for the RLS approach (names start with `tenancy_rls_`), served by `pnpm db:metrics`
+ * when DATABASE_URL_ADMIN and DATABASE_URL_APP are set
+ *
+ * @param client - DATABASE_URL_ADMIN client to query with (not closed here)
+ */
+export async function collectRlsMetrics(client: postgres.Sql): Promise<MetricFamily[]> {
+  const status = await getRlsStatus(client);
+  const policies = await getRlsPolicies(client);
+
+  // Sessions of other roles only show their state with pg_read_all_stats (otherwise 'unknown')
+  const sessions = await client`
+    SELECT application_name AS pool, COALESCE(state, 'unknown') AS state, count(*)::int AS count
+    FROM pg_stat_activity
+    WHERE application_name IN (${MASTER_POOL_APPLICATION_NAME}, ${APP_POOL_APPLICATION_NAME})
+    GROUP BY 1, 2
+    ORDER BY 1, 2
+  `;
+  const poolLabel = (applicationName: string) => (applicationName === MASTER_POOL_APPLICATION_NAME ? 'master' : 'app');
+
+  return [
+    {
+      name: 'tenancy_rls_table_exists',
+      help: 'Table created by the RLS migrations exists in public',
+      type: 'gauge',
+      samples: RLS_TABLES.map((table) => ({ labels: { table }, value: status.some((s) => s.table === table) ? 1 : 0 })),
+    },
+    {
+      name: 'tenancy_rls_enabled',
+      help: 'Row-level security is enabled on the table',
+      type: 'gauge',
+      samples: status.map(({ table, rlsEnabled }) => ({ labels: { table }, value: rlsEnabled ? 1 : 0 })),
+    },
+    {
+      name: 'tenancy_rls_policies',
+      help: 'RLS policies on the table',
+      type: 'gauge',
+      samples: RLS_TABLES.map((table) => ({ labels: { table }, value: policies.get(table)?.length ?? 0 })),
+    },
+    {
+      name: 'tenancy_rls_policy_present',
+      help: 'Expected RLS policy exists on the table',
+      type: 'gauge',
+      samples: Object.entries(EXPECTED_RLS_POLICIES).flatMap(([table, expected]) =>
+        expected.map((policy) => ({
+          labels: { table, policy },
+          value: policies.get(table)?.includes(policy) ? 1 : 0,
+        }))
+      ),
+    },
+    {
+      name: 'tenancy_rls_pool_connections',
+      help: 'Sessions of the db-rls/connections.ts pools in pg_stat_activity, summed over all processes',
+      type: 'gauge',
+      samples: sessions.map((row) => ({ labels: { pool: poolLabel(row.pool), state: row.state }, value: row.count })),
+    },
+    {
+      name: 'tenancy_rls_pool_max_connections',
+      help: 'Maximum connections of each db-rls/connections.ts pool, per process',
+      type: 'gauge',
+      samples: [
+        { labels: { pool: 'master' }, value: masterClient.options.max },
+        { labels: { pool: 'app' }, value: appClient.options.max },
+      ],
+    },
+  ];
+}
@@ -0,0 +1,45 @@
+import 'dotenv/config';
+import { masterDb } from '../connections';
+import { organizations } from '../schema';
+import { tableExists } from '../../shared/db-utils';
+import { createScriptOutput, getOutputFormat, EXIT_CODES } from '../../shared/output';
+
+/**
+ * Creates an organization (tenant) for the RLS approach
+ *
+ * The new `organizations.id` is the tenant ID to pass to withTenant().
+ *
+ * Usage:
+ *   pnpm db-rls:org:create <name>
+ *   pnpm db-rls:org:create <name> --format json   # Print the organization as JSON
+ */
+const args = process.argv.slice(2);
+const output = createScriptOutput('create-org', getOutputFormat(args));
+const { log } = output;
+
+async function createOrg(name: string) {
+  try {
+    // Thrown rather than checkMigrations() exiting, so --format json reports it as an error document
+    if (!(await tableExists(masterDb, 'public', 'organizations'))) {
+      throw new Error('Migrations have not been run (public.organizations does not exist). Run: pnpm db-rls:migrate');
+    }
+
+    const [org] = await masterDb.insert(organizations).values({ name }).returning();
+
+    output.result(EXIT_CODES.ok, { organization: org });
+    log(`✓ Created organization: ${org.name} (ID: ${org.id} = Tenant ID)`);
+    process.exit(EXIT_CODES.ok);
+  } catch (error) {
+    output.error(error);
+    console.error(`\n❌ Error creating organization ${name}:`, error instanceof Error ? error.message : error);
+    process.exit(EXIT_CODES.fatal);
+  }
+}
+
+const name = args.find((arg, i) => !arg.startsWith('-') && args[i - 1] !== '--format');
+if (!name) {
+  console.error('❌ Error: Organization name is required');
+  console.log('Usage: pnpm db-rls:org:create <name>');
+  process.exit(EXIT_CODES.fatal);
+}
+createOrg(name);
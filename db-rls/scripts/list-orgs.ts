@@ -0,0 +1,59 @@
+import 'dotenv/config';
+import { sql, count, eq } from 'drizzle-orm';
+import { masterDb } from '../connections';
+import { organizations, users } from '../schema';
+import { tableExists } from '../../shared/db-utils';
+import { createScriptOutput, getOutputFormat, EXIT_CODES } from '../../shared/output';
+
+/**
+ * Lists the organizations (tenants) of the RLS approach with their user counts
+ *
+ * Usage:
+ *   pnpm db-rls:org:list
+ *   pnpm db-rls:org:list --format json     # One JSON document
+ *   pnpm db-rls:org:list --format ndjson   # One line per organization, then a summary line
+ */
+const output = createScriptOutput('list-orgs', getOutputFormat(process.argv.slice(2)));
+const { log } = output;
+
+async function listOrgs() {
+  try {
+    // Thrown rather than checkMigrations() exiting, so --format json reports it as an error document
+    if (!(await tableExists(masterDb, 'public', 'organizations'))) {
+      throw new Error('Migrations have not been run (public.organizations does not exist). Run: pnpm db-rls:migrate');
+    }
+
+    // masterDb bypasses RLS, so users of every organization are counted
+    const orgs = await masterDb
+      .select({
+        id: organizations.id,
+        name: organizations.name,
+        createdAt: organizations.createdAt,
+        users: sql<number>`${count(users.id)}::int`,
+      })
+      .from(organizations)
+      .leftJoin(users, eq(users.organizationId, organizations.id))
+      .groupBy(organizations.id)
+      .orderBy(organizations.name);
+
+    orgs.forEach((organization) => output.record('organization', { organization }));
+    output.result(EXIT_CODES.ok, { ...(output.format === 'json' ? { organizations: orgs } : {}), total: orgs.length });
+
+    if (orgs.length === 0) {
+      log('No organizations found.');
+      process.exit(EXIT_CODES.ok);
+    }
+
+    log(`Found ${orgs.length} organization(s):\n`);
+    orgs.forEach(({ id, name, users: userCount }) => {
+      log(`  ${name.padEnd(32)} ${id}  ${userCount} user(s)`);
+    });
+    process.exit(EXIT_CODES.ok);
+  } catch (error) {
+    output.error(error);
+    console.error('\n❌ Error listing organizations:', error instanceof Error ? error.message : error);
+    process.exit(EXIT_CODES.fatal);
+  }
+}
+
+listOrgs();
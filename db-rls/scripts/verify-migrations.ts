@@ -1,6 +1,10 @@
 import 'dotenv/config';
-import { masterDb } from '../connections';
+import { masterDb, masterClient } from '../connections';
 import { sql } from 'drizzle-orm';
+import * as schema from '../schema';
+import { detectSchemaDrift, getDeclaredTables } from '../../shared/schema-drift';
+import { createScriptOutput, getOutputFormat, EXIT_CODES } from '../../shared/output';
+import { RLS_TABLES, RLS_EXEMPT_TABLES, EXPECTED_RLS_POLICIES, getRlsStatus, getRlsPolicies } from '../verification';
 
 /**
  * Verification script for RLS migrations
@@ -11,100 +15,102 @@ import { sql } from 'drizzle-orm';
  * - RLS policies exist
  * - Foreign keys are created
  * - Table ownership is correct
+ * - Columns, indexes, constraints and policies match db-rls/schema.ts (no drift)
+ *
+ * Every check runs, even after one fails.
+ *
+ * Usage:
+ *   pnpm db-rls:verify                  # Report
+ *   pnpm db-rls:verify --format json    # One JSON document (see "Machine-readable output" in the README)
+ *   pnpm db-rls:verify --format ndjson  # One line per check, then a summary line
+ *
+ * Exit codes (added together when both apply): 0 verified, 1 fatal error, 2 a check failed, 8 schema drift.
  */
+const output = createScriptOutput('verify-migrations', getOutputFormat(process.argv.slice(2)));
+const { log } = output;
+
+interface VerificationCheck {
+  check: string;
+  ok: boolean;
+  issues: string[];
+}
+
 async function verifyMigrations() {
-  if (!process.env.DATABASE_URL_ADMIN) {
-    throw new Error('DATABASE_URL_ADMIN environment variable is required');
-  }
+  const checks: VerificationCheck[] = [];
+  // Records a check's outcome; its issues are printed as they are found
+  const finish = (check: string, issues: string[]) => {
+    checks.push({ check, ok: issues.length === 0, issues });
+    output.record('check', { check, ok: issues.length === 0, issues });
+  };
+  const fail = (issues: string[], issue: string) => {
+    issues.push(issue);
+    if (output.format === 'text') {
+      console.error(`   ✗ ${issue}`);
+    }
+  };
 
   try {
-    console.log('=== Verifying RLS Migrations ===\n');
+    if (!process.env.DATABASE_URL_ADMIN) {
+      throw new Error('DATABASE_URL_ADMIN environment variable is required');
+    }
+
+    log('=== Verifying RLS Migrations ===\n');
 
     // 1. Check if tables exist
-    console.log('1. Checking table existence...');
-    const tables = await masterDb.execute(sql`
-      SELECT tablename 
-      FROM pg_tables 
-      WHERE schemaname = 'public' 
-        AND tablename IN ('organizations', 'users', 'stacks')
-      ORDER BY tablename
-    `);
-    
-    const tableNames = tables.map((t: any) => t.tablename);
-    const expectedTables = ['organizations', 'users', 'stacks'];
-    const missingTables = expectedTables.filter(t => !tableNames.includes(t));
+    log('1. Checking table existence...');
+    const rlsStatus = await getRlsStatus(masterClient);
+    const tableNames = rlsStatus.map((t) => t.table);
+    const missingTables = RLS_TABLES.filter(t => !tableNames.includes(t));
     
+    const tableIssues: string[] = [];
     if (missingTables.length > 0) {
-      console.error(`   ✗ Missing tables: ${missingTables.join(', ')}`);
-      process.exit(1);
+      fail(tableIssues, `Missing tables: ${missingTables.join(', ')}`);
+    } else {
+      log(`   ✓ All tables exist: ${tableNames.join(', ')}`);
     }
-    console.log(`   ✓ All tables exist: ${tableNames.join(', ')}\n`);
+    finish('tables', tableIssues);
+    log();
 
     // 2. Verify RLS is enabled on tenant-scoped tables
-    console.log('2. Verifying RLS status...');
-    const rlsStatus = await masterDb.execute(sql`
-      SELECT tablename, rowsecurity as rls_enabled
-      FROM pg_tables
-      WHERE schemaname = 'public'
-        AND tablename IN ('organizations', 'users', 'stacks')
-      ORDER BY tablename
-    `);
-
-    for (const row of rlsStatus as any[]) {
-      const { tablename, rls_enabled } = row;
-      if (tablename === 'organizations') {
-        if (rls_enabled) {
-          console.error(`   ✗ organizations should NOT have RLS enabled`);
-          process.exit(1);
+    log('2. Verifying RLS status...');
+    const rlsIssues: string[] = [];
+    for (const { table, rlsEnabled } of rlsStatus) {
+      if (RLS_EXEMPT_TABLES.includes(table)) {
+        if (rlsEnabled) {
+          fail(rlsIssues, `${table} should NOT have RLS enabled`);
+          continue;
         }
-        console.log(`   ✓ organizations: RLS disabled (correct)`);
+        log(`   ✓ ${table}: RLS disabled (correct)`);
       } else {
-        if (!rls_enabled) {
-          console.error(`   ✗ ${tablename} should have RLS enabled`);
-          process.exit(1);
+        if (!rlsEnabled) {
+          fail(rlsIssues, `${table} should have RLS enabled`);
+          continue;
         }
-        console.log(`   ✓ ${tablename}: RLS enabled`);
+        log(`   ✓ ${table}: RLS enabled`);
       }
     }
-    console.log();
+    finish('rls-enabled', rlsIssues);
+    log();
 
     // 3. Verify RLS policies exist
-    console.log('3. Verifying RLS policies...');
-    const policies = await masterDb.execute(sql`
-      SELECT tablename, policyname
-      FROM pg_policies
-      WHERE schemaname = 'public'
-        AND tablename IN ('users', 'stacks')
-      ORDER BY tablename, policyname
-    `);
-
-    const policyMap = new Map<string, string[]>();
-    for (const row of policies as any[]) {
-      const { tablename, policyname } = row;
-      if (!policyMap.has(tablename)) {
-        policyMap.set(tablename, []);
-      }
-      policyMap.get(tablename)!.push(policyname);
-    }
-
-    const expectedPolicies = {
-      users: ['users_tenant_policy'],
-      stacks: ['stacks_tenant_policy'],
-    };
+    log('3. Verifying RLS policies...');
+    const policyMap = await getRlsPolicies(masterClient);
 
-    for (const [table, expected] of Object.entries(expectedPolicies)) {
+    const policyIssues: string[] = [];
+    for (const [table, expected] of Object.entries(EXPECTED_RLS_POLICIES)) {
       const found = policyMap.get(table) || [];
       const missing = expected.filter(p => !found.includes(p));
       if (missing.length > 0) {
-        console.error(`   ✗ Missing policies for ${table}: ${missing.join(', ')}`);
-        process.exit(1);
+        fail(policyIssues, `Missing policies for ${table}: ${missing.join(', ')}`);
+        continue;
       }
-      console.log(`   ✓ ${table}: ${found.join(', ')}`);
+      log(`   ✓ ${table}: ${found.join(', ')}`);
     }
-    console.log();
+    finish('policies', policyIssues);
+    log();
 
     // 4. Verify foreign keys
-    console.log('4. Verifying foreign key constraints...');
+    log('4. Verifying foreign key constraints...');
     const foreignKeys = await masterDb.execute(sql`
       SELECT
         tc.table_name,
@@ -131,18 +137,20 @@ async function verifyMigrations() {
       (foreignKeys as any[]).map(fk => `${fk.table_name}.${fk.column_name} -> ${fk.foreign_table_name}.${fk.foreign_column_name}`)
     );
 
+    const fkIssues: string[] = [];
     for (const expected of expectedFKs) {
       const fkKey = `${expected.table}.${expected.column} -> ${expected.refTable}.${expected.refColumn}`;
       if (!foundFKs.has(fkKey)) {
-        console.error(`   ✗ Missing foreign key: ${fkKey}`);
-        process.exit(1);
+        fail(fkIssues, `Missing foreign key: ${fkKey}`);
+        continue;
       }
-      console.log(`   ✓ ${fkKey}`);
+      log(`   ✓ ${fkKey}`);
     }
-    console.log();
+    finish('foreign-keys', fkIssues);
+    log();
 
     // 5. Verify table ownership (should be Neon owner, not app_owner)
-    console.log('5. Verifying table ownership...');
+    log('5. Verifying table ownership...');
     const ownership = await masterDb.execute(sql`
       SELECT tablename, tableowner
       FROM pg_tables
@@ -151,18 +159,20 @@ async function verifyMigrations() {
       ORDER BY tablename
     `);
 
+    const ownershipIssues: string[] = [];
     for (const row of ownership as any[]) {
       const { tablename, tableowner } = row;
       if (tableowner === 'app_owner') {
-        console.error(`   ✗ ${tablename} is owned by app_owner (should be Neon owner)`);
-        process.exit(1);
+        fail(ownershipIssues, `${tablename} is owned by app_owner (should be Neon owner)`);
+        continue;
       }
-      console.log(`   ✓ ${tablename}: owned by ${tableowner}`);
+      log(`   ✓ ${tablename}: owned by ${tableowner}`);
     }
-    console.log();
+    finish('ownership', ownershipIssues);
+    log();
 
     // 6. Verify migration tracking table exists
-    console.log('6. Verifying migration tracking...');
+    log('6. Verifying migration tracking...');
     const migrationTableExists = await masterDb.execute(sql`
       SELECT EXISTS (
         SELECT 1 FROM information_schema.tables
@@ -170,35 +180,67 @@ async function verifyMigrations() {
       )
     `);
 
+    const trackingIssues: string[] = [];
     if (!(migrationTableExists as any[])[0].exists) {
-      console.error('   ✗ Migration tracking table (__drizzle_migrations) does not exist');
-      process.exit(1);
+      fail(trackingIssues, 'Migration tracking table (__drizzle_migrations) does not exist');
+    } else {
+      const appliedMigrations = await masterDb.execute(sql`
+        SELECT hash FROM public.__drizzle_migrations ORDER BY id
+      `);
+      log(`   ✓ Migration tracking table exists`);
+      log(`   ✓ Applied migrations: ${(appliedMigrations as any[]).length}`);
+      (appliedMigrations as any[]).forEach((m: any, i: number) => {
+        log(`     ${i + 1}. ${m.hash}`);
+      });
     }
+    finish('migration-tracking', trackingIssues);
+    log();
 
-    const appliedMigrations = await masterDb.execute(sql`
-      SELECT hash FROM public.__drizzle_migrations ORDER BY id
-    `);
-    console.log(`   ✓ Migration tracking table exists`);
-    console.log(`   ✓ Applied migrations: ${(appliedMigrations as any[]).length}`);
-    (appliedMigrations as any[]).forEach((m: any, i: number) => {
-      console.log(`     ${i + 1}. ${m.hash}`);
+    // 7. Compare the actual tables with db-rls/schema.ts (catches manual ALTERs)
+    log('7. Checking schema drift against db-rls/schema.ts...');
+    const drift = await detectSchemaDrift(masterClient, 'public', getDeclaredTables(schema), {
+      reportExtraTables: false,
+    });
+    const driftIssues: string[] = [];
+    drift.forEach(({ table, issue }) => fail(driftIssues, `${table}: ${issue}`));
+    if (drift.length === 0) {
+      log('   ✓ Tables match db-rls/schema.ts');
+    }
+    finish('drift', driftIssues);
+    log();
+
+    const failed = checks.filter((c) => !c.ok);
+    const exitCode =
+      (failed.some((c) => c.check !== 'drift') ? EXIT_CODES.unhealthy : 0) |
+      (failed.some((c) => c.check === 'drift') ? EXIT_CODES.drift : 0);
+    output.result(exitCode, {
+      ok: failed.length === 0,
+      failedChecks: failed.map((c) => c.check),
+      ...(output.format === 'json' ? { checks } : {}),
     });
-    console.log();
-
-    console.log('=== All Migrations Verified Successfully ===');
-    console.log('\nSummary:');
-    console.log('  ✓ All tables created');
-    console.log('  ✓ RLS enabled on tenant-scoped tables');
-    console.log('  ✓ RLS policies created');
-    console.log('  ✓ Foreign keys established');
-    console.log('  ✓ Table ownership correct');
-    console.log('  ✓ Migrations tracked');
+
+    if (failed.length > 0) {
+      if (output.format === 'text') {
+        console.error(`=== Verification failed: ${failed.map((c) => c.check).join(', ')} ===`);
+      }
+      process.exit(exitCode);
+    }
+
+    log('=== All Migrations Verified Successfully ===');
+    log('\nSummary:');
+    log('  ✓ All tables created');
+    log('  ✓ RLS enabled on tenant-scoped tables');
+    log('  ✓ RLS policies created');
+    log('  ✓ Foreign keys established');
+    log('  ✓ Table ownership correct');
+    log('  ✓ Migrations tracked');
+    log('  ✓ No schema drift');
+    process.exit(EXIT_CODES.ok);
   } catch (error) {
+    output.error(error);
     console.error('\n✗ Verification failed:');
     console.error(error);
-    process.exit(1);
-  } finally {
-    process.exit(0);
+    process.exit(EXIT_CODES.fatal);
   }
 }
 
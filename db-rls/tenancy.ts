@@ -0,0 +1,70 @@
+import path from 'path';
+import postgres from 'postgres';
+import { migrate } from 'drizzle-orm/postgres-js/migrator';
+import { createRlsConnections, RlsConnections } from './connections';
+import { withTenant } from './tenant-wrapper';
+
+export interface RlsTenancyConfig {
+  /** Owner connection string, for migrations and admin operations (default: DATABASE_URL_ADMIN) */
+  adminUrl?: string;
+  /** app_owner connection string, for application queries (default: DATABASE_URL_APP) */
+  appUrl?: string;
+  /** postgres-js options per pool, over the connections.ts defaults (master: 5 connections, app: 20) */
+  pool?: { master?: postgres.Options<{}>; app?: postgres.Options<{}> };
+  /** Migrations applied by migrate() (default: db-rls/migrations) */
+  migrationsFolder?: string;
+}
+
+/**
+ * An RLS setup on its own pools, returned by createRlsTenancy()
+ */
+export interface RlsTenancy extends RlsConnections {
+  /** withTenant() on this setup's app pool */
+  withTenant: <T>(tenantId: string, operation: Parameters<typeof withTenant<T>>[1]) => Promise<T>;
+  /** Applies pending migrations over the master pool, like `pnpm db-rls:migrate` (tracked in public.__drizzle_migrations) */
+  migrate(): Promise<void>;
+}
+
+/**
+ * Creates an independent RLS setup: its own master and app pools and tenant wrapper
+ *
+ * The exports of connections.ts and tenant-wrapper.ts are the default setup, configured
+ * from the environment. Use this for anything else: another database, a test database
+ * per test file, or pools that are closed on shutdown. Nothing connects until the first query.
+ *
+ * @throws Error if a connection string is neither passed nor set in the environment
+ *
+ * @example
+ * ```typescript
+ * const rls = createRlsTenancy({ adminUrl: process.env.TEST_ADMIN_URL, appUrl: process.env.TEST_APP_URL });
+ * try {
+ *   await rls.migrate();
+ *   const [org] = await rls.masterDb.insert(organizations).values({ name: 'Acme Corp' }).returning();
+ *   await rls.withTenant(org.id, (tx) => tx.select().from(users));
+ * } finally {
+ *   await rls.close();
+ * }
+ * ```
+ */
+export function createRlsTenancy(config: RlsTenancyConfig = {}): RlsTenancy {
+  const adminUrl = config.adminUrl ?? process.env.DATABASE_URL_ADMIN;
+  const appUrl = config.appUrl ?? process.env.DATABASE_URL_APP;
+  if (!adminUrl) {
+    throw new Error('adminUrl or the DATABASE_URL_ADMIN environment variable is required');
+  }
+  if (!appUrl) {
+    throw new Error('appUrl or the DATABASE_URL_APP environment variable is required');
+  }
+
+  const connections = createRlsConnections({ adminUrl, appUrl, pool: config.pool });
+  const migrationsFolder = config.migrationsFolder ?? path.join(process.cwd(), 'db-rls', 'migrations');
+
+  return {
+    ...connections,
+    withTenant: (tenantId, operation) => withTenant(tenantId, operation, { connections }),
+    async migrate() {
+      // Same tracking table as drizzle.config.ts (migrations.schema: 'public')
+      await migrate(connections.masterDb, { migrationsFolder, migrationsSchema: 'public' });
+    },
+  };
+}
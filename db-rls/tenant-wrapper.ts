@@ -1,5 +1,5 @@
 import { sql } from 'drizzle-orm';
-import { appDb, masterDb } from './connections';
+import { appDb, masterDb, RlsConnections } from './connections';
 
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
@@ -15,6 +15,7 @@ const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9
  * 
  * @param tenantId - The tenant ID (organization.id) to set for this transaction (must be a valid UUID string)
  * @param operation - Function that receives a transaction with tenant context set
+ * @param options.connections - Pools to run on, e.g. a createRlsTenancy() handle's (default: the DATABASE_URL_APP pool)
  * @returns Result of the operation
  * 
  * @example
@@ -36,13 +37,14 @@ const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9
  */
 export async function withTenant<T>(
   tenantId: string,
-  operation: (tx: Parameters<Parameters<typeof appDb.transaction>[0]>[0]) => Promise<T>
+  operation: (tx: Parameters<Parameters<typeof appDb.transaction>[0]>[0]) => Promise<T>,
+  options: { connections?: Pick<RlsConnections, 'appDb'> } = {}
 ): Promise<T> {
   if (!UUID_REGEX.test(tenantId)) {
     throw new Error(`Invalid tenantId: must be a valid UUID, got: ${tenantId}`);
   }
 
-  return await appDb.transaction(async (tx) => {
+  return await (options.connections?.appDb ?? appDb).transaction(async (tx) => {
     // SET LOCAL doesn't support parameterized queries, so we use string interpolation
     // tenantId is validated as UUID above, so SQL injection risk is mitigated
     await tx.execute(sql.raw(`SET LOCAL app.tenant_id = '${tenantId}'`));
@@ -0,0 +1,54 @@
+import postgres from 'postgres';
+
+/**
+ * RLS setup queries shared by `pnpm db-rls:verify` and the metrics exporter
+ */
+
+/** Tables created by the RLS migrations */
+export const RLS_TABLES = ['organizations', 'users', 'stacks'];
+
+/** Tables without RLS: organizations IS the tenant list */
+export const RLS_EXEMPT_TABLES = ['organizations'];
+
+/** Policies every tenant-scoped table must have */
+export const EXPECTED_RLS_POLICIES: Record<string, string[]> = {
+  users: ['users_tenant_policy'],
+  stacks: ['stacks_tenant_policy'],
+};
+
+/**
+ * Which of RLS_TABLES exist in `public`, and whether row-level security is enabled on each
+ * Missing tables are not in the result.
+ */
+export async function getRlsStatus(client: postgres.Sql): Promise<Array<{ table: string; rlsEnabled: boolean }>> {
+  const rows = await client`
+    SELECT tablename, rowsecurity AS rls_enabled
+    FROM pg_tables
+    WHERE schemaname = 'public'
+      AND tablename IN ${client(RLS_TABLES)}
+    ORDER BY tablename
+  `;
+  return rows.map((row) => ({ table: row.tablename, rlsEnabled: row.rls_enabled }));
+}
+
+/**
+ * Policy names on each of RLS_TABLES in `public` (tables without policies are not in the map)
+ */
+export async function getRlsPolicies(client: postgres.Sql): Promise<Map<string, string[]>> {
+  const rows = await client`
+    SELECT tablename, policyname
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN ${client(RLS_TABLES)}
+    ORDER BY tablename, policyname
+  `;
+
+  const policies = new Map<string, string[]>();
+  for (const { tablename, policyname } of rows) {
+    if (!policies.has(tablename)) {
+      policies.set(tablename, []);
+    }
+    policies.get(tablename)!.push(policyname);
+  }
+  return policies;
+}
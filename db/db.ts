@@ -1,20 +1,138 @@
 import 'dotenv/config';
 import postgres from 'postgres';
-import { drizzle } from 'drizzle-orm/postgres-js';
+import { drizzle, PostgresJsDatabase } from 'drizzle-orm/postgres-js';
 import * as schemaPublic from './schema-public';
 import * as schemaTenant from './schema-tenant';
+import { DEFAULT_SHARD, getShardUrls } from './shards';
+import { lazy } from '../shared/lazy';
 
-if (!process.env.DATABASE_URL) {
-  throw new Error('DATABASE_URL environment variable is required');
-}
+// application_name of the pool's sessions, so the metrics exporter can count them in pg_stat_activity
+// (withTenantSchema() overrides it with `tenant:<schema>` for the length of a transaction)
+export const POOL_APPLICATION_NAME = 'db:pool';
+export const POOL_MAX_CONNECTIONS = 20;
 
 // Configure connection pool for better performance
-const client = postgres(process.env.DATABASE_URL, {
-  max: 20, // Maximum connections in pool
+const poolOptions = {
+  max: POOL_MAX_CONNECTIONS, // Maximum connections in pool
   idle_timeout: 20, // Close idle connections after 20 seconds
   connect_timeout: 10, // Connection timeout in seconds
   max_lifetime: 60 * 30, // 30 minutes - refresh connections periodically
-});
-// Combined schema for database operations
-export const db = drizzle(client, { schema: { ...schemaPublic, ...schemaTenant } });
+  connection: { application_name: POOL_APPLICATION_NAME },
+};
+
+export interface SchemaPoolsConfig {
+  /** Connection string of the database with the control tables (schema_tracker), i.e. the `default` shard */
+  url: string;
+  /** Connection strings of further shards, by name (see shards.ts) */
+  shards?: Record<string, string>;
+  /** postgres-js options for every pool, over the defaults (20 connections, 20s idle timeout, ...) */
+  pool?: postgres.Options<{}>;
+}
+
+/**
+ * Connection pools of one multi-schema setup: the default database plus a pool per shard
+ */
+export interface SchemaPools {
+  /** Pool on the default shard */
+  client: postgres.Sql;
+  /** Combined schema for database operations */
+  db: PostgresJsDatabase<typeof schemaPublic & typeof schemaTenant>;
+  /** Tenant-only schema on the default pool; tables resolve through the tenant's search_path */
+  tenantDb: PostgresJsDatabase<typeof schemaTenant>;
+  /** Configured shard names, `default` first */
+  shardNames: string[];
+  /** Pool for a shard, created on first use; `default` is `client` */
+  getShardClient(shard: string): postgres.Sql;
+  /** Tenant-only Drizzle instance for a shard; `default` is `tenantDb` */
+  getShardTenantDb(shard: string): PostgresJsDatabase<typeof schemaTenant>;
+  /** Closes every pool opened so far; queries on them fail afterwards */
+  close(options?: { timeout?: number }): Promise<void>;
+}
+
+/**
+ * Creates the pools for a multi-schema setup; nothing connects until the first query
+ * @throws Error if a shard is named `default` (that is `url`)
+ */
+export function createSchemaPools(config: SchemaPoolsConfig): SchemaPools {
+  const options = {
+    ...poolOptions,
+    ...config.pool,
+    connection: { ...poolOptions.connection, ...config.pool?.connection },
+  };
+  const urls = new Map<string, string>([[DEFAULT_SHARD, config.url]]);
+  for (const [name, url] of Object.entries(config.shards ?? {})) {
+    if (name === DEFAULT_SHARD) {
+      throw new Error(`Shard ${name} is configured more than once (the default shard is the main connection string)`);
+    }
+    urls.set(name, url);
+  }
+
+  const client = postgres(config.url, options);
+  const tenantDb = drizzle(client, { schema: schemaTenant });
+  // One pool per additional shard, created on first use (same settings as the default pool)
+  const shardTenantDbs = new Map<string, typeof tenantDb>([[DEFAULT_SHARD, tenantDb]]);
+
+  const getShardTenantDb = (shard: string) => {
+    let shardDb = shardTenantDbs.get(shard);
+    if (!shardDb) {
+      const url = urls.get(shard);
+      if (!url) {
+        throw new Error(`Unknown shard ${shard} (configured: ${[...urls.keys()].join(', ')})`);
+      }
+      shardDb = drizzle(postgres(url, options), { schema: schemaTenant });
+      shardTenantDbs.set(shard, shardDb);
+    }
+    return shardDb;
+  };
+
+  return {
+    client,
+    db: drizzle(client, { schema: { ...schemaPublic, ...schemaTenant } }),
+    tenantDb,
+    shardNames: [...urls.keys()],
+    getShardClient: (shard) => getShardTenantDb(shard).$client,
+    getShardTenantDb,
+    async close(closeOptions) {
+      await Promise.all([...shardTenantDbs.values()].map((shardDb) => shardDb.$client.end(closeOptions)));
+    },
+  };
+}
+
+let defaultPools: SchemaPools | undefined;
 
+/**
+ * The pools behind `db`, `tenantDb` and getShardTenantDb(), created from DATABASE_URL and
+ * DATABASE_SHARDS on first use
+ * @throws Error if DATABASE_URL is missing or DATABASE_SHARDS is malformed
+ */
+export function getDefaultSchemaPools(): SchemaPools {
+  if (!defaultPools) {
+    const [[, url], ...shards] = getShardUrls();
+    defaultPools = createSchemaPools({ url, shards: Object.fromEntries(shards) });
+  }
+  return defaultPools;
+}
+
+/**
+ * Closes the default pools if they were used, e.g. on shutdown; the next use opens new ones
+ */
+export async function closeDefaultSchemaPools(options?: { timeout?: number }): Promise<void> {
+  const pools = defaultPools;
+  defaultPools = undefined;
+  await pools?.close(options);
+}
+
+// Combined schema for database operations (default pool, see getDefaultSchemaPools())
+export const db = lazy(() => getDefaultSchemaPools().db);
+
+// Tenant-only schema on the same pool - used by withTenantSchema()
+// Tables are unqualified, so they resolve through the tenant's search_path
+export const tenantDb = lazy(() => getDefaultSchemaPools().tenantDb);
+
+/**
+ * Tenant-only Drizzle instance for a shard (see shards.ts); `default` is tenantDb
+ * Used by withTenantSchema() to reach tenants that live on another database.
+ */
+export function getShardTenantDb(shard: string): typeof tenantDb {
+  return getDefaultSchemaPools().getShardTenantDb(shard);
+}
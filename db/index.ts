@@ -2,3 +2,11 @@ export * from './schema';
 export * from './db';
 export * from './tenant-schema';
 
+export * from './tenant-lifecycle';
+export * from './tenant-roles';
+export * from './shards';
+
+export * from './tenant-manager';
+export * from './tenant-errors';
+export * from './tenant-health';
+export * from './tenancy';
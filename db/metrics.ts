@@ -0,0 +1,152 @@
+import postgres from 'postgres';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import * as schemaPublic from './schema-public';
+import { schemaTracker, tenantStatus } from './schema-public';
+import { POOL_APPLICATION_NAME, POOL_MAX_CONNECTIONS } from './db';
+import { ShardClients, getExpectedMigrations, getAppliedMigrations, tableExistsInSchema } from './script-utils';
+import { TENANT_MIGRATIONS_FOLDER, findUntrackedSchemas } from './tenant-schema';
+import { getTenantApplicationName } from './tenant-lifecycle';
+import { MetricFamily } from '../shared/metrics';
+
+/**
+ * Metrics for the schema-per-tenant approach, served by `pnpm db:metrics`
+ *
+ * Uses the same checks as health-check: schema_tracker, the tenant migration journal against
+ * each schema's `__drizzle_migrations`, and findUntrackedSchemas() for orphans.
+ */
+
+/**
+ * Sessions of the db.ts pools (all processes) in pg_stat_activity, by state
+ * A tenant transaction shows up as `tenant:<schema>` (see withTenantSchema()) and is counted too.
+ */
+async function getPoolSessions(client: postgres.Sql): Promise<Array<{ state: string; count: number }>> {
+  const tenantPattern = `${getTenantApplicationName('')}%`;
+  const rows = await client`
+    SELECT COALESCE(state, 'unknown') AS state, count(*)::int AS count
+    FROM pg_stat_activity
+    WHERE datname = current_database()
+      AND (application_name = ${POOL_APPLICATION_NAME} OR application_name LIKE ${tenantPattern})
+    GROUP BY 1
+    ORDER BY 1
+  `;
+  return rows.map((row) => ({ state: row.state, count: row.count }));
+}
+
+/**
+ * Collects the tenancy metrics (names start with `tenancy_`)
+ *
+ * @param client - DATABASE_URL client (not closed here)
+ * @param shardClients - Clients for the shards tenants live on
+ */
+export async function collectTenancyMetrics(client: postgres.Sql, shardClients: ShardClients): Promise<MetricFamily[]> {
+  const db = drizzle(client, { schema: { ...schemaPublic } });
+  const tracked = await db.select().from(schemaTracker).orderBy(schemaTracker.name);
+
+  const byStatus = new Map<string, number>(tenantStatus.enumValues.map((status) => [status, 0]));
+  tracked.forEach(({ status }) => byStatus.set(status, byStatus.get(status)! + 1));
+
+  const journal = getExpectedMigrations(TENANT_MIGRATIONS_FOLDER);
+
+  // Lag: journal migrations a tenant has not applied; provisioning/deleting tenants are in flux
+  const lag: MetricFamily['samples'] = [];
+  const pinned: MetricFamily['samples'] = [];
+  for (const { name, shard, status, pinnedMigration } of tracked) {
+    if (status === 'provisioning' || status === 'deleting') {
+      continue;
+    }
+    const tenantClient = shardClients.get(shard);
+    if (!(await tableExistsInSchema(tenantClient, name, '__drizzle_migrations'))) {
+      continue;
+    }
+    const applied = new Set(await getAppliedMigrations(tenantClient, name));
+    lag.push({ labels: { schema: name, shard }, value: journal.filter((tag) => !applied.has(tag)).length });
+    if (pinnedMigration) {
+      pinned.push({ labels: { schema: name, shard }, value: 1 });
+    }
+  }
+
+  const untracked = await findUntrackedSchemas(shardClients, tracked);
+  const orphaned: MetricFamily['samples'] = [];
+  const quarantined: MetricFamily['samples'] = [];
+  const sizes: MetricFamily['samples'] = [];
+  const poolSessions: MetricFamily['samples'] = [];
+
+  for (const shard of shardClients.names()) {
+    orphaned.push({ labels: { shard }, value: untracked.orphaned.filter((o) => o.shard === shard).length });
+    quarantined.push({ labels: { shard }, value: untracked.quarantined.filter((q) => q.shard === shard).length });
+
+    // Tables (with their indexes and TOAST) per schema, for public and the tenants on this shard
+    const shardClient = shardClients.get(shard);
+    const schemas = ['public', ...tracked.filter((t) => t.shard === shard).map((t) => t.name)];
+    const rows = await shardClient`
+      SELECT n.nspname AS schema, COALESCE(sum(pg_total_relation_size(c.oid)), 0)::bigint AS bytes
+      FROM pg_namespace n
+      LEFT JOIN pg_class c ON c.relnamespace = n.oid AND c.relkind IN ('r', 'p', 'm')
+      WHERE n.nspname IN ${shardClient(schemas)}
+      GROUP BY n.nspname
+      ORDER BY n.nspname
+    `;
+    rows.forEach((row) => sizes.push({ labels: { schema: row.schema, shard }, value: Number(row.bytes) }));
+
+    for (const { state, count } of await getPoolSessions(shardClient)) {
+      poolSessions.push({ labels: { pool: 'db', shard, state }, value: count });
+    }
+  }
+
+  return [
+    {
+      name: 'tenancy_tenants',
+      help: 'Tenants in schema_tracker by lifecycle status',
+      type: 'gauge',
+      samples: [...byStatus].map(([status, count]) => ({ labels: { status }, value: count })),
+    },
+    {
+      name: 'tenancy_journal_migrations',
+      help: 'Migrations in the tenant migration journal',
+      type: 'gauge',
+      samples: [{ value: journal.length }],
+    },
+    {
+      name: 'tenancy_tenant_migration_lag',
+      help: 'Journal migrations not applied to the tenant schema (pinned tenants are behind on purpose)',
+      type: 'gauge',
+      samples: lag,
+    },
+    {
+      name: 'tenancy_tenant_pinned',
+      help: 'Tenant is pinned at an older migration by a rollback',
+      type: 'gauge',
+      samples: pinned,
+    },
+    {
+      name: 'tenancy_orphaned_schemas',
+      help: 'Schemas in the database that schema_tracker does not list',
+      type: 'gauge',
+      samples: orphaned,
+    },
+    {
+      name: 'tenancy_quarantined_schemas',
+      help: 'Orphaned schemas renamed to _quarantine_* by health-check --fix',
+      type: 'gauge',
+      samples: quarantined,
+    },
+    {
+      name: 'tenancy_schema_size_bytes',
+      help: 'Size of the tables in the schema, including indexes and TOAST',
+      type: 'gauge',
+      samples: sizes,
+    },
+    {
+      name: 'tenancy_pool_connections',
+      help: 'Sessions of the db/db.ts pools in pg_stat_activity, summed over all processes',
+      type: 'gauge',
+      samples: poolSessions,
+    },
+    {
+      name: 'tenancy_pool_max_connections',
+      help: 'Maximum connections of each db/db.ts pool, per process',
+      type: 'gauge',
+      samples: [{ labels: { pool: 'db' }, value: POOL_MAX_CONNECTIONS }],
+    },
+  ];
+}
@@ -1,36 +1,634 @@
 import postgres from 'postgres';
 import path from 'path';
 import fs from 'fs';
-import { escapeSchemaName } from './script-utils';
+import crypto from 'crypto';
+import {
+  escapeSchemaName,
+  getExpectedMigrations,
+  getAppliedMigrations,
+  getAppliedMigrationRecords,
+  tableExistsInSchema,
+  SqlClient,
+} from './script-utils';
 
 export interface MigrationOptions {
   client: postgres.Sql;
   schemaName: string;
   migrationsFolder: string;
   logPrefix?: string;
+  /** Stop after this migration (e.g. a tenant pinned to an older version) */
+  targetTag?: string;
+  /** How long to wait for another migrator's lock on the schema; 0 fails fast (default: 60s) */
+  lockTimeoutMs?: number;
+  /** Time (Date.now()) by which the run must have stopped: lock waits end there, and each statement
+   *  runs with a statement_timeout of the time left, so a run past it is cancelled and rolled back */
+  deadline?: number;
+}
+
+/**
+ * A migration run was stopped by its `deadline` (see MigrationOptions): a statement was
+ * cancelled by its statement_timeout, the time ran out between statements, or the deadline
+ * passed while waiting for the schema's migration lock. The migration in progress was rolled back.
+ */
+export class MigrationTimeoutError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+// SQLSTATE of a statement cancelled by statement_timeout (query_canceled)
+const QUERY_CANCELED = '57014';
+
+const STATEMENT_BREAKPOINT = '--> statement-breakpoint';
+
+/**
+ * Marker comment that opts a migration file out of its transaction, on a line of its own:
+ *   -- drizzle:no-transaction
+ * Needed for statements PostgreSQL refuses inside a transaction (e.g. CREATE INDEX CONCURRENTLY).
+ * Without a transaction, a failure can leave the migration partially applied.
+ */
+const NO_TRANSACTION_MARKER = /^\s*--\s*drizzle:no-transaction\s*$/m;
+
+export interface MigrationStatement {
+  sql: string;
+  line: number; // 1-based line in the migration file where the statement starts
+}
+
+/**
+ * Splits a migration file on drizzle-kit's `--> statement-breakpoint` markers
+ * Files without markers (older drizzle-kit output) are returned as a single statement.
+ */
+export function splitMigrationStatements(sql: string): MigrationStatement[] {
+  const statements: MigrationStatement[] = [];
+  let offset = 0;
+
+  for (const part of sql.split(STATEMENT_BREAKPOINT)) {
+    // Blank out the marker with same-length whitespace so line numbers stay accurate
+    const text = part.replace(NO_TRANSACTION_MARKER, (marker) => marker.replace(/[^\n]/g, ' '));
+    const statement = text.trim();
+    if (statement) {
+      const leadingWhitespace = text.length - text.trimStart().length;
+      const line = sql.slice(0, offset + leadingWhitespace).split('\n').length;
+      statements.push({ sql: statement, line });
+    }
+    offset += part.length + STATEMENT_BREAKPOINT.length;
+  }
+
+  return statements;
+}
+
+/**
+ * SHA-256 of a migration file's contents (same hash drizzle-kit records)
+ */
+export function hashMigrationSql(sql: string): string {
+  return crypto.createHash('sha256').update(sql).digest('hex');
+}
+
+/**
+ * Creates the `__drizzle_migrations` table in a schema, or upgrades an older one
+ *
+ * `hash` holds the SHA-256 of the migration file and `tag` identifies the migration.
+ * Tables created before the `tag` column existed stored the tag in `hash`; those rows
+ * get their tag back-filled and are reported as "legacy" until re-baselined.
+ */
+export async function ensureMigrationsTable(
+  client: SqlClient,
+  schemaName: string
+): Promise<void> {
+  const escapedSchemaName = escapeSchemaName(schemaName);
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${escapedSchemaName}."__drizzle_migrations" (
+      id SERIAL PRIMARY KEY,
+      hash text NOT NULL,
+      created_at bigint,
+      tag text
+    )
+  `);
+  await client.unsafe(`
+    ALTER TABLE ${escapedSchemaName}."__drizzle_migrations" ADD COLUMN IF NOT EXISTS tag text
+  `);
+  await client.unsafe(`
+    UPDATE ${escapedSchemaName}."__drizzle_migrations" SET tag = hash WHERE tag IS NULL
+  `);
+}
+
+export type MigrationIntegrityStatus =
+  | 'ok' // Recorded hash matches the file
+  | 'modified' // File changed after it was applied
+  | 'legacy'; // Applied before content hashes were recorded
+
+export interface MigrationIntegrityResult {
+  tag: string;
+  status: MigrationIntegrityStatus;
+  recordedHash: string;
+  currentHash: string;
+}
+
+/**
+ * Compares the recorded hash of every applied migration against its file on disk
+ * Applied migrations with no file in the folder are skipped (health-check reports them as extra).
+ */
+export async function checkMigrationIntegrity(
+  client: postgres.Sql,
+  schemaName: string,
+  migrationsFolder: string
+): Promise<MigrationIntegrityResult[]> {
+  const expectedTags = new Set(getExpectedMigrations(migrationsFolder));
+  const applied = await getAppliedMigrationRecords(client, schemaName);
+
+  return applied
+    .filter(({ tag }) => expectedTags.has(tag))
+    .map(({ tag, hash }) => {
+      const sql = fs.readFileSync(path.join(migrationsFolder, `${tag}.sql`), 'utf-8');
+      const currentHash = hashMigrationSql(sql);
+      let status: MigrationIntegrityStatus = 'ok';
+      if (hash === tag) {
+        status = 'legacy';
+      } else if (hash !== currentHash) {
+        status = 'modified';
+      }
+      return { tag, status, recordedHash: hash, currentHash };
+    });
+}
+
+/**
+ * Accepts the current file contents as the recorded hash of applied migrations
+ *
+ * Use after reviewing an intentional edit (or to record hashes for legacy rows).
+ * Does not execute any migration SQL.
+ *
+ * @param tags - Only re-baseline these migrations; defaults to every modified or legacy one
+ * @returns The migrations whose recorded hash was updated
+ */
+export async function rebaselineMigrationHashes(
+  client: postgres.Sql,
+  schemaName: string,
+  migrationsFolder: string,
+  tags?: string[]
+): Promise<MigrationIntegrityResult[]> {
+  const escapedSchemaName = escapeSchemaName(schemaName);
+  await ensureMigrationsTable(client, schemaName);
+
+  const integrity = await checkMigrationIntegrity(client, schemaName, migrationsFolder);
+  const targets = integrity.filter((m) =>
+    tags ? tags.includes(m.tag) && m.status !== 'ok' : m.status !== 'ok'
+  );
+
+  for (const { tag, currentHash } of targets) {
+    await client.unsafe(
+      `UPDATE ${escapedSchemaName}."__drizzle_migrations" SET hash = $1 WHERE tag = $2`,
+      [currentHash, tag]
+    );
+  }
+
+  return targets;
+}
+
+/**
+ * Executes migration statements in order, naming the failing statement and its line
+ * With a `deadline`, each statement gets the time left as the session's statement_timeout
+ * (the caller resets it).
+ */
+async function executeStatements(
+  client: postgres.Sql,
+  tag: string,
+  statements: MigrationStatement[],
+  deadline?: number
+): Promise<void> {
+  for (const [index, statement] of statements.entries()) {
+    if (deadline !== undefined) {
+      const remainingMs = Math.ceil(deadline - Date.now());
+      if (remainingMs <= 0) {
+        throw new MigrationTimeoutError(`Migration ${tag} stopped at statement ${index + 1}/${statements.length}: out of time`);
+      }
+      await client`SELECT set_config('statement_timeout', ${String(remainingMs)}, false)`;
+    }
+    try {
+      await client.unsafe(statement.sql);
+    } catch (error) {
+      // PostgreSQL reports the 1-based character position of the error within the statement
+      const position = Number((error as { position?: string }).position);
+      const line = position
+        ? statement.line + statement.sql.slice(0, position - 1).split('\n').length - 1
+        : statement.line;
+      const message = error instanceof Error ? error.message : String(error);
+      if (deadline !== undefined && (error as { code?: string }).code === QUERY_CANCELED) {
+        throw new MigrationTimeoutError(
+          `Migration ${tag} cancelled at statement ${index + 1}/${statements.length} (line ${line}): out of time`,
+          { cause: error }
+        );
+      }
+      throw new Error(
+        `Migration ${tag} failed at statement ${index + 1}/${statements.length} (line ${line}): ${message}\n` +
+          `  Statement: ${statement.sql.length > 500 ? `${statement.sql.slice(0, 500)}...` : statement.sql}`
+      );
+    }
+  }
+}
+
+/** Default time to wait for another migrator to release a schema's migration lock */
+export const DEFAULT_LOCK_TIMEOUT_MS = 60 * 1000;
+
+/** Lock key of a whole all-tenants run; not a valid schema name, so it never clashes with one */
+export const ALL_TENANTS_LOCK_KEY = '*all-tenants*';
+
+// First key of every migration advisory lock; the second key is hashtext(<schema or lock key>)
+const MIGRATION_LOCK_NAMESPACE = 72_616_001;
+const LOCK_POLL_INTERVAL_MS = 250;
+
+/**
+ * Describes the session holding a migration lock, e.g.
+ * `pid 4242 (migrate-tenants @deploy-1:311, user app, from 10.0.0.7, connected 2024-05-01T10:00:00.000Z)`
+ */
+async function describeLockHolder(conn: postgres.Sql, key: string): Promise<string> {
+  const [holder] = await conn`
+    SELECT a.pid, a.application_name, a.usename, a.client_addr::text AS client_addr, a.backend_start
+    FROM pg_locks l
+    JOIN pg_stat_activity a ON a.pid = l.pid
+    WHERE l.locktype = 'advisory'
+      AND l.granted
+      AND l.database = (SELECT oid FROM pg_database WHERE datname = current_database())
+      AND l.classid::bigint = ${MIGRATION_LOCK_NAMESPACE}
+      AND l.objid::bigint = (hashtext(${key})::bigint & 4294967295)
+      AND l.objsubid = 2
+    LIMIT 1
+  `;
+  if (!holder) {
+    return 'another session (it may have just released it)';
+  }
+
+  const details = [
+    holder.application_name || 'unnamed application',
+    holder.usename ? `user ${holder.usename}` : null,
+    holder.client_addr ? `from ${holder.client_addr}` : null,
+    holder.backend_start ? `connected ${new Date(holder.backend_start).toISOString()}` : null,
+  ].filter(Boolean);
+  return `pid ${holder.pid} (${details.join(', ')})`;
+}
+
+/**
+ * Runs `operation` while holding the migration advisory lock for `key` (a schema name
+ * or ALL_TENANTS_LOCK_KEY)
+ *
+ * The lock is session-level, so `operation` gets the reserved connection that holds it
+ * and must run all of its queries there. Postgres releases the lock by itself if the
+ * connection dies.
+ *
+ * @param timeoutMs - How long to wait for another holder; 0 fails immediately
+ * @throws Error naming the session that holds the lock if it is not released in time
+ */
+export async function withMigrationLock<T>(
+  client: postgres.Sql,
+  key: string,
+  timeoutMs: number,
+  operation: (conn: postgres.ReservedSql) => Promise<T>
+): Promise<T> {
+  const conn = await client.reserve();
+
+  try {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const [{ locked }] = await conn`
+        SELECT pg_try_advisory_lock(${MIGRATION_LOCK_NAMESPACE}, hashtext(${key})) AS locked
+      `;
+      if (locked) {
+        break;
+      }
+      if (Date.now() >= deadline) {
+        const holder = await describeLockHolder(conn, key);
+        const waited = timeoutMs > 0 ? `after waiting ${Math.round(timeoutMs / 1000)}s` : 'without waiting';
+        throw new Error(`Migration lock for ${key} is held by ${holder}; gave up ${waited}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_INTERVAL_MS));
+    }
+
+    try {
+      return await operation(conn);
+    } finally {
+      await conn`SELECT pg_advisory_unlock(${MIGRATION_LOCK_NAMESPACE}, hashtext(${key}))`.catch(() => {});
+    }
+  } finally {
+    conn.release();
+  }
+}
+
+/**
+ * Runs `operation` in a transaction on a reserved connection, with a transaction-local search_path
+ * (reserved connections have no `begin()`, so the transaction is managed by hand)
+ */
+async function withReservedTransaction(
+  conn: postgres.ReservedSql,
+  schemaName: string,
+  operation: () => Promise<void>
+): Promise<void> {
+  await conn.unsafe('BEGIN');
+  try {
+    await conn.unsafe(`SET LOCAL search_path TO ${escapeSchemaName(schemaName)}, public`);
+    await operation();
+    await conn.unsafe('COMMIT');
+  } catch (error) {
+    await conn.unsafe('ROLLBACK').catch(() => {});
+    throw error;
+  }
+}
+
+/** The `__drizzle_migrations` insert/delete of a migration file; values go in as parameters */
+interface TrackingStatement {
+  sql: string;
+  parameters: Array<string | number>;
+}
+
+/**
+ * Runs one migration file (up or down) against a schema
+ *
+ * The statements and `tracking` (the `__drizzle_migrations` insert/delete) commit together
+ * in one transaction with a transaction-local search_path, unless the file carries the
+ * no-transaction marker. Runs on the connection holding the schema's migration lock.
+ * With a `deadline`, statements are cancelled once it passes (see MigrationOptions.deadline).
+ */
+async function runMigrationFile(
+  conn: postgres.ReservedSql,
+  schemaName: string,
+  tag: string,
+  sql: string,
+  logPrefix: string,
+  tracking: TrackingStatement,
+  deadline?: number
+): Promise<void> {
+  try {
+    await runMigrationStatements(conn, schemaName, tag, sql, logPrefix, tracking, deadline);
+  } finally {
+    if (deadline !== undefined) {
+      // The timeout is set per session, so it must not go back to the pool with the connection
+      await conn.unsafe('RESET statement_timeout').catch(() => {});
+    }
+  }
+}
+
+async function runMigrationStatements(
+  conn: postgres.ReservedSql,
+  schemaName: string,
+  tag: string,
+  sql: string,
+  logPrefix: string,
+  tracking: TrackingStatement,
+  deadline?: number
+): Promise<void> {
+  const statements = splitMigrationStatements(sql);
+
+  if (NO_TRANSACTION_MARKER.test(sql)) {
+    // Opted out (e.g. CREATE INDEX CONCURRENTLY): use a session search_path and
+    // reset it before the connection goes back to the pool
+    if (logPrefix) {
+      console.log(`${logPrefix}Running ${tag} without a transaction (no-transaction marker)`);
+    }
+    try {
+      await conn.unsafe(`SET search_path TO ${escapeSchemaName(schemaName)}, public`);
+      await executeStatements(conn, tag, statements, deadline);
+      await conn.unsafe(tracking.sql, tracking.parameters);
+    } finally {
+      await conn.unsafe('RESET search_path').catch(() => {});
+    }
+    return;
+  }
+
+  // Statements and the tracking row commit together, with a transaction-local search_path
+  // so tables are created in the target schema without leaving the connection pointed at it
+  await withReservedTransaction(conn, schemaName, async () => {
+    if (logPrefix) {
+      const searchPathCheck = await conn`SHOW search_path`;
+      console.log(`${logPrefix}Search path set to: ${searchPathCheck[0].search_path}`);
+    }
+
+    await executeStatements(conn, tag, statements, deadline);
+
+    // Record the change in __drizzle_migrations table
+    await conn.unsafe(tracking.sql, tracking.parameters);
+  });
+}
+
+/**
+ * Path of the optional down migration paired with `tag`: `<migrationsFolder>/down/<tag>.sql`
+ */
+export function getDownMigrationPath(migrationsFolder: string, tag: string): string {
+  return path.join(migrationsFolder, 'down', `${tag}.sql`);
+}
+
+export interface RollbackOptions {
+  client: postgres.Sql;
+  schemaName: string;
+  migrationsFolder: string;
+  /** Roll back every migration applied after this tag (it stays applied); default: only the latest */
+  toTag?: string;
+  logPrefix?: string;
+  /** How long to wait for another migrator's lock on the schema; 0 fails fast (default: 60s) */
+  lockTimeoutMs?: number;
+}
+
+/**
+ * Rolls back applied migrations using their paired down migrations
+ *
+ * Migrations are rolled back newest first, each in its own transaction together with
+ * the removal of its `__drizzle_migrations` row. Every down file is checked up front,
+ * so a missing one aborts before anything runs. At least one migration always stays
+ * applied - to remove a tenant entirely, drop it. Holds the schema's migration lock
+ * (see withMigrationLock) for the whole rollback.
+ *
+ * @returns Tags that were rolled back, newest first
+ */
+export async function rollbackMigrations({
+  client,
+  schemaName,
+  migrationsFolder,
+  toTag,
+  logPrefix = '',
+  lockTimeoutMs = DEFAULT_LOCK_TIMEOUT_MS,
+}: RollbackOptions): Promise<string[]> {
+  const escapedSchemaName = escapeSchemaName(schemaName);
+
+  return await withMigrationLock(client, schemaName, lockTimeoutMs, async (conn) => {
+    await ensureMigrationsTable(conn, schemaName);
+    const applied = (await getAppliedMigrationRecords(conn, schemaName)).map((m) => m.tag);
+
+    let keepCount = applied.length - 1;
+    if (toTag) {
+      keepCount = applied.indexOf(toTag) + 1;
+      if (keepCount === 0) {
+        throw new Error(`Migration ${toTag} is not applied to schema ${schemaName}`);
+      }
+    }
+    if (keepCount < 1) {
+      throw new Error(
+        `Cannot roll back ${schemaName} past its first migration; drop the tenant instead`
+      );
+    }
+
+    const toRollBack = applied.slice(keepCount).reverse();
+    const missingDown = toRollBack.filter(
+      (tag) => !fs.existsSync(getDownMigrationPath(migrationsFolder, tag))
+    );
+    if (missingDown.length > 0) {
+      throw new Error(`No down migration for: ${missingDown.join(', ')} (expected in ${path.join(migrationsFolder, 'down')})`);
+    }
+
+    for (const tag of toRollBack) {
+      if (logPrefix) {
+        console.log(`${logPrefix}Rolling back migration: ${tag}`);
+      }
+      const sql = fs.readFileSync(getDownMigrationPath(migrationsFolder, tag), 'utf-8');
+      await runMigrationFile(conn, schemaName, tag, sql, logPrefix, {
+        sql: `DELETE FROM ${escapedSchemaName}."__drizzle_migrations" WHERE tag = $1`,
+        parameters: [tag],
+      });
+    }
+
+    if (logPrefix && toRollBack.length > 0) {
+      console.log(`${logPrefix}Rolled back ${toRollBack.length} migration(s)`);
+    }
+
+    return toRollBack;
+  });
+}
+
+export interface PlannedMigration {
+  tag: string;
+  hash: string; // SHA-256 that will be recorded
+  transactional: boolean; // false when the file carries the no-transaction marker
+  statements: MigrationStatement[];
+}
+
+export interface MigrationPlan {
+  schema: string;
+  applied: string[];
+  pending: PlannedMigration[];
+  pinnedMigration?: string;
+}
+
+/**
+ * Builds the list of migrations applyMigrations() would run for a schema, without executing anything
+ *
+ * Compares the journal (getExpectedMigrations) with the schema's `__drizzle_migrations`
+ * (getAppliedMigrations). A schema without a tracking table has everything pending.
+ *
+ * @param targetTag - Plan only up to this migration (e.g. a pinned tenant)
+ */
+export async function buildMigrationPlan({
+  client,
+  schemaName,
+  migrationsFolder,
+  targetTag,
+}: Omit<MigrationOptions, 'logPrefix' | 'lockTimeoutMs'>): Promise<MigrationPlan> {
+  let expected = getExpectedMigrations(migrationsFolder);
+  if (targetTag) {
+    const targetIndex = expected.indexOf(targetTag);
+    if (targetIndex === -1) {
+      throw new Error(`Target migration ${targetTag} is not in the journal`);
+    }
+    expected = expected.slice(0, targetIndex + 1);
+  }
+
+  const applied = (await tableExistsInSchema(client, schemaName, '__drizzle_migrations'))
+    ? await getAppliedMigrations(client, schemaName)
+    : [];
+  const appliedSet = new Set(applied);
+
+  const pending = expected
+    .filter((tag) => !appliedSet.has(tag))
+    .map((tag) => {
+      const migrationFile = path.join(migrationsFolder, `${tag}.sql`);
+      if (!fs.existsSync(migrationFile)) {
+        throw new Error(`Migration file not found: ${migrationFile}`);
+      }
+      const sql = fs.readFileSync(migrationFile, 'utf-8');
+      return {
+        tag,
+        hash: hashMigrationSql(sql),
+        transactional: !NO_TRANSACTION_MARKER.test(sql),
+        statements: splitMigrationStatements(sql),
+      };
+    });
+
+  return { schema: schemaName, applied, pending, ...(targetTag ? { pinnedMigration: targetTag } : {}) };
+}
+
+/**
+ * Formats migration plans as a human-readable report including the exact SQL
+ */
+export function formatMigrationPlans(plans: MigrationPlan[]): string {
+  const lines: string[] = [];
+
+  for (const plan of plans) {
+    const pinned = plan.pinnedMigration ? ` (pinned at ${plan.pinnedMigration})` : '';
+    if (plan.pending.length === 0) {
+      lines.push(`✓ ${plan.schema}: Up to date${pinned} - ${plan.applied.length} migration(s) applied`);
+      continue;
+    }
+
+    lines.push(`→ ${plan.schema}: ${plan.pending.length} pending migration(s)${pinned}`);
+    for (const migration of plan.pending) {
+      const mode = migration.transactional ? 'one transaction' : 'NO transaction';
+      lines.push(`  ${migration.tag} (${migration.statements.length} statement(s), ${mode}, sha256 ${migration.hash.slice(0, 12)})`);
+      for (const statement of migration.statements) {
+        lines.push(`    -- line ${statement.line}`);
+        lines.push(...statement.sql.split('\n').map((line) => `    ${line}`));
+      }
+    }
+  }
+
+  const pendingSchemas = plans.filter((p) => p.pending.length > 0).length;
+  const pendingTotal = plans.reduce((sum, p) => sum + p.pending.length, 0);
+  lines.push('');
+  lines.push(`Plan: ${pendingTotal} migration(s) pending across ${pendingSchemas} of ${plans.length} schema(s). Nothing was executed.`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Prints migration plans for the --dry-run / --plan flag of the migrate scripts
+ *
+ * With `json`, prints only a JSON document (suitable for attaching to a change ticket):
+ * `{ generatedAt, plans: MigrationPlan[], errors: [{ schema, error }] }`
+ */
+export function printMigrationPlans(
+  plans: MigrationPlan[],
+  options: { json?: boolean; errors?: Array<{ schema: string; error: string }> } = {}
+): void {
+  const { json = false, errors = [] } = options;
+
+  if (json) {
+    console.log(JSON.stringify({ generatedAt: new Date().toISOString(), plans, errors }, null, 2));
+    return;
+  }
+
+  console.log(formatMigrationPlans(plans));
+  if (errors.length > 0) {
+    console.log('\nCould not plan:');
+    errors.forEach(({ schema, error }) => console.log(`  - ${schema}: ${error}`));
+  }
 }
 
 /**
  * Applies migrations to a schema using manual SQL execution
  * Prevents Drizzle from creating unwanted "drizzle" schema
+ *
+ * Each migration file runs in its own transaction together with its
+ * `__drizzle_migrations` row, so a failure rolls back that migration only.
+ * Statements are executed one by one, split on `--> statement-breakpoint`.
+ * With `targetTag`, migrations after that tag in the journal are left pending.
+ * Holds the schema's migration lock (see withMigrationLock) for the whole run.
  */
 export async function applyMigrations({
   client,
   schemaName,
   migrationsFolder,
   logPrefix = '',
+  targetTag,
+  lockTimeoutMs = DEFAULT_LOCK_TIMEOUT_MS,
+  deadline,
 }: MigrationOptions): Promise<void> {
   const escapedSchemaName = escapeSchemaName(schemaName);
 
-  // Set search_path to target schema
-  await client.unsafe(`SET search_path TO ${escapedSchemaName}, public`);
-
-  // Verify search_path is set correctly
-  const searchPathCheck = await client`SHOW search_path`;
-  if (logPrefix) {
-    console.log(`${logPrefix}Search path set to: ${searchPathCheck[0].search_path}`);
-  }
-
   // Resolve migration paths
   const metaFolder = path.join(migrationsFolder, 'meta');
   const journalPath = path.join(metaFolder, '_journal.json');
@@ -50,60 +648,72 @@ export async function applyMigrations({
     return;
   }
 
-  // Create __drizzle_migrations table in target schema if it doesn't exist
-  await client.unsafe(`
-    CREATE TABLE IF NOT EXISTS ${escapedSchemaName}."__drizzle_migrations" (
-      id SERIAL PRIMARY KEY,
-      hash text NOT NULL,
-      created_at bigint
-    )
-  `);
+  if (targetTag && !migrations.some((m: any) => m.tag === targetTag)) {
+    throw new Error(`Target migration ${targetTag} is not in the journal at ${journalPath}`);
+  }
 
-  // Check which migrations have already been applied
-  const appliedMigrations = await client.unsafe(`
-    SELECT hash FROM ${escapedSchemaName}."__drizzle_migrations"
-  `);
-  const appliedHashes = new Set(appliedMigrations.map((m: any) => m.hash));
+  // Hold the schema's migration lock while reading what is applied and applying the rest,
+  // so a concurrent migrator cannot see the same migrations as pending
+  // A deadline also bounds the wait for the lock
+  const lockWaitMs = deadline === undefined ? lockTimeoutMs : Math.max(0, Math.min(lockTimeoutMs, deadline - Date.now()));
+  let locked = false;
+  await withMigrationLock(client, schemaName, lockWaitMs, async (conn) => {
+    locked = true;
+    // Create __drizzle_migrations table in target schema if it doesn't exist
+    await ensureMigrationsTable(conn, schemaName);
 
-  // Apply each migration that hasn't been applied yet
-  let appliedCount = 0;
-  for (const migration of migrations) {
-    const migrationFile = path.join(migrationsFolder, `${migration.tag}.sql`);
+    // Check which migrations have already been applied (identified by tag)
+    const appliedTags = new Set(
+      (await getAppliedMigrationRecords(conn, schemaName)).map((m) => m.tag)
+    );
 
-    if (!fs.existsSync(migrationFile)) {
-      throw new Error(`Migration file not found: ${migrationFile}`);
-    }
+    // Apply each migration that hasn't been applied yet
+    let appliedCount = 0;
+    for (const migration of migrations) {
+      const migrationFile = path.join(migrationsFolder, `${migration.tag}.sql`);
 
-    // Skip if already applied
-    if (appliedHashes.has(migration.tag)) {
-      if (logPrefix) {
-        console.log(`${logPrefix}Skipping already applied migration: ${migration.tag}`);
+      if (!fs.existsSync(migrationFile)) {
+        throw new Error(`Migration file not found: ${migrationFile}`);
       }
-      continue;
-    }
 
-    if (logPrefix) {
-      console.log(`${logPrefix}Applying migration: ${migration.tag}`);
-    }
+      // Skip if already applied
+      if (appliedTags.has(migration.tag)) {
+        if (logPrefix) {
+          console.log(`${logPrefix}Skipping already applied migration: ${migration.tag}`);
+        }
+        if (migration.tag === targetTag) {
+          break;
+        }
+        continue;
+      }
 
-    // Read and execute SQL file
-    // search_path is already set, so tables will be created in target schema
-    const sql = fs.readFileSync(migrationFile, 'utf-8');
+      if (logPrefix) {
+        console.log(`${logPrefix}Applying migration: ${migration.tag}`);
+      }
 
-    // Execute SQL - search_path ensures tables are created in correct schema
-    await client.unsafe(sql);
+      // Read SQL file; it runs together with its tracking row
+      const sql = fs.readFileSync(migrationFile, 'utf-8');
+      await runMigrationFile(conn, schemaName, migration.tag, sql, logPrefix, {
+        sql: `INSERT INTO ${escapedSchemaName}."__drizzle_migrations" (hash, created_at, tag) VALUES ($1, $2, $3)`,
+        parameters: [hashMigrationSql(sql), Date.now(), migration.tag],
+      }, deadline);
 
-    // Record migration in __drizzle_migrations table
-    await client.unsafe(`
-      INSERT INTO ${escapedSchemaName}."__drizzle_migrations" (hash, created_at)
-      VALUES ('${migration.tag}', ${Date.now()})
-    `);
+      appliedCount++;
 
-    appliedCount++;
-  }
+      if (migration.tag === targetTag) {
+        break;
+      }
+    }
 
-  if (logPrefix && appliedCount > 0) {
-    console.log(`${logPrefix}Applied ${appliedCount} migration(s)`);
-  }
+    if (logPrefix && appliedCount > 0) {
+      console.log(`${logPrefix}Applied ${appliedCount} migration(s)`);
+    }
+  }).catch((error: unknown) => {
+    // The deadline cut the wait for the lock short
+    if (!locked && deadline !== undefined && Date.now() >= deadline) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new MigrationTimeoutError(`Out of time waiting for the migration lock of ${schemaName}: ${message}`, { cause: error });
+    }
+    throw error;
+  });
 }
-
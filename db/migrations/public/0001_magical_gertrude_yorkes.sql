@@ -0,0 +1 @@
+ALTER TABLE "schema_tracker" ADD COLUMN "migration_error" text;
\ No newline at end of file
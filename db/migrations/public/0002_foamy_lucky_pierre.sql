@@ -0,0 +1 @@
+ALTER TABLE "schema_tracker" ADD COLUMN "pinned_migration" text;
\ No newline at end of file
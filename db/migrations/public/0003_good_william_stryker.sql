@@ -0,0 +1,5 @@
+CREATE TYPE "public"."tenant_status" AS ENUM('provisioning', 'active', 'suspended', 'migration_failed', 'deleting');--> statement-breakpoint
+ALTER TABLE "schema_tracker" ADD COLUMN "status" "tenant_status" DEFAULT 'active' NOT NULL;--> statement-breakpoint
+ALTER TABLE "schema_tracker" ADD COLUMN "migrated_version" text;--> statement-breakpoint
+ALTER TABLE "schema_tracker" ADD COLUMN "created_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "schema_tracker" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "tenant_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"schema_name" text NOT NULL,
+	"event" text NOT NULL,
+	"details" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "tenant_events_tenant_id_idx" ON "tenant_events" USING btree ("tenant_id","created_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "schema_tracker" ADD COLUMN "db_role" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "schema_tracker" ADD COLUMN "shard" text DEFAULT 'default' NOT NULL;
\ No newline at end of file
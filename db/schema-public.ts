@@ -1,8 +1,44 @@
-import { pgTable, uuid, text } from 'drizzle-orm/pg-core';
+import { pgTable, pgEnum, uuid, text, timestamp, jsonb, index } from 'drizzle-orm/pg-core';
+
+// Tenant lifecycle states; allowed transitions are enforced in tenant-lifecycle.ts
+export const tenantStatus = pgEnum('tenant_status', [
+  'provisioning', // Schema is being created and migrated
+  'active',
+  'suspended',
+  'migration_failed', // Last upgrade failed; details in migration_error
+  'deleting', // Schema is being dropped
+]);
 
 // Schema tracker table - tracks all tenant schemas in public schema
 export const schemaTracker = pgTable('schema_tracker', {
   id: uuid('id').primaryKey().defaultRandom(),
   name: text('name').notNull().unique(),
+  // Existing tenants (tracked before statuses existed) start out active
+  status: tenantStatus('status').notNull().default('active'),
+  // Error from the last failed upgrade; cleared when the tenant migrates successfully
+  migrationError: text('migration_error'),
+  // Last migration this tenant is deliberately held at after a rollback; null = follow the journal
+  pinnedMigration: text('pinned_migration'),
+  // Latest migration applied to the tenant schema, recorded after every provision/upgrade/rollback
+  migratedVersion: text('migrated_version'),
+  // Database the tenant schema lives on (a name from DATABASE_SHARDS; see shards.ts)
+  shard: text('shard').notNull().default('default'),
+  // Dedicated Postgres role with privileges only on this tenant's schema (see tenant-roles.ts); null = none
+  dbRole: text('db_role'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow().$onUpdate(() => new Date()),
 });
 
+// Tenant history: renames and status changes, kept after the tenant is dropped
+export const tenantEvents = pgTable('tenant_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  // schema_tracker.id; stays the same across renames (no FK so history outlives the tenant)
+  tenantId: uuid('tenant_id').notNull(),
+  // Schema name at the time of the event
+  schemaName: text('schema_name').notNull(),
+  event: text('event').notNull(), // e.g. 'renamed', 'status_changed'
+  details: jsonb('details'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  index('tenant_events_tenant_id_idx').on(table.tenantId, table.createdAt),
+]);
@@ -1,16 +1,72 @@
 import postgres from 'postgres';
+import os from 'os';
+import path from 'path';
 import { db } from './db';
 import { schemaTracker } from './schema';
 import { eq } from 'drizzle-orm';
+import { DEFAULT_SHARD, getShardUrl, getShardNames } from './shards';
+import { TenantNotFoundError } from './tenant-errors';
+
+/**
+ * Identifies this process in pg_stat_activity, e.g. `migrate-tenants @deploy-1:3112`
+ * Shown when a migration lock is held by someone else.
+ */
+export function getApplicationName(): string {
+  const script = path.basename(process.argv[1] ?? 'node', path.extname(process.argv[1] ?? ''));
+  // application_name is truncated by PostgreSQL beyond 63 characters
+  return `${script} @${os.hostname()}:${process.pid}`.slice(0, 63);
+}
 
 /**
  * Creates a postgres client with standard configuration
+ * @param options - Overrides for the default single-connection client (e.g. a larger `max` for parallel work)
+ * @param shard - Database to connect to (see shards.ts); default: DATABASE_URL
  */
-export function createPostgresClient(): postgres.Sql {
-  if (!process.env.DATABASE_URL) {
-    throw new Error('DATABASE_URL environment variable is required');
-  }
-  return postgres(process.env.DATABASE_URL!, { max: 1 });
+export function createPostgresClient(options: postgres.Options<{}> = {}, shard: string = DEFAULT_SHARD): postgres.Sql {
+  return postgres(getShardUrl(shard), {
+    max: 1,
+    ...options,
+    connection: { application_name: getApplicationName(), ...options.connection },
+  });
+}
+
+/**
+ * Clients for every shard a run touches, created on first use
+ *
+ * `get(DEFAULT_SHARD)` returns the control client passed in; other shards get their own
+ * client with the same options. `end()` closes only the clients created here.
+ */
+export interface ShardClients {
+  get(shard: string): postgres.Sql;
+  /** Names of the configured shards, `default` first */
+  names(): string[];
+  end(options?: { timeout?: number }): Promise<void>;
+}
+
+/**
+ * Creates a ShardClients set around an existing control (DATABASE_URL) client
+ * @param options - Options for the shard clients created on demand (e.g. `max`)
+ */
+export function createShardClients(control: postgres.Sql, options: postgres.Options<{}> = {}): ShardClients {
+  const clients = new Map<string, postgres.Sql>();
+  return {
+    get(shard) {
+      if (shard === DEFAULT_SHARD) {
+        return control;
+      }
+      let client = clients.get(shard);
+      if (!client) {
+        client = createPostgresClient(options, shard);
+        clients.set(shard, client);
+      }
+      return client;
+    },
+    names: getShardNames,
+    async end(endOptions) {
+      await Promise.all([...clients.values()].map((client) => client.end(endOptions)));
+      clients.clear();
+    },
+  };
 }
 
 /**
@@ -38,6 +94,34 @@ export function getRequiredArg(
   return arg;
 }
 
+/**
+ * Gets a positive integer flag value (e.g. `--concurrency 8`), or the default if absent/invalid
+ */
+export function getNumericArg(
+  args: string[],
+  names: string[],
+  defaultValue: number
+): number {
+  const index = args.findIndex((arg) => names.includes(arg));
+  if (index !== -1 && args[index + 1]) {
+    const value = parseInt(args[index + 1], 10);
+    if (!isNaN(value) && value > 0) {
+      return value;
+    }
+  }
+  return defaultValue;
+}
+
+/**
+ * Gets the migration lock wait in milliseconds: `--lock-timeout <seconds>` (default 60), or 0 with `--no-wait`
+ */
+export function getLockTimeoutArg(args: string[]): number {
+  if (args.includes('--no-wait')) {
+    return 0;
+  }
+  return getNumericArg(args, ['--lock-timeout'], 60) * 1000;
+}
+
 /**
  * Handles script errors with consistent formatting
  */
@@ -52,14 +136,58 @@ export function handleScriptError(error: unknown, context: string): never {
 }
 
 /**
- * Sets search_path for a schema
+ * A postgres-js transaction, with the tagged-template call signature it has at runtime
+ *
+ * postgres-js's TransactionSql typings leave that signature out. It is still not a
+ * `postgres.Sql`: it has no `options`, so Drizzle cannot wrap it (`drizzle(tx)` throws) -
+ * use plain SQL inside beginTransaction().
+ */
+export type TransactionClient = postgres.TransactionSql &
+  (<T extends readonly (object | undefined)[] = postgres.Row[]>(
+    template: TemplateStringsArray,
+    ...parameters: readonly postgres.ParameterOrFragment<never>[]
+  ) => postgres.PendingQuery<T>);
+
+/** A client or pool, or a transaction on one: what the plain-SQL helpers run on */
+export type SqlClient = postgres.Sql | TransactionClient;
+
+/**
+ * Runs an operation in a transaction, passing the transaction as a TransactionClient
+ *
+ * `options` are begin()'s, e.g. `'isolation level repeatable read'`.
  */
-export async function setSearchPath(
+export function beginTransaction<T>(client: postgres.Sql, operation: (txClient: TransactionClient) => Promise<T>): Promise<T>;
+export function beginTransaction<T>(
   client: postgres.Sql,
-  schemaName: string
-): Promise<void> {
+  options: string,
+  operation: (txClient: TransactionClient) => Promise<T>
+): Promise<T>;
+export async function beginTransaction<T>(
+  client: postgres.Sql,
+  ...args: [(txClient: TransactionClient) => Promise<T>] | [string, (txClient: TransactionClient) => Promise<T>]
+): Promise<T> {
+  const [options, operation] = args.length === 1 ? ['', args[0]] : args;
+  const result = await client.begin(options, (tx) => operation(tx as TransactionClient));
+  return result as T;
+}
+
+/**
+ * Runs an operation inside a transaction with search_path set to a schema
+ *
+ * Uses `SET LOCAL`, so the search_path is reset on commit/rollback and a pooled
+ * connection never carries one tenant's schema over to the next caller.
+ * Drizzle code should use withTenantSchema() from tenant-schema.ts instead.
+ */
+export async function withSearchPath<T>(
+  client: postgres.Sql,
+  schemaName: string,
+  operation: (tx: TransactionClient) => Promise<T>
+): Promise<T> {
   const escapedSchemaName = escapeSchemaName(schemaName);
-  await client.unsafe(`SET search_path TO ${escapedSchemaName}, public`);
+  return await beginTransaction(client, async (txClient) => {
+    await txClient.unsafe(`SET LOCAL search_path TO ${escapedSchemaName}, public`);
+    return await operation(txClient);
+  });
 }
 
 /**
@@ -78,7 +206,7 @@ export async function findSchemaInTracker(schemaName: string) {
  * Checks if a schema exists in the database
  */
 export async function schemaExistsInDatabase(
-  client: postgres.Sql,
+  client: SqlClient,
   schemaName: string
 ): Promise<boolean> {
   const result = await client`
@@ -94,7 +222,7 @@ export async function schemaExistsInDatabase(
  * Checks if a table exists in a schema
  */
 export async function tableExistsInSchema(
-  client: postgres.Sql,
+  client: SqlClient,
   schemaName: string,
   tableName: string
 ): Promise<boolean> {
@@ -111,7 +239,7 @@ export async function tableExistsInSchema(
  * Gets all tables in a schema (excluding system tables)
  */
 export async function getTablesInSchema(
-  client: postgres.Sql,
+  client: SqlClient,
   schemaName: string,
   excludeTables: string[] = ['__drizzle_migrations']
 ): Promise<string[]> {
@@ -128,6 +256,8 @@ export async function getTablesInSchema(
 
 /**
  * Validates that a schema exists in tracker and database, with helpful error messages
+ * A tracked tenant is looked up on its own shard; `client` is used for untracked schemas.
+ * @throws TenantNotFoundError if a required check fails
  */
 export async function validateSchemaExists(
   client: postgres.Sql,
@@ -140,6 +270,7 @@ export async function validateSchemaExists(
 ): Promise<{
   inTracker: boolean;
   inDatabase: boolean;
+  shard: string;
 }> {
   const {
     requireInTracker = false,
@@ -147,24 +278,38 @@ export async function validateSchemaExists(
     action = 'perform this operation',
   } = options;
 
-  const inTracker = (await findSchemaInTracker(schemaName)) !== null;
-  const inDatabase = await schemaExistsInDatabase(client, schemaName);
+  const tracked = await findSchemaInTracker(schemaName);
+  const inTracker = tracked !== null;
+  const shard = tracked?.shard ?? DEFAULT_SHARD;
+
+  let inDatabase: boolean;
+  if (shard === DEFAULT_SHARD) {
+    inDatabase = await schemaExistsInDatabase(client, schemaName);
+  } else {
+    const shardClient = createPostgresClient({}, shard);
+    try {
+      inDatabase = await schemaExistsInDatabase(shardClient, schemaName);
+    } finally {
+      await shardClient.end();
+    }
+  }
 
   if (requireInTracker && !inTracker) {
-    console.error(`Error: Schema '${schemaName}' not found in schema_tracker`);
-    console.log(`Available schemas can be listed with: pnpm db:list:tenants`);
-    process.exit(1);
+    throw new TenantNotFoundError(
+      `Schema '${schemaName}' not found in schema_tracker (list tenants with: pnpm db:list:tenants)`,
+      schemaName
+    );
   }
 
   if (requireInDatabase && !inDatabase) {
-    console.error(`Error: Schema '${schemaName}' does not exist in database`);
-    if (action === 'migrate') {
-      console.log(`Create it with: pnpm db:create:tenant ${schemaName}`);
-    }
-    process.exit(1);
+    throw new TenantNotFoundError(
+      `Schema '${schemaName}' does not exist in database${shard === DEFAULT_SHARD ? '' : ` (shard ${shard})`}` +
+        (action === 'migrate' ? ` (create it with: pnpm db:create:tenant ${schemaName})` : ''),
+      schemaName
+    );
   }
 
-  return { inTracker, inDatabase };
+  return { inTracker, inDatabase, shard };
 }
 
 /**
@@ -186,17 +331,31 @@ export function getExpectedMigrations(migrationsFolder: string): string[] {
 }
 
 /**
- * Gets applied migrations for a schema
+ * Gets applied migration records (tag + recorded content hash) for a schema
+ *
+ * Works on tracking tables created before the `tag` column existed: those
+ * stored the tag in `hash`, so it is used as the tag.
  */
-export async function getAppliedMigrations(
-  client: postgres.Sql,
+export async function getAppliedMigrationRecords(
+  client: SqlClient,
   schemaName: string
-): Promise<string[]> {
+): Promise<Array<{ tag: string; hash: string }>> {
   const escapedSchemaName = escapeSchemaName(schemaName);
   const appliedMigrations = await client.unsafe(`
-    SELECT hash FROM ${escapedSchemaName}."__drizzle_migrations"
-    ORDER BY id
+    SELECT COALESCE(to_jsonb(m) ->> 'tag', m.hash) AS tag, m.hash
+    FROM ${escapedSchemaName}."__drizzle_migrations" m
+    ORDER BY m.id
   `);
-  return appliedMigrations.map((m: any) => m.hash);
+  return appliedMigrations.map((m: any) => ({ tag: m.tag, hash: m.hash }));
 }
 
+/**
+ * Gets applied migrations (tags) for a schema
+ */
+export async function getAppliedMigrations(
+  client: SqlClient,
+  schemaName: string
+): Promise<string[]> {
+  const records = await getAppliedMigrationRecords(client, schemaName);
+  return records.map((m) => m.tag);
+}
@@ -1,10 +1,15 @@
 import 'dotenv/config';
 import postgres from 'postgres';
 import { db } from '../db';
-import { schemaTracker } from '../schema';
+import { schemaTracker, dummyTable } from '../schema';
 import { eq } from 'drizzle-orm';
-import { createPostgresClient, setSearchPath, escapeSchemaName } from '../script-utils';
-import { createTenantSchemaWithMigrations } from '../tenant-schema';
+import { createPostgresClient, withSearchPath, escapeSchemaName } from '../script-utils';
+import {
+  createTenantSchemaWithMigrations,
+  createTenantSchemaFromTemplate,
+  ensureTenantTemplate,
+  withTenantSchema,
+} from '../tenant-schema';
 import { checkMigrations, formatTime } from '../../shared/db-utils';
 
 /**
@@ -12,8 +17,9 @@ import { checkMigrations, formatTime } from '../../shared/db-utils';
  * 
  * This script measures:
  * - Query performance (baseline vs with search_path switching)
- * - search_path switching overhead
+ * - search_path switching overhead (transaction + SET LOCAL)
  * - Schema-level isolation performance
+ * - Tenant provisioning: replaying migrations vs copying the template schema
  * - Comparison metrics for decision-making
  */
 
@@ -77,7 +83,7 @@ function printResult(result: BenchmarkResult): void {
   console.log(`   Throughput: ${formatOpsPerSec(result.operationsPerSecond)}`);
 }
 
-async function setupTestData(client: postgres.Sql) {
+async function setupTestData() {
   console.log('Setting up test data...');
   
   const schema1 = `benchmark_tenant_1_${Date.now()}`;
@@ -92,20 +98,16 @@ async function setupTestData(client: postgres.Sql) {
   await db.insert(schemaTracker).values({ name: schema2 });
 
   // Insert test data into each tenant schema
-  await setSearchPath(client, schema1);
-  for (let i = 0; i < 10; i++) {
-    await client`
-      INSERT INTO dummy_table (name, value, description)
-      VALUES (${`User ${i} Tenant 1`}, ${`Value ${i}`}, ${`Description ${i}`})
-    `;
-  }
-
-  await setSearchPath(client, schema2);
-  for (let i = 0; i < 10; i++) {
-    await client`
-      INSERT INTO dummy_table (name, value, description)
-      VALUES (${`User ${i} Tenant 2`}, ${`Value ${i}`}, ${`Description ${i}`})
-    `;
+  for (const [schemaName, label] of [[schema1, 'Tenant 1'], [schema2, 'Tenant 2']]) {
+    await withTenantSchema(schemaName, async (tx) => {
+      await tx.insert(dummyTable).values(
+        Array.from({ length: 10 }, (_, i) => ({
+          name: `User ${i} ${label}`,
+          value: `Value ${i}`,
+          description: `Description ${i}`,
+        }))
+      );
+    });
   }
 
   console.log('   ✓ Test data created\n');
@@ -145,11 +147,13 @@ async function runBenchmarks() {
   console.log('=== Multi-Schema Performance Benchmarking ===\n');
 
   const client = createPostgresClient();
+  // Template provisioning holds the template lock on a second connection
+  const provisioningClient = createPostgresClient({ max: 2 });
   
   // Check if migrations have been run
   await checkMigrations(client, 'public', 'schema_tracker', 'pnpm db:migrate');
   
-  const { schema1, schema2 } = await setupTestData(client);
+  const { schema1, schema2 } = await setupTestData();
   const schemaNames = [schema1, schema2];
 
   try {
@@ -177,8 +181,9 @@ async function runBenchmarks() {
       'Query with search_path switch',
       100,
       async () => {
-        await setSearchPath(client, schema1);
-        await client`SELECT * FROM dummy_table LIMIT 10`;
+        await withSearchPath(client, schema1, async (tx) => {
+          await tx`SELECT * FROM dummy_table LIMIT 10`;
+        });
       }
     );
     results.push(searchPathResult);
@@ -192,8 +197,8 @@ async function runBenchmarks() {
       'search_path switching overhead',
       100,
       async () => {
-        await setSearchPath(client, schema1);
         // Just switch, no query
+        await withSearchPath(client, schema1, async () => {});
       }
     );
     results.push(switchOverheadResult);
@@ -223,10 +228,12 @@ async function runBenchmarks() {
       100,
       async () => {
         // Switch between schemas and query
-        await setSearchPath(client, schema1);
-        await client`SELECT COUNT(*) FROM dummy_table`;
-        await setSearchPath(client, schema2);
-        await client`SELECT COUNT(*) FROM dummy_table`;
+        await withSearchPath(client, schema1, async (tx) => {
+          await tx`SELECT COUNT(*) FROM dummy_table`;
+        });
+        await withSearchPath(client, schema2, async (tx) => {
+          await tx`SELECT COUNT(*) FROM dummy_table`;
+        });
       }
     );
     results.push(contextSwitchResult);
@@ -240,16 +247,66 @@ async function runBenchmarks() {
       'INSERT with search_path',
       50,
       async () => {
-        await setSearchPath(client, schema1);
-        await client`
-          INSERT INTO dummy_table (name, value, description)
-          VALUES ('Benchmark Item', 'Test Value', 'Benchmark Description')
-        `;
+        await withSearchPath(client, schema1, async (tx) => {
+          await tx`
+            INSERT INTO dummy_table (name, value, description)
+            VALUES ('Benchmark Item', 'Test Value', 'Benchmark Description')
+          `;
+        });
       }
     );
     results.push(insertResult);
     printResult(insertResult);
 
+    // ========================================================================
+    // Benchmark 6: Typed Query via withTenantSchema
+    // ========================================================================
+    console.log('\nRunning Benchmark 6: Typed query via withTenantSchema...');
+    const withTenantSchemaResult = await benchmark(
+      'Typed query via withTenantSchema (transaction + SET LOCAL)',
+      100,
+      async () => {
+        await withTenantSchema(schema1, async (tx) => {
+          await tx.select().from(dummyTable).limit(10);
+        });
+      }
+    );
+    results.push(withTenantSchemaResult);
+    printResult(withTenantSchemaResult);
+
+    // ========================================================================
+    // Benchmark 7: Tenant Provisioning (migrations vs template)
+    // ========================================================================
+    console.log('\nRunning Benchmark 7: Tenant provisioning...');
+    let provisioned = 0;
+    const nextSchemaName = () => {
+      const name = `benchmark_provision_${Date.now()}_${provisioned++}`;
+      schemaNames.push(name);
+      return name;
+    };
+
+    const migrationsProvisionResult = await benchmark(
+      'Provision tenant by replaying migrations',
+      5,
+      async () => {
+        await createTenantSchemaWithMigrations(nextSchemaName(), { client: provisioningClient, logPrefix: '' });
+      }
+    );
+    results.push(migrationsProvisionResult);
+    printResult(migrationsProvisionResult);
+
+    // Build the template up front, so a rebuild is not counted as a copy
+    await ensureTenantTemplate({ client: provisioningClient, logPrefix: '' });
+    const templateProvisionResult = await benchmark(
+      'Provision tenant from template schema',
+      5,
+      async () => {
+        await createTenantSchemaFromTemplate(nextSchemaName(), { client: provisioningClient, logPrefix: '' });
+      }
+    );
+    results.push(templateProvisionResult);
+    printResult(templateProvisionResult);
+
     // ========================================================================
     // Summary: Calculate Overhead
     // ========================================================================
@@ -291,6 +348,15 @@ async function runBenchmarks() {
     console.log(`   Schema-qualified: ${formatOpsPerSec(schemaQualifiedResult.operationsPerSecond)}`);
     console.log(`   Difference: ${((schemaQualifiedResult.operationsPerSecond - searchPathResult.operationsPerSecond) / searchPathResult.operationsPerSecond * 100).toFixed(2)}% slower with search_path`);
 
+    console.log(`\n🧩 withTenantSchema (typed, transaction-scoped):`);
+    console.log(`   Average: ${formatTime(withTenantSchemaResult.averageTime)}`);
+    console.log(`   Overhead vs schema-qualified: ${formatTime(withTenantSchemaResult.averageTime - queryWithSchemaQualified)}`);
+
+    console.log(`\n🏗️  Tenant Provisioning:`);
+    console.log(`   Replaying migrations: ${formatTime(migrationsProvisionResult.averageTime)}`);
+    console.log(`   From template: ${formatTime(templateProvisionResult.averageTime)}`);
+    console.log(`   Speed-up: ${(migrationsProvisionResult.averageTime / templateProvisionResult.averageTime).toFixed(2)}x (grows with the number of tenant migrations)`);
+
     console.log(`\n🔄 Schema Context Switching:`);
     console.log(`   Average: ${formatTime(contextSwitchResult.averageTime)}`);
     console.log(`   Throughput: ${formatOpsPerSec(contextSwitchResult.operationsPerSecond)}`);
@@ -299,7 +365,7 @@ async function runBenchmarks() {
     console.log(`   - search_path switching adds ~${formatTime(searchPathOverhead)} overhead per switch`);
     console.log(`   - Schema-qualified queries avoid search_path overhead but require schema name`);
     console.log(`   - Multi-schema approach has no RLS policy evaluation overhead`);
-    console.log(`   - No transaction overhead (unlike RLS approach)`);
+    console.log(`   - search_path is transaction-scoped (SET LOCAL), like tenant context in the RLS approach`);
 
     console.log('\n' + '='.repeat(60));
     console.log('✅ Benchmarking Complete');
@@ -310,6 +376,7 @@ async function runBenchmarks() {
     throw error;
   } finally {
     await cleanupTestData(client, schemaNames);
+    await provisioningClient.end();
     await client.end();
   }
 }
@@ -1,8 +1,9 @@
 import 'dotenv/config';
 import { createPostgresClient, handleScriptError, tableExistsInSchema } from '../script-utils';
+import { DEFAULT_SHARD, getShardNames } from '../shards';
 
 /**
- * Cleanup script to drop all tenant schemas and public tables
+ * Cleanup script to drop all tenant schemas (on every shard) and public tables
  * 
  * Usage:
  *   pnpm db:cleanup:drop   - Drop all tenant schemas and public tables (complete reset)
@@ -53,6 +54,19 @@ async function dropAllTenantSchemas(client: ReturnType<typeof createPostgresClie
     // Clear schema_tracker if it exists (for cleanup)
     const trackerExists = await tableExistsInSchema(client, 'public', 'schema_tracker');
     if (trackerExists) {
+      // Dedicated tenant roles are cluster-wide and would outlive their schemas
+      try {
+        const roles = await client.unsafe(`SELECT db_role FROM schema_tracker WHERE db_role IS NOT NULL`);
+        for (const { db_role: role } of roles) {
+          const escapedRole = `"${role.replace(/"/g, '""')}"`;
+          await client.unsafe(`DROP OWNED BY ${escapedRole}`);
+          await client.unsafe(`DROP ROLE IF EXISTS ${escapedRole}`);
+          console.log(`   ✓ Dropped role: ${role}`);
+        }
+      } catch (error) {
+        console.log(`   ⚠️  Could not drop tenant roles: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
       try {
         await client.unsafe(`DELETE FROM schema_tracker`);
         console.log('   ✓ Cleared schema_tracker');
@@ -85,6 +99,17 @@ async function dropPublicTables(client: ReturnType<typeof createPostgresClient>)
       console.log('   ℹ️  schema_tracker table does not exist');
     }
     
+    // Drop tenant history table if it exists
+    const eventsExists = await tableExistsInSchema(client, 'public', 'tenant_events');
+    if (eventsExists) {
+      await client.unsafe(`DROP TABLE IF EXISTS tenant_events CASCADE`);
+      console.log('   ✓ Dropped tenant_events table');
+      droppedAny = true;
+    }
+
+    // Drop the tenant status enum used by schema_tracker
+    await client.unsafe(`DROP TYPE IF EXISTS tenant_status`);
+
     // Drop migration tracking table if it exists
     const migrationsExists = await tableExistsInSchema(client, 'public', '__drizzle_migrations');
     if (migrationsExists) {
@@ -125,6 +150,17 @@ async function cleanup() {
   try {
     // Drop all tenant schemas
     await dropAllTenantSchemas(client);
+
+    // Tenant schemas on other shards (see DATABASE_SHARDS)
+    for (const shard of getShardNames().filter((name) => name !== DEFAULT_SHARD)) {
+      console.log(`\nShard ${shard}:`);
+      const shardClient = createPostgresClient({}, shard);
+      try {
+        await dropAllTenantSchemas(shardClient);
+      } finally {
+        await shardClient.end();
+      }
+    }
     
     // Drop public schema tables
     await dropPublicTables(client);
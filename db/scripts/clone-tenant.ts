@@ -0,0 +1,63 @@
+import 'dotenv/config';
+import { cloneTenantSchema, validateSchemaName } from '../tenant-schema';
+import { formatTime } from '../../shared/db-utils';
+import { createPostgresClient, handleScriptError, getRequiredArg, getLockTimeoutArg, validateSchemaExists, findSchemaInTracker } from '../script-utils';
+
+/**
+ * Clones a tenant schema (tables from schema-tenant.ts, data and migration history) into a new tenant
+ *
+ * The copy runs in one transaction: if it fails part-way, neither the target schema
+ * nor its schema_tracker row is left behind.
+ *
+ * Usage:
+ *   pnpm db:clone:tenant <source> <target>                 # Structure, data and migration history
+ *   pnpm db:clone:tenant <source> <target> --schema-only   # Structure and migration history, no rows
+ *   pnpm db:clone:tenant <source> <target> --no-wait       # Fail immediately if the source is being migrated
+ *                                                          # (or wait up to N seconds with --lock-timeout N, default 60)
+ */
+const args = process.argv.slice(2);
+const schemaOnly = args.includes('--schema-only');
+const lockTimeoutMs = getLockTimeoutArg(args);
+const positional = args.filter((arg, i) => !arg.startsWith('-') && args[i - 1] !== '--lock-timeout');
+
+async function cloneTenant(source: string, target: string) {
+  // One connection holds the source's migration lock, the other runs the copy
+  const client = createPostgresClient({ max: 2 });
+
+  try {
+    validateSchemaName(target);
+
+    await validateSchemaExists(client, source, {
+      requireInTracker: true,
+      requireInDatabase: true,
+      action: 'clone',
+    });
+
+    if (await findSchemaInTracker(target)) {
+      console.error(`Error: Schema '${target}' already exists in schema_tracker`);
+      process.exit(1);
+    }
+
+    console.log(`Cloning tenant schema ${source} -> ${target}${schemaOnly ? ' (schema only)' : ''}...\n`);
+
+    const start = performance.now();
+    const copied = await cloneTenantSchema(source, target, { schemaOnly, client, lockTimeoutMs });
+
+    copied.forEach(({ table, rows }) => {
+      console.log(`✓ ${table}${schemaOnly ? '' : `: ${rows} row(s)`}`);
+    });
+    console.log(`✓ Migration history copied`);
+    console.log(`✓ Schema registered in schema_tracker: ${target}`);
+    console.log(`\n✓ Successfully cloned ${source} into ${target} in ${formatTime(performance.now() - start)}`);
+    process.exit(0);
+  } catch (error) {
+    handleScriptError(error, `Error cloning tenant schema ${source} into ${target}`);
+  } finally {
+    await client.end();
+  }
+}
+
+const usage = 'pnpm db:clone:tenant <source> <target> [--schema-only] [--lock-timeout <seconds> | --no-wait]';
+const source = getRequiredArg(positional[0], usage);
+const target = getRequiredArg(positional[1], usage);
+cloneTenant(source, target);
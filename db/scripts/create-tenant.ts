@@ -1,72 +1,90 @@
 import 'dotenv/config';
-import { createTenantSchemaWithMigrations, validateSchemaName } from '../tenant-schema';
-import { db } from '../db';
-import { schemaTracker } from '../schema';
-import { eq } from 'drizzle-orm';
-import { getRequiredArg, handleScriptError, setSearchPath, createPostgresClient, findSchemaInTracker } from '../script-utils';
+import { validateSchemaName, withTenantSchema } from '../tenant-schema';
+import { TenantManager } from '../tenant-manager';
+import { getTenantRoleName } from '../tenant-roles';
+import { dummyTable } from '../schema';
+import { desc } from 'drizzle-orm';
+import { getRequiredArg, handleScriptError } from '../script-utils';
+
+/**
+ * Provisions a new tenant schema and registers it in schema_tracker
+ *
+ * The tenant is registered as `provisioning` first (claiming the name), then moves
+ * to `active` once its schema is migrated. If provisioning fails, the schema and the
+ * tracker row are both removed again.
+ *
+ * Usage:
+ *   pnpm db:create:tenant <schema_name>                   # Replay every tenant migration
+ *   pnpm db:create:tenant <schema_name> --from-template   # Copy the (auto-rebuilt) template schema
+ *   pnpm db:create:tenant <schema_name> --with-role       # Also create a dedicated tenant_<schema> role
+ *   pnpm db:create:tenant <schema_name> --shard <name>    # Create the schema on another shard (see DATABASE_SHARDS)
+ */
+
+const args = process.argv.slice(2);
+const fromTemplate = args.includes('--from-template');
+const withRole = args.includes('--with-role');
+const shardIndex = args.indexOf('--shard');
+const shard = shardIndex !== -1 ? args[shardIndex + 1] : undefined;
 
 async function createTenant(schemaName: string) {
+  const tenants = new TenantManager();
+
   try {
     // Validate schema name format
     validateSchemaName(schemaName);
     console.log(`✓ Schema name validated: ${schemaName}`);
 
-    // Check if schema already exists in tracker
-    const existing = await findSchemaInTracker(schemaName);
-
-    if (existing) {
-      console.error(`Error: Schema '${schemaName}' already exists in schema_tracker`);
-      process.exit(1);
-    }
-
-    // Create tenant schema and apply migrations
-    console.log(`Creating tenant schema: ${schemaName}...`);
-    await createTenantSchemaWithMigrations(schemaName);
+    // Registers as provisioning, creates and migrates the schema, then activates the tenant
+    // (fails with TenantAlreadyExistsError if the tenant is already tracked)
+    console.log(`Creating tenant schema${fromTemplate ? ' from template' : ''}${shard ? ` on shard ${shard}` : ''}: ${schemaName}...`);
+    await tenants.create(schemaName, { shard, fromTemplate, withRole });
     console.log(`✓ Schema created and migrations applied: ${schemaName}`);
-
-    // Insert into schema_tracker table
-    await db.insert(schemaTracker).values({
-      name: schemaName,
-    });
+    if (withRole) {
+      console.log(`✓ Role created with access to this schema only: ${getTenantRoleName(schemaName)}`);
+    }
     console.log(`✓ Schema registered in schema_tracker: ${schemaName}`);
+    console.log(`✓ Tenant is active: ${schemaName}`);
 
     // Optional: Insert test data into dummy_table in tenant schema
     console.log('\nInserting test data...');
-    const tenantClient = createPostgresClient();
-
-    try {
-      // Set search_path to tenant schema
-      await setSearchPath(tenantClient, schemaName);
-
-      // Insert test data
-      const testData = await tenantClient`
-        INSERT INTO dummy_table (name, value)
-        VALUES ('test_entry', 'This is a test value')
-        RETURNING id, name, value, created_at
-      `;
+    await withTenantSchema(schemaName, async (tx) => {
+      const testData = await tx
+        .insert(dummyTable)
+        .values({ name: 'test_entry', value: 'This is a test value' })
+        .returning({
+          id: dummyTable.id,
+          name: dummyTable.name,
+          value: dummyTable.value,
+          createdAt: dummyTable.createdAt,
+        });
 
       console.log('✓ Test data inserted:');
       console.log(JSON.stringify(testData[0], null, 2));
 
       // Query the data back
-      const queriedData = await tenantClient`
-        SELECT * FROM dummy_table ORDER BY created_at DESC LIMIT 1
-      `;
+      const queriedData = await tx
+        .select()
+        .from(dummyTable)
+        .orderBy(desc(dummyTable.createdAt))
+        .limit(1);
 
       console.log('\n✓ Queried data from tenant schema:');
       console.log(JSON.stringify(queriedData[0], null, 2));
-    } finally {
-      await tenantClient.end();
-    }
+    });
 
     console.log(`\n✓ Successfully created tenant schema: ${schemaName}`);
     process.exit(0);
   } catch (error) {
     handleScriptError(error, `Error creating tenant schema: ${schemaName}`);
+  } finally {
+    await tenants.close();
   }
 }
 
 // Get schema name from command line arguments
-const schemaName = getRequiredArg(process.argv[2], 'pnpm db:create:tenant <schema_name>');
+const schemaName = getRequiredArg(
+  args.find((arg, i) => !arg.startsWith('-') && args[i - 1] !== '--shard'),
+  'pnpm db:create:tenant <schema_name> [--from-template] [--with-role] [--shard <name>]'
+);
 createTenant(schemaName);
 
@@ -1,9 +1,9 @@
 import 'dotenv/config';
-import { createTenantSchemaWithMigrations } from '../tenant-schema';
+import { createTenantSchemaWithMigrations, withTenantSchema } from '../tenant-schema';
 import { db } from '../db';
-import { schemaTracker } from '../schema';
-import { eq } from 'drizzle-orm';
-import { createPostgresClient, handleScriptError, setSearchPath, escapeSchemaName } from '../script-utils';
+import { schemaTracker, dummyTable } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+import { createPostgresClient, handleScriptError, escapeSchemaName } from '../script-utils';
 import { timedOperation, formatTime } from '../../shared/db-utils';
 
 const TEST_SCHEMA_NAME = 'demo_tenant_001';
@@ -56,18 +56,23 @@ async function demo() {
 
     // Step 3: Insert test data into dummy_table in tenant schema
     console.log('Step 3: Inserting test data into dummy_table...');
-    await setSearchPath(client, TEST_SCHEMA_NAME);
-
     const { result: insertResult, time: insertTime } = await timedOperation(
       'Insert test data',
-      async () => await client`
-        INSERT INTO dummy_table (name, value)
-        VALUES 
-          ('demo_item_1', 'First test item'),
-          ('demo_item_2', 'Second test item'),
-          ('demo_item_3', 'Third test item')
-        RETURNING id, name, value, created_at
-      `,
+      async () => await withTenantSchema(TEST_SCHEMA_NAME, async (tx) =>
+        await tx
+          .insert(dummyTable)
+          .values([
+            { name: 'demo_item_1', value: 'First test item' },
+            { name: 'demo_item_2', value: 'Second test item' },
+            { name: 'demo_item_3', value: 'Third test item' },
+          ])
+          .returning({
+            id: dummyTable.id,
+            name: dummyTable.name,
+            value: dummyTable.value,
+            createdAt: dummyTable.createdAt,
+          })
+      ),
       showTiming
     );
 
@@ -81,16 +86,16 @@ async function demo() {
     console.log('Step 4: Querying data from tenant schema...');
     const { result: queriedData, time: queryTime } = await timedOperation(
       'Query dummy_table',
-      async () => await client`
-        SELECT * FROM dummy_table ORDER BY created_at DESC
-      `,
+      async () => await withTenantSchema(TEST_SCHEMA_NAME, async (tx) =>
+        await tx.select().from(dummyTable).orderBy(desc(dummyTable.createdAt))
+      ),
       showTiming
     );
 
     console.log(`✓ Retrieved ${queriedData.length} records:`);
     queriedData.forEach((row, index) => {
       console.log(`  ${index + 1}. ${row.name}: ${row.value}`);
-      console.log(`     Created: ${row.created_at}`);
+      console.log(`     Created: ${row.createdAt}`);
     });
     console.log();
 
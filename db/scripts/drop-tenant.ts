@@ -1,31 +1,34 @@
 import 'dotenv/config';
-import { db } from '../db';
-import { schemaTracker } from '../schema';
-import { eq } from 'drizzle-orm';
-import { getRequiredArg, handleScriptError, escapeSchemaName, createPostgresClient, findSchemaInTracker } from '../script-utils';
+import { getRequiredArg, handleScriptError } from '../script-utils';
+import { DEFAULT_SHARD } from '../shards';
+import { TenantManager } from '../tenant-manager';
+
+/**
+ * Drops a tenant schema (and its dedicated role, if any) and removes it from schema_tracker
+ *
+ * A tracked tenant is moved to `deleting` first, so migrations and other tooling
+ * leave it alone while it is dropped. Re-run the command if a drop is interrupted.
+ * A schema that is not in schema_tracker (e.g. an orphaned one) is dropped too, with a warning.
+ *
+ * Usage:
+ *   pnpm db:drop:tenant <schema_name>
+ */
 
 async function dropTenant(schemaName: string) {
-  const client = createPostgresClient();
+  const tenants = new TenantManager();
 
   try {
     console.log(`Dropping tenant schema: ${schemaName}...\n`);
 
-    // Check if schema exists in tracker
-    const existing = await findSchemaInTracker(schemaName);
-
-    if (!existing) {
-      console.warn(`Warning: Schema '${schemaName}' not found in schema_tracker.`);
-      console.log('Proceeding with schema drop anyway...\n');
+    const { tracked, shard, droppedRole } = await tenants.drop(schemaName, { untracked: true });
+    if (!tracked) {
+      console.warn(`Warning: Schema '${schemaName}' was not in schema_tracker; dropped the schema only`);
     }
-
-    // Drop the schema
-    const escapedSchemaName = escapeSchemaName(schemaName);
-    await client.unsafe(`DROP SCHEMA IF EXISTS ${escapedSchemaName} CASCADE`);
-    console.log(`✓ Schema dropped: ${schemaName}`);
-
-    // Remove from schema_tracker
-    if (existing) {
-      await db.delete(schemaTracker).where(eq(schemaTracker.name, schemaName));
+    console.log(`✓ Schema dropped: ${schemaName}${shard === DEFAULT_SHARD ? '' : ` (shard ${shard})`}`);
+    if (droppedRole) {
+      console.log(`✓ Role dropped: ${droppedRole}`);
+    }
+    if (tracked) {
       console.log(`✓ Removed from schema_tracker: ${schemaName}`);
     }
 
@@ -34,7 +37,7 @@ async function dropTenant(schemaName: string) {
   } catch (error) {
     handleScriptError(error, `Error dropping tenant schema: ${schemaName}`);
   } finally {
-    await client.end();
+    await tenants.close();
   }
 }
 
@@ -0,0 +1,54 @@
+import 'dotenv/config';
+import { exportTenant } from '../tenant-export';
+import { createPostgresClient, handleScriptError, getRequiredArg, validateSchemaExists, createShardClients } from '../script-utils';
+
+/**
+ * Exports one tenant's data in a portable format (GDPR / data-portability requests, environment moves)
+ *
+ * Writes `<table>.ndjson` for every table in schema-tenant.ts (one JSON object per row)
+ * and `manifest.json` with the migration version and row counts.
+ *
+ * Usage:
+ *   pnpm db:export:tenant <schema_name> --out <dir>
+ *
+ * Load it elsewhere with: pnpm db:import:tenant <dir>
+ */
+const args = process.argv.slice(2);
+const outIndex = args.indexOf('--out');
+const outDir = outIndex !== -1 ? args[outIndex + 1] : undefined;
+const usage = 'pnpm db:export:tenant <schema_name> --out <dir>';
+
+async function exportTenantData(schemaName: string, dir: string) {
+  const client = createPostgresClient();
+  const shardClients = createShardClients(client);
+
+  try {
+    const { shard } = await validateSchemaExists(client, schemaName, {
+      requireInTracker: true,
+      requireInDatabase: true,
+      action: 'export',
+    });
+
+    console.log(`Exporting tenant schema ${schemaName} to ${dir}...\n`);
+
+    const manifest = await exportTenant(schemaName, dir, { client: shardClients.get(shard) });
+
+    manifest.tables.forEach(({ name, file, rows }) => {
+      console.log(`✓ ${name}: ${rows} row(s) -> ${file}`);
+    });
+    console.log(`✓ manifest.json (migration version: ${manifest.migrationVersion ?? 'none'})`);
+    console.log(`\n✓ Successfully exported tenant schema: ${schemaName}`);
+    process.exit(0);
+  } catch (error) {
+    handleScriptError(error, `Error exporting tenant schema: ${schemaName}`);
+  } finally {
+    await shardClients.end();
+    await client.end();
+  }
+}
+
+const schemaName = getRequiredArg(
+  args.find((arg, i) => !arg.startsWith('-') && args[i - 1] !== '--out'),
+  usage
+);
+exportTenantData(schemaName, getRequiredArg(outDir, usage));
@@ -0,0 +1,4 @@
+CREATE TABLE "verify_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" text NOT NULL
+);
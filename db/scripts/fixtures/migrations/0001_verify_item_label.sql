@@ -0,0 +1 @@
+ALTER TABLE "verify_items" ADD COLUMN "label" text;
@@ -0,0 +1,3 @@
+ALTER TABLE "verify_items" ADD COLUMN "note" text;--> statement-breakpoint
+-- Fails while verify_items holds duplicate codes
+ALTER TABLE "verify_items" ADD CONSTRAINT "verify_items_code_unique" UNIQUE("code");
@@ -0,0 +1,2 @@
+-- Outlasts the check's deadline, which cancels it
+SELECT pg_sleep(30);
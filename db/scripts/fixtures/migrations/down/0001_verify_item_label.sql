@@ -0,0 +1 @@
+ALTER TABLE "verify_items" DROP COLUMN "label";
@@ -0,0 +1,2 @@
+ALTER TABLE "verify_items" DROP CONSTRAINT "verify_items_code_unique";--> statement-breakpoint
+ALTER TABLE "verify_items" DROP COLUMN "note";
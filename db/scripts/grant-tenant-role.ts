@@ -0,0 +1,45 @@
+import 'dotenv/config';
+import { ensureTenantRole, verifyTenantRoleGrants } from '../tenant-roles';
+import { createPostgresClient, handleScriptError, getRequiredArg, validateSchemaExists } from '../script-utils';
+
+/**
+ * Creates a tenant's dedicated database role, or repairs its grants
+ *
+ * The role (`tenant_<schema>`) can use the tenant's own schema and nothing else; use it
+ * through withTenantRole(). Run this for tenants created without `--with-role`, or when
+ * health-check reports a role grant problem. Safe to re-run.
+ *
+ * Usage:
+ *   pnpm db:grant:tenant-role <schema_name>
+ */
+
+async function grantTenantRole(schemaName: string) {
+  const client = createPostgresClient();
+
+  try {
+    await validateSchemaExists(client, schemaName, {
+      requireInTracker: true,
+      requireInDatabase: true,
+      action: 'grant a role to',
+    });
+
+    const role = await ensureTenantRole(client, schemaName);
+    console.log(`✓ Role ${role} has access to schema ${schemaName}`);
+
+    const issues = await verifyTenantRoleGrants(client, schemaName, role);
+    if (issues.length > 0) {
+      issues.forEach((issue) => console.log(`✗ ${issue}`));
+      process.exit(1);
+    }
+
+    console.log(`✓ Grants verified: ${schemaName} only`);
+    process.exit(0);
+  } catch (error) {
+    handleScriptError(error, `Error granting tenant role for: ${schemaName}`);
+  } finally {
+    await client.end();
+  }
+}
+
+const schemaName = getRequiredArg(process.argv[2], 'pnpm db:grant:tenant-role <schema_name>');
+grantTenantRole(schemaName);
@@ -1,191 +1,268 @@
 import 'dotenv/config';
-import { db } from '../db';
-import { schemaTracker } from '../schema';
-import { createPostgresClient, handleScriptError, setSearchPath, schemaExistsInDatabase, tableExistsInSchema, getExpectedMigrations, getAppliedMigrations } from '../script-utils';
-import path from 'path';
+import readline from 'readline/promises';
+import postgres from 'postgres';
+import { createPostgresClient, createShardClients, handleScriptError, ShardClients } from '../script-utils';
+import { upgradeTenantSchema } from '../tenant-schema';
+import { formatOnShard, FixableIssue, FixableIssueKind } from '../tenant-health';
+import { TenantManager } from '../tenant-manager';
+import { markTenantFailed, adoptOrphanedSchema, quarantineOrphanedSchema } from '../tenant-repair';
+import { createScriptOutput, getOutputFormat, EXIT_CODES } from '../../shared/output';
 
-async function healthCheck() {
-  const client = createPostgresClient();
-  const results = {
-    totalSchemas: 0,
-    healthySchemas: [] as string[],
-    unhealthySchemas: [] as Array<{ schema: string; issue: string }>,
-    orphanedSchemas: [] as string[],
-  };
-
-  try {
-    console.log('=== Tenant Schema Health Check ===\n');
-
-    // Get all tracked schemas
-    const trackedSchemas = await db.select().from(schemaTracker);
-    results.totalSchemas = trackedSchemas.length;
-
-    console.log(`Found ${trackedSchemas.length} tracked schema(s)\n`);
-
-    // Get expected migrations from journal
-    const tenantMigrationsFolder = path.join(process.cwd(), 'db', 'migrations', 'tenant');
-    let expectedMigrations: string[] = [];
-    try {
-      expectedMigrations = getExpectedMigrations(tenantMigrationsFolder);
-      console.log(`Expected tenant migrations: ${expectedMigrations.length}`);
-      if (expectedMigrations.length > 0) {
-        console.log(`  ${expectedMigrations.join(', ')}\n`);
-      } else {
-        console.log('  (no migrations)\n');
-      }
-    } catch (error) {
-      console.warn(`Warning: Could not read migration journal: ${error instanceof Error ? error.message : String(error)}\n`);
-    }
+/**
+ * Checks every tracked tenant (and the public schema) and reports what is wrong
+ *
+ * Usage:
+ *   pnpm db:health:check                     # Report only
+ *   pnpm db:health:check --fix               # Then offer a repair for each fixable issue, one prompt at a time
+ *   pnpm db:health:check --policy <policy>   # Then repair without prompting, e.g. for scheduled runs:
+ *     --policy missing-migrations=apply,missing-migrations-table=mark-failed,missing-schema=mark-failed,orphaned=quarantine
+ *   pnpm db:health:check --format json       # One JSON document instead of the report (also with --policy)
+ *   pnpm db:health:check --format ndjson     # One line per schema and finding as they are checked, then a summary line
+ *
+ * Exit codes (added together when several apply): 0 healthy, 1 fatal error, 2 unhealthy schemas
+ * or role grants, 4 orphaned schemas, 8 schema drift. Repaired issues do not count.
+ *
+ * Issue kinds and their strategies (kinds left out of a policy are skipped):
+ *   missing-migrations        apply | skip              Run the pending migrations (db:migrate:tenant)
+ *   missing-migrations-table  apply | mark-failed | skip Try the migrations (marks the tenant failed if they conflict), or mark it failed
+ *   missing-schema            mark-failed | skip        Mark the tracked tenant migration_failed with the reason
+ *   orphaned                  adopt | quarantine | skip Track the schema as a tenant, or rename it to _quarantine_<schema>
+ */
+const FIX_STRATEGIES: Record<FixableIssueKind, string[]> = {
+  'missing-migrations': ['apply', 'skip'],
+  'missing-migrations-table': ['apply', 'mark-failed', 'skip'],
+  'missing-schema': ['mark-failed', 'skip'],
+  orphaned: ['adopt', 'quarantine', 'skip'],
+};
 
-    // Check each tracked schema
-    for (const { name } of trackedSchemas) {
-      try {
-        // Check if schema exists
-        const schemaExists = await schemaExistsInDatabase(client, name);
-
-        if (!schemaExists) {
-          results.unhealthySchemas.push({
-            schema: name,
-            issue: 'Schema does not exist in database',
-          });
-          console.log(`✗ ${name}: Schema does not exist`);
-          continue;
-        }
+const args = process.argv.slice(2);
+const policyIndex = args.indexOf('--policy');
+const policyArg = policyIndex !== -1 ? args[policyIndex + 1] : undefined;
+const fix = args.includes('--fix') || policyIndex !== -1;
+const output = createScriptOutput('health-check', getOutputFormat(args));
+const { log } = output;
 
-        // Check if dummy_table exists in schema
-        await setSearchPath(client, name);
-        const tableExists = await tableExistsInSchema(client, name, 'dummy_table');
-
-        if (!tableExists) {
-          results.unhealthySchemas.push({
-            schema: name,
-            issue: 'dummy_table does not exist',
-          });
-          console.log(`✗ ${name}: dummy_table missing`);
-          continue;
-        }
+/**
+ * Parses `--policy kind=strategy,...`; exits on an unknown kind or strategy
+ */
+function parsePolicy(value: string | undefined): Partial<Record<FixableIssueKind, string>> {
+  if (!value) {
+    console.error('Error: --policy needs a value, e.g. --policy missing-migrations=apply,orphaned=skip');
+    process.exit(1);
+  }
+  const policy: Partial<Record<FixableIssueKind, string>> = {};
+  for (const entry of value.split(',')) {
+    const [kind, strategy] = entry.split('=').map((part) => part.trim());
+    if (!(kind in FIX_STRATEGIES) || !FIX_STRATEGIES[kind as FixableIssueKind].includes(strategy)) {
+      console.error(`Error: Invalid --policy entry "${entry}"`);
+      Object.entries(FIX_STRATEGIES).forEach(([k, strategies]) => console.log(`  ${k}=${strategies.join('|')}`));
+      process.exit(1);
+    }
+    policy[kind as FixableIssueKind] = strategy;
+  }
+  return policy;
+}
 
-        // Check migration status - verify all expected migrations are applied
-        try {
-          // Check if __drizzle_migrations table exists in tenant schema
-          const migrationsTableExists = await tableExistsInSchema(client, name, '__drizzle_migrations');
-          
-          if (!migrationsTableExists) {
-            results.unhealthySchemas.push({
-              schema: name,
-              issue: '__drizzle_migrations table does not exist',
-            });
-            console.log(`✗ ${name}: Migration tracking table missing`);
-            continue;
-          }
+/**
+ * Asks which strategy to use for one issue; an empty answer skips it
+ */
+async function promptStrategy(prompt: readline.Interface, issue: FixableIssue): Promise<string> {
+  const strategies = FIX_STRATEGIES[issue.kind];
+  for (;;) {
+    const answer = (
+      await prompt.question(`  ${formatOnShard(issue.schema, issue.shard)}: ${issue.issue}\n    Fix with ${strategies.join(' / ')}? [skip] `)
+    ).trim().toLowerCase();
+    if (!answer) {
+      return 'skip';
+    }
+    const strategy = strategies.find((s) => s === answer || s[0] === answer);
+    if (strategy) {
+      return strategy;
+    }
+  }
+}
 
-          // Get applied migrations for this schema
-          const appliedMigrations = await getAppliedMigrations(client, name);
-          const appliedSet = new Set(appliedMigrations);
-          const expectedSet = new Set(expectedMigrations);
+/**
+ * Applies one repair strategy
+ * @returns What was done, for the log
+ */
+async function applyFix(
+  client: postgres.Sql,
+  shardClients: ShardClients,
+  { kind, schema, shard }: FixableIssue,
+  strategy: string
+): Promise<string> {
+  switch (strategy) {
+    case 'apply':
+      await upgradeTenantSchema(schema, { client, shardClients, logPrefix: output.format === 'text' ? '    ' : '' });
+      return 'Applied missing migrations';
+    case 'mark-failed':
+      await markTenantFailed(
+        client,
+        schema,
+        kind === 'missing-schema' ? 'Schema does not exist in database' : '__drizzle_migrations table does not exist'
+      );
+      return 'Marked as migration_failed';
+    case 'adopt':
+      await adoptOrphanedSchema(client, shardClients.get(shard), schema, shard);
+      return 'Adopted into schema_tracker (run pnpm db:migrate:tenant to bring it up to date)';
+    case 'quarantine':
+      return `Quarantined as ${await quarantineOrphanedSchema(client, shardClients.get(shard), schema)}`;
+    default:
+      throw new Error(`Unknown fix strategy ${strategy}`);
+  }
+}
 
-          // Check for missing migrations
-          const missingMigrations = expectedMigrations.filter((m) => !appliedSet.has(m));
-          // Check for extra migrations (shouldn't happen, but good to detect)
-          const extraMigrations = appliedMigrations.filter((m) => !expectedSet.has(m));
+async function healthCheck() {
+  const policy = policyIndex !== -1 ? parsePolicy(policyArg) : undefined;
+  if (fix && !policy && !process.stdin.isTTY) {
+    console.error('Error: --fix asks before each repair and needs a terminal; use --policy for unattended runs');
+    process.exit(1);
+  }
+  if (fix && !policy && output.format !== 'text') {
+    console.error('Error: --fix prompts are only available with the text format; use --policy with --format');
+    process.exit(1);
+  }
 
-          if (missingMigrations.length > 0 || extraMigrations.length > 0) {
-            const issues: string[] = [];
-            if (missingMigrations.length > 0) {
-              issues.push(`Missing migrations: ${missingMigrations.join(', ')}`);
-            }
-            if (extraMigrations.length > 0) {
-              issues.push(`Extra migrations: ${extraMigrations.join(', ')}`);
-            }
-            results.unhealthySchemas.push({
-              schema: name,
-              issue: `Migration mismatch: ${issues.join('; ')}`,
-            });
-            console.log(`✗ ${name}: ${issues.join('; ')}`);
-            continue;
-          }
+  // Applying migrations holds a migration lock on its own connection
+  const client = createPostgresClient(fix ? { max: 2 } : {});
+  const shardClients = createShardClients(client);
+  const tenants = new TenantManager({ client, shardClients });
 
-          // All migrations match
-          if (expectedMigrations.length > 0) {
-            console.log(`✓ ${name}: All ${expectedMigrations.length} migration(s) applied`);
-          }
-        } catch (migrationError) {
-          results.unhealthySchemas.push({
-            schema: name,
-            issue: `Migration check failed: ${migrationError instanceof Error ? migrationError.message : String(migrationError)}`,
-          });
-          console.log(`✗ ${name}: Migration check failed`);
-          continue;
-        }
+  try {
+    log('=== Tenant Schema Health Check ===\n');
 
-        results.healthySchemas.push(name);
-        console.log(`✓ ${name}: Healthy`);
-      } catch (error) {
-        results.unhealthySchemas.push({
-          schema: name,
-          issue: error instanceof Error ? error.message : String(error),
-        });
-        console.log(`✗ ${name}: ${error instanceof Error ? error.message : String(error)}`);
-      }
+    const { checked, ...report } = await tenants.health({ log, onRecord: output.record });
+    const results = {
+      ...report,
+      // What --fix / --policy did with each fixable issue
+      fixes: [] as Array<FixableIssue & { strategy: string; outcome: 'fixed' | 'skipped' | 'failed'; detail: string }>,
+    };
+    // Summary
+    log('\n=== Health Check Summary ===');
+    log(`Total tracked schemas: ${results.totalSchemas}`);
+    log(`Healthy: ${results.healthySchemas.length}`);
+    log(`Unhealthy: ${results.unhealthySchemas.length}`);
+    log(`Orphaned: ${results.orphanedSchemas.length}`);
+    if (results.suspendedSchemas.length > 0) {
+      log(`Suspended: ${results.suspendedSchemas.length} (${results.suspendedSchemas.map((s) => s.schema).join(', ')})`);
+    }
+    if (checked.roleGrants > 0) {
+      log(`Tenant roles with grant issues: ${new Set(results.roleGrantIssues.map((r) => r.schema)).size} of ${checked.roleGrants}`);
+    }
+    if (checked.drift > 0) {
+      log(`Drifted from schema-tenant.ts: ${new Set(results.driftedSchemas.map((d) => d.schema)).size} of ${checked.drift}`);
+    }
+    if (results.pinnedSchemas.length > 0) {
+      log(`Pinned (intentionally behind): ${results.pinnedSchemas.length}`);
+    }
+    if (results.unverifiedSchemas.length > 0) {
+      log(`Without content hashes: ${results.unverifiedSchemas.length} (${results.unverifiedSchemas.join(', ')})`);
     }
 
-    // Check for orphaned schemas (exist in DB but not in tracker)
-    console.log('\nChecking for orphaned schemas...');
-    const allSchemas = await client`
-      SELECT schema_name 
-      FROM information_schema.schemata 
-      WHERE schema_name NOT IN ('pg_catalog', 'information_schema', 'pg_toast', 'pg_temp_1', 'pg_toast_temp_1', 'public')
-      AND schema_name NOT LIKE 'pg_%'
-      ORDER BY schema_name
-    `;
-
-    const trackedNames = new Set(trackedSchemas.map((s) => s.name));
-    for (const row of allSchemas) {
-      if (!trackedNames.has(row.schema_name)) {
-        results.orphanedSchemas.push(row.schema_name);
-      }
+    if (results.unhealthySchemas.length > 0) {
+      log('\nUnhealthy schemas:');
+      results.unhealthySchemas.forEach(({ schema, issue }) => {
+        log(`  - ${schema}: ${issue}`);
+      });
     }
 
     if (results.orphanedSchemas.length > 0) {
-      console.log(`Found ${results.orphanedSchemas.length} orphaned schema(s):`);
-      results.orphanedSchemas.forEach((name) => {
-        console.log(`  - ${name}`);
+      log('\nOrphaned schemas (exist in DB but not tracked):');
+      results.orphanedSchemas.forEach(({ schema, shard }) => {
+        log(`  - ${formatOnShard(schema, shard)}`);
       });
-    } else {
-      console.log('No orphaned schemas found');
     }
 
-    // Summary
-    console.log('\n=== Health Check Summary ===');
-    console.log(`Total tracked schemas: ${results.totalSchemas}`);
-    console.log(`Healthy: ${results.healthySchemas.length}`);
-    console.log(`Unhealthy: ${results.unhealthySchemas.length}`);
-    console.log(`Orphaned: ${results.orphanedSchemas.length}`);
-
-    if (results.unhealthySchemas.length > 0) {
-      console.log('\nUnhealthy schemas:');
-      results.unhealthySchemas.forEach(({ schema, issue }) => {
-        console.log(`  - ${schema}: ${issue}`);
+    if (results.roleGrantIssues.length > 0) {
+      log('\nTenant role grant issues (repair with pnpm db:grant:tenant-role <schema_name>):');
+      results.roleGrantIssues.forEach(({ schema, role, issue }) => {
+        log(`  - ${schema} (${role}): ${issue}`);
       });
     }
 
-    if (results.orphanedSchemas.length > 0) {
-      console.log('\nOrphaned schemas (exist in DB but not tracked):');
-      results.orphanedSchemas.forEach((name) => {
-        console.log(`  - ${name}`);
+    if (results.driftedSchemas.length > 0) {
+      log('\nSchema drift (tables differ from schema-tenant.ts):');
+      results.driftedSchemas.forEach(({ schema, table, issue }) => {
+        log(`  - ${schema}.${table}: ${issue}`);
       });
     }
 
-    // Exit with error code if issues found
-    if (results.unhealthySchemas.length > 0 || results.orphanedSchemas.length > 0) {
-      process.exit(1);
+    // Repair what --fix / --policy covers; repaired issues no longer count towards the exit code
+    if (fix && results.fixable.length > 0) {
+      log(`\n=== Repairing ${results.fixable.length} fixable issue(s)${policy ? ' (policy)' : ''} ===`);
+      const prompt = policy ? undefined : readline.createInterface({ input: process.stdin, output: process.stdout });
+      const recordFix = (fixed: (typeof results.fixes)[number]) => {
+        results.fixes.push(fixed);
+        output.record('fix', fixed);
+      };
+      try {
+        for (const issue of results.fixable) {
+          const strategy = prompt ? await promptStrategy(prompt, issue) : (policy![issue.kind] ?? 'skip');
+          const label = formatOnShard(issue.schema, issue.shard);
+          if (strategy === 'skip') {
+            log(`- ${label}: Skipped (${issue.issue})`);
+            recordFix({ ...issue, strategy, outcome: 'skipped', detail: issue.issue });
+            continue;
+          }
+          try {
+            const done = await applyFix(client, shardClients, issue, strategy);
+            log(`✓ ${label}: ${done}`);
+            recordFix({ ...issue, strategy, outcome: 'fixed', detail: done });
+            if (issue.kind === 'orphaned') {
+              results.orphanedSchemas = results.orphanedSchemas.filter((o) => o.schema !== issue.schema || o.shard !== issue.shard);
+            } else if (strategy === 'apply') {
+              results.unhealthySchemas = results.unhealthySchemas.filter((u) => u.schema !== issue.schema);
+            }
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            log(`✗ ${label}: ${strategy} failed: ${message}`);
+            recordFix({ ...issue, strategy, outcome: 'failed', detail: message });
+          }
+        }
+      } finally {
+        prompt?.close();
+      }
+      log('\nRe-run pnpm db:health:check to confirm the repairs');
+    } else if (results.fixable.length > 0) {
+      log(`\n${results.fixable.length} issue(s) can be repaired with --fix (or --policy for unattended runs)`);
+    }
+
+    // Exit with one bit per kind of problem found
+    const exitCode =
+      (results.unhealthySchemas.length > 0 || results.roleGrantIssues.length > 0 ? EXIT_CODES.unhealthy : 0) |
+      (results.orphanedSchemas.length > 0 ? EXIT_CODES.orphaned : 0) |
+      (results.driftedSchemas.length > 0 ? EXIT_CODES.drift : 0);
+
+    output.result(exitCode, {
+      summary: {
+        totalSchemas: results.totalSchemas,
+        healthy: results.healthySchemas.length,
+        unhealthy: results.unhealthySchemas.length,
+        orphaned: results.orphanedSchemas.length,
+        quarantined: results.quarantinedSchemas.length,
+        suspended: results.suspendedSchemas.length,
+        pinned: results.pinnedSchemas.length,
+        unverified: results.unverifiedSchemas.length,
+        roleGrantIssues: results.roleGrantIssues.length,
+        drifted: new Set(results.driftedSchemas.map((d) => d.schema)).size,
+        fixable: results.fixable.length,
+        fixed: results.fixes.filter((f) => f.outcome === 'fixed').length,
+      },
+      ...(output.format === 'json' ? results : {}),
+    });
+
+    if (exitCode !== EXIT_CODES.ok) {
+      process.exit(exitCode);
     }
 
-    console.log('\n✓ All schemas are healthy!');
+    log('\n✓ All schemas are healthy!');
     process.exit(0);
   } catch (error) {
+    output.error(error);
     handleScriptError(error, 'Health check failed');
   } finally {
+    await shardClients.end();
     await client.end();
   }
 }
@@ -0,0 +1,55 @@
+import 'dotenv/config';
+import { importTenant, readExportManifest } from '../tenant-export';
+import { createPostgresClient, handleScriptError, getRequiredArg, findSchemaInTracker } from '../script-utils';
+
+/**
+ * Imports a tenant export into a new, freshly provisioned tenant schema
+ *
+ * Refuses exports whose migration version does not match the current tenant journal.
+ * If loading fails, the new schema and its schema_tracker row are removed again.
+ *
+ * Usage:
+ *   pnpm db:import:tenant <dir>                  # Create the tenant under its exported name
+ *   pnpm db:import:tenant <dir> --as <schema>    # Create it under another name
+ *   pnpm db:import:tenant <dir> --shard <name>   # Create it on another shard (see DATABASE_SHARDS)
+ */
+const args = process.argv.slice(2);
+const asIndex = args.indexOf('--as');
+const targetName = asIndex !== -1 ? args[asIndex + 1] : undefined;
+const shardIndex = args.indexOf('--shard');
+const shard = shardIndex !== -1 ? args[shardIndex + 1] : undefined;
+
+async function importTenantData(dir: string) {
+  const client = createPostgresClient();
+
+  try {
+    // Check the manifest and version before touching the database
+    const manifest = readExportManifest(dir);
+    const schemaName = targetName ?? manifest.schema;
+
+    if (await findSchemaInTracker(schemaName)) {
+      console.error(`Error: Schema '${schemaName}' already exists in schema_tracker`);
+      process.exit(1);
+    }
+
+    console.log(`Importing ${manifest.schema} (exported ${manifest.exportedAt}) into new tenant ${schemaName}...\n`);
+
+    const imported = await importTenant(dir, { schemaName, shard, client });
+
+    imported.forEach(({ table, rows }) => {
+      console.log(`✓ ${table}: ${rows} row(s)`);
+    });
+    console.log(`\n✓ Successfully imported tenant schema: ${schemaName}`);
+    process.exit(0);
+  } catch (error) {
+    handleScriptError(error, `Error importing tenant from ${dir}`);
+  } finally {
+    await client.end();
+  }
+}
+
+const dir = getRequiredArg(
+  args.find((arg, i) => !arg.startsWith('-') && args[i - 1] !== '--as' && args[i - 1] !== '--shard'),
+  'pnpm db:import:tenant <dir> [--as <schema_name>] [--shard <name>]'
+);
+importTenantData(dir);
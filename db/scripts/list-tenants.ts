@@ -1,37 +1,78 @@
 import 'dotenv/config';
-import { db } from '../db';
-import { schemaTracker } from '../schema';
 import { handleScriptError } from '../script-utils';
+import { TenantManager } from '../tenant-manager';
+import { DEFAULT_SHARD } from '../shards';
+import { createScriptOutput, getOutputFormat, EXIT_CODES } from '../../shared/output';
+
+/**
+ * Lists every tenant in schema_tracker
+ *
+ * Usage:
+ *   pnpm db:list:tenants                  # Table of tenants with status, shard and version
+ *   pnpm db:list:tenants --format json    # One JSON document (see "Machine-readable output" in the README)
+ *   pnpm db:list:tenants --format ndjson  # One line per tenant, then a summary line
+ */
+const output = createScriptOutput('list-tenants', getOutputFormat(process.argv.slice(2)));
+const { log } = output;
 
 async function listTenants() {
+  const tenants = new TenantManager();
+
   try {
-    console.log('Fetching tenant schemas from schema_tracker...\n');
+    log('Fetching tenant schemas from schema_tracker...\n');
+
+    const schemas = await tenants.list();
 
-    const schemas = await db.select().from(schemaTracker).orderBy(schemaTracker.name);
+    const byStatus = new Map<string, number>();
+    schemas.forEach(({ status }) => byStatus.set(status, (byStatus.get(status) ?? 0) + 1));
+    const byShard = new Map<string, number>();
+    schemas.forEach(({ shard }) => byShard.set(shard, (byShard.get(shard) ?? 0) + 1));
+
+    if (output.format !== 'text') {
+      schemas.forEach((tenant) => output.record('tenant', { tenant }));
+      output.result(EXIT_CODES.ok, {
+        ...(output.format === 'json' ? { tenants: schemas } : {}),
+        total: schemas.length,
+        byStatus: Object.fromEntries(byStatus),
+        byShard: Object.fromEntries(byShard),
+      });
+      process.exit(EXIT_CODES.ok);
+    }
 
     if (schemas.length === 0) {
-      console.log('No tenant schemas found in schema_tracker.');
+      log('No tenant schemas found in schema_tracker.');
       process.exit(0);
     }
 
-    console.log(`Found ${schemas.length} tenant schema(s):\n`);
-    console.log('┌─────────────────────────────────────────────────┬──────────────────────────────────────┐');
-    console.log('│ Schema Name                                      │ ID                                   │');
-    console.log('├─────────────────────────────────────────────────┼──────────────────────────────────────┤');
+    log(`Found ${schemas.length} tenant schema(s):\n`);
+    log('┌─────────────────────────────────┬──────────────────┬──────────────┬────────────────────────────────┬──────────────────────────────────────┐');
+    log('│ Schema Name                     │ Status           │ Shard        │ Migrated Version               │ ID                                   │');
+    log('├─────────────────────────────────┼──────────────────┼──────────────┼────────────────────────────────┼──────────────────────────────────────┤');
 
     schemas.forEach((schema) => {
-      const name = schema.name.padEnd(47);
+      const name = schema.name.padEnd(31);
+      const status = schema.status.padEnd(16);
+      const shard = schema.shard.padEnd(12);
+      const version = (schema.migratedVersion ?? '-').padEnd(30);
       const id = schema.id;
-      console.log(`│ ${name} │ ${id} │`);
+      log(`│ ${name} │ ${status} │ ${shard} │ ${version} │ ${id} │`);
     });
 
-    console.log('└─────────────────────────────────────────────────┴──────────────────────────────────────┘');
-    console.log(`\nTotal: ${schemas.length} schema(s)`);
+    log('└─────────────────────────────────┴──────────────────┴──────────────┴────────────────────────────────┴──────────────────────────────────────┘');
+
+    const breakdown = [...byStatus].map(([status, count]) => `${count} ${status}`).join(', ');
+    log(`\nTotal: ${schemas.length} schema(s) (${breakdown})`);
+
+    if (byShard.size > 1 || !byShard.has(DEFAULT_SHARD)) {
+      log(`By shard: ${[...byShard].map(([shard, count]) => `${shard} ${count}`).join(', ')}`);
+    }
     process.exit(0);
   } catch (error) {
+    output.error(error);
     handleScriptError(error, 'Error listing tenant schemas');
+  } finally {
+    await tenants.close();
   }
 }
 
 listTenants();
-
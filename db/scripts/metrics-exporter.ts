@@ -0,0 +1,108 @@
+import 'dotenv/config';
+import postgres from 'postgres';
+import { createPostgresClient, createShardClients, getApplicationName, getNumericArg, handleScriptError } from '../script-utils';
+import { collectTenancyMetrics } from '../metrics';
+import { MetricFamily, MetricSample, formatMetrics, startMetricsServer } from '../../shared/metrics';
+import { EXIT_CODES } from '../../shared/output';
+
+/**
+ * Prometheus exporter for tenancy health: serves `/metrics` until stopped
+ *
+ * Reports tenants by lifecycle status, each tenant's migration lag against the journal,
+ * orphaned schemas, schema sizes and db/db.ts pool usage. With DATABASE_URL_ADMIN and
+ * DATABASE_URL_APP set, it also reports RLS status and policies per table and the
+ * db-rls/connections.ts pool usage. Every scrape queries the databases again.
+ *
+ * Usage:
+ *   pnpm db:metrics                  # Serve http://0.0.0.0:9464/metrics
+ *   pnpm db:metrics --port 9500      # Another port (--host 127.0.0.1 to listen locally only)
+ *   pnpm db:metrics --once           # Print one scrape and exit (1 if a collector failed), e.g. against a local Postgres
+ */
+const args = process.argv.slice(2);
+const port = getNumericArg(args, ['--port', '-p'], 9464);
+const hostIndex = args.indexOf('--host');
+const host = hostIndex !== -1 ? args[hostIndex + 1] : undefined;
+const once = args.includes('--once');
+
+async function main() {
+  // Scrapes run their queries one at a time, so one connection per database is enough
+  const client = createPostgresClient();
+  const shardClients = createShardClients(client);
+  const rlsClient =
+    process.env.DATABASE_URL_ADMIN && process.env.DATABASE_URL_APP
+      ? postgres(process.env.DATABASE_URL_ADMIN, { max: 1, connection: { application_name: getApplicationName() } })
+      : undefined;
+
+  const collectors: Array<[string, () => Promise<MetricFamily[]>]> = [
+    ['schema', () => collectTenancyMetrics(client, shardClients)],
+  ];
+  if (rlsClient) {
+    // Loaded only when configured: the default db-rls/connections.ts pools need both RLS URLs
+    const { collectRlsMetrics } = await import('../../db-rls/metrics');
+    collectors.push(['rls', () => collectRlsMetrics(rlsClient)]);
+  }
+
+  // A failing collector is reported in tenancy_scrape_success; the others are still served
+  const collect = async (): Promise<MetricFamily[]> => {
+    const start = performance.now();
+    const families: MetricFamily[] = [];
+    const success: MetricSample[] = [];
+    for (const [collector, run] of collectors) {
+      try {
+        families.push(...(await run()));
+        success.push({ labels: { collector }, value: 1 });
+      } catch (error) {
+        console.error(`✗ ${collector} metrics failed: ${error instanceof Error ? error.message : String(error)}`);
+        success.push({ labels: { collector }, value: 0 });
+      }
+    }
+    families.push(
+      {
+        name: 'tenancy_scrape_success',
+        help: 'Whether the collector ran without errors',
+        type: 'gauge',
+        samples: success,
+      },
+      {
+        name: 'tenancy_scrape_duration_seconds',
+        help: 'Time spent collecting the metrics',
+        type: 'gauge',
+        samples: [{ value: (performance.now() - start) / 1000 }],
+      }
+    );
+    return families;
+  };
+
+  const close = async () => {
+    await shardClients.end();
+    await client.end();
+    await rlsClient?.end();
+  };
+
+  if (once) {
+    let families: MetricFamily[];
+    try {
+      families = await collect();
+    } finally {
+      await close();
+    }
+    process.stdout.write(formatMetrics(families));
+    const scrapeSuccess = families.find((f) => f.name === 'tenancy_scrape_success')?.samples ?? [];
+    process.exit(scrapeSuccess.some((s) => s.value === 0) ? EXIT_CODES.fatal : EXIT_CODES.ok);
+  }
+
+  const server = startMetricsServer({ port, host, collect });
+  server.on('error', (error) => handleScriptError(error, `Error serving metrics on port ${port}`));
+  server.on('listening', () => {
+    console.log(`Serving tenancy metrics on http://${host ?? '0.0.0.0'}:${port}/metrics (collectors: ${collectors.map(([name]) => name).join(', ')})`);
+  });
+
+  const shutdown = () => {
+    server.close();
+    close().finally(() => process.exit(EXIT_CODES.ok));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => handleScriptError(error, once ? 'Error collecting metrics' : 'Error starting the metrics exporter'));
@@ -1,27 +1,49 @@
 import 'dotenv/config';
 import path from 'path';
-import { applyMigrations } from '../migration-utils';
-import { createPostgresClient, handleScriptError } from '../script-utils';
+import { applyMigrations, buildMigrationPlan, printMigrationPlans } from '../migration-utils';
+import { createPostgresClient, handleScriptError, getLockTimeoutArg } from '../script-utils';
+
+/**
+ * Applies migrations to the public schema
+ *
+ * Usage:
+ *   pnpm db:migrate                    # Apply pending migrations
+ *   pnpm db:migrate --dry-run          # Print the plan with its SQL, execute nothing (alias: --plan)
+ *   pnpm db:migrate --dry-run --json   # Print the plan as JSON
+ *   pnpm db:migrate --lock-timeout 300 # Wait up to 300s for another migrator (default 60s)
+ *   pnpm db:migrate --no-wait          # Fail immediately if another migrator holds the lock
+ */
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run') || args.includes('--plan');
+const json = args.includes('--json');
+const lockTimeoutMs = getLockTimeoutArg(args);
 
 async function migratePublic() {
   const client = createPostgresClient();
 
   try {
-    console.log('Applying migrations to public schema (schema_tracker only)...\n');
-
     // Resolve public migrations path
     const migrationsFolder = path.join(process.cwd(), 'db', 'migrations', 'public');
 
+    if (dryRun) {
+      const plan = await buildMigrationPlan({ client, schemaName: 'public', migrationsFolder });
+      printMigrationPlans([plan], { json });
+      return;
+    }
+
+    console.log('Applying migrations to public schema (schema_tracker, tenant_events)...\n');
+
     // Apply migrations using shared utility
     await applyMigrations({
       client,
       schemaName: 'public',
       migrationsFolder,
       logPrefix: '  ',
+      lockTimeoutMs,
     });
 
     console.log('\n✓ Public schema migrations applied successfully');
-    console.log('✓ Only schema_tracker table exists in public schema');
+    console.log('✓ Only tenant bookkeeping tables exist in public schema');
   } catch (error) {
     handleScriptError(error, 'Error applying public schema migrations');
   } finally {
@@ -1,33 +1,42 @@
 import 'dotenv/config';
-import { createPostgresClient, handleScriptError, getRequiredArg, validateSchemaExists, getTablesInSchema } from '../script-utils';
-import { applyMigrations } from '../migration-utils';
-import path from 'path';
+import { createPostgresClient, handleScriptError, getRequiredArg, getLockTimeoutArg, getTablesInSchema, createShardClients } from '../script-utils';
+import { TenantManager } from '../tenant-manager';
+import { printMigrationPlans } from '../migration-utils';
+
+/**
+ * Applies pending migrations to one tenant schema
+ *
+ * Usage:
+ *   pnpm db:migrate:tenant <schema_name>                  # Apply pending migrations
+ *   pnpm db:migrate:tenant <schema_name> --unpin          # Clear a rollback pin and migrate to the latest
+ *   pnpm db:migrate:tenant <schema_name> --lock-timeout 5 # Wait up to 5s for another migrator (default 60s)
+ *   pnpm db:migrate:tenant <schema_name> --no-wait        # Fail immediately if the tenant is being migrated
+ *   pnpm db:migrate:tenant <schema_name> --dry-run        # Print the plan with its SQL, execute nothing (alias: --plan)
+ *   pnpm db:migrate:tenant <schema_name> --dry-run --json # Print the plan as JSON
+ */
 
 async function migrateTenant(schemaName: string) {
   const client = createPostgresClient();
+  const shardClients = createShardClients(client);
+  const tenants = new TenantManager({ client, shardClients });
 
   try {
-    // Validate schema exists in tracker and database
-    await validateSchemaExists(client, schemaName, {
-      requireInTracker: true,
-      requireInDatabase: true,
-      action: 'migrate',
-    });
+    // Fails with TenantNotFoundError unless the tenant is tracked
+    const { shard } = await tenants.get(schemaName);
 
-    console.log(`Migrating tenant schema: ${schemaName}\n`);
+    if (dryRun) {
+      const plan = await tenants.plan(schemaName, { unpin });
+      printMigrationPlans([plan], { json });
+      process.exit(0);
+    }
 
-    // Apply migrations to the tenant schema
-    const migrationsFolder = path.join(process.cwd(), 'db', 'migrations', 'tenant');
+    console.log(`Migrating tenant schema: ${schemaName}\n`);
 
-    await applyMigrations({
-      client,
-      schemaName,
-      migrationsFolder,
-      logPrefix: '  ',
-    });
+    // Apply pending migrations to the existing tenant schema (never drops it on failure)
+    await tenants.migrate(schemaName, { unpin, lockTimeoutMs });
 
     // Verify tables exist
-    const tables = await getTablesInSchema(client, schemaName);
+    const tables = await getTablesInSchema(shardClients.get(shard), schemaName);
 
     console.log(`\n✓ Migration completed successfully`);
     console.log(`✓ Tables in schema ${schemaName}:`, tables.join(', ') || 'none');
@@ -35,11 +44,21 @@ async function migrateTenant(schemaName: string) {
   } catch (error) {
     handleScriptError(error, `Error migrating tenant schema: ${schemaName}`);
   } finally {
+    await shardClients.end();
     await client.end();
   }
 }
 
 // Get schema name from command line arguments
-const schemaName = getRequiredArg(process.argv[2], 'pnpm db:migrate:tenant <schema_name>');
+// --unpin clears a pin left by db:rollback:tenant and migrates to the latest version
+const args = process.argv.slice(2);
+const unpin = args.includes('--unpin');
+const dryRun = args.includes('--dry-run') || args.includes('--plan');
+const json = args.includes('--json');
+const lockTimeoutMs = getLockTimeoutArg(args);
+const schemaName = getRequiredArg(
+  args.find((arg, i) => !arg.startsWith('-') && args[i - 1] !== '--lock-timeout'),
+  'pnpm db:migrate:tenant <schema_name> [--unpin] [--dry-run [--json]] [--lock-timeout <seconds> | --no-wait]'
+);
 migrateTenant(schemaName);
 
@@ -1,32 +1,102 @@
 import 'dotenv/config';
-import { migrateAllTenantSchemas } from '../tenant-schema';
-import { handleScriptError } from '../script-utils';
+import { TenantManager } from '../tenant-manager';
+import { handleScriptError, getNumericArg, getLockTimeoutArg } from '../script-utils';
+import { printMigrationPlans } from '../migration-utils';
+import { createScriptOutput, getOutputFormat, EXIT_CODES } from '../../shared/output';
+
+/**
+ * Migrates every tenant in schema_tracker in parallel
+ * Suspended, provisioning and deleting tenants are skipped.
+ *
+ * Usage:
+ *   pnpm db:migrate:tenants                              # 4 tenants at a time, 300s per tenant
+ *   pnpm db:migrate:tenants --concurrency 16             # 16 tenants at a time (short form: -c 16)
+ *   pnpm db:migrate:tenants --concurrency 8 --timeout 60 # Fail any tenant that takes longer than 60s
+ *   pnpm db:migrate:tenants --lock-timeout 600           # Wait up to 600s for another run's migration lock (default 60s)
+ *   pnpm db:migrate:tenants --no-wait                    # Fail immediately if another run holds the lock
+ *   pnpm db:migrate:tenants --dry-run                    # Print every tenant's plan with its SQL, execute nothing (alias: --plan)
+ *   pnpm db:migrate:tenants --dry-run --json             # Print the plan as JSON (same as --format json)
+ *   pnpm db:migrate:tenants --format ndjson              # One line per tenant as it finishes, then a summary line
+ *
+ * Exits 0 when every tenant migrated (or was skipped), 2 when any failed, 1 on a fatal error.
+ */
+const args = process.argv.slice(2);
+const concurrency = getNumericArg(args, ['--concurrency', '-c'], 4);
+const timeoutSeconds = getNumericArg(args, ['--timeout'], 300);
+const lockTimeoutMs = getLockTimeoutArg(args);
+const dryRun = args.includes('--dry-run') || args.includes('--plan');
+const output = createScriptOutput('migrate-tenants', getOutputFormat(args));
+const { log } = output;
 
 async function main() {
-  console.log('Starting tenant schema migrations...\n');
+  // planAll() and migrateAll() open their own pools, sized for the run
+  const tenants = new TenantManager();
+
+  if (dryRun) {
+    try {
+      const { plans, errors } = await tenants.planAll();
+      const exitCode = errors.length > 0 ? EXIT_CODES.unhealthy : EXIT_CODES.ok;
+      if (output.format === 'text') {
+        printMigrationPlans(plans, { errors });
+      } else {
+        plans.forEach((plan) => output.record('plan', { plan }));
+        errors.forEach(({ schema, error }) => output.record('plan-error', { schema, error }));
+        output.result(exitCode, {
+          dryRun: true,
+          ...(output.format === 'json' ? { plans, errors } : {}),
+          pendingMigrations: plans.reduce((sum, p) => sum + p.pending.length, 0),
+          pendingSchemas: plans.filter((p) => p.pending.length > 0).length,
+          planErrors: errors.length,
+        });
+      }
+      process.exit(exitCode);
+    } catch (error) {
+      output.error(error);
+      handleScriptError(error, 'Fatal error while planning migrations');
+    }
+  }
+
+  log('Starting tenant schema migrations...\n');
 
   try {
-    const results = await migrateAllTenantSchemas();
+    const results = await tenants.migrateAll({
+      concurrency,
+      timeoutMs: timeoutSeconds * 1000,
+      lockTimeoutMs,
+      quiet: output.format !== 'text',
+      onTenantResult: (result) => output.record('tenant', result),
+    });
+
+    const exitCode = results.failures > 0 ? EXIT_CODES.unhealthy : EXIT_CODES.ok;
+    output.result(exitCode, {
+      dryRun: false,
+      migrated: results.success,
+      failed: results.failures,
+      skipped: results.skipped,
+      errors: results.errors,
+    });
 
     if (results.failures > 0) {
-      console.error('\nSome migrations failed:');
-      results.errors.forEach(({ schema, error }) => {
-        console.error(`  - ${schema}: ${error}`);
-      });
-      process.exit(1);
+      if (output.format === 'text') {
+        console.error('\nSome migrations failed:');
+        results.errors.forEach(({ schema, error }) => {
+          console.error(`  - ${schema}: ${error}`);
+        });
+      }
+      process.exit(exitCode);
     }
 
     if (results.success === 0) {
-      console.log('No tenant schemas found to migrate.');
-      process.exit(0);
+      log(results.skipped > 0 ? 'No active tenant schemas to migrate.' : 'No tenant schemas found to migrate.');
+      process.exit(exitCode);
     }
 
-    console.log('\n✓ All tenant schema migrations completed successfully');
-    process.exit(0);
+    log('\n✓ All tenant schema migrations completed successfully');
+    process.exit(exitCode);
   } catch (error) {
+    output.error(error);
     handleScriptError(error, 'Fatal error during migration');
   }
 }
 
 main();
-
@@ -0,0 +1,68 @@
+import 'dotenv/config';
+import { moveTenantToShard, MOVE_BATCH_SIZE } from '../tenant-move';
+import { formatTime } from '../../shared/db-utils';
+import {
+  createPostgresClient,
+  handleScriptError,
+  getRequiredArg,
+  getNumericArg,
+  getLockTimeoutArg,
+  validateSchemaExists,
+} from '../script-utils';
+
+/**
+ * Moves a tenant schema to another shard (see DATABASE_SHARDS) while it stays online
+ *
+ * Copies the rows in batches and catches up on writes made meanwhile; the tenant is only
+ * read-only while the last changes are synced, every table's row count and checksum is
+ * verified and schema_tracker is switched to the new shard. The source schema is dropped.
+ *
+ * Usage:
+ *   pnpm db:move:tenant <schema_name> --to <shard>
+ *   pnpm db:move:tenant <schema_name> --to <shard> --batch-size 5000   # Rows per batch (default 1000)
+ *   pnpm db:move:tenant <schema_name> --to <shard> --no-wait           # Fail immediately if the tenant is being migrated
+ *                                                                      # or its tables are locked (or wait up to N seconds
+ *                                                                      # with --lock-timeout N, default 60)
+ */
+const args = process.argv.slice(2);
+const toIndex = args.indexOf('--to');
+const targetShard = toIndex !== -1 ? args[toIndex + 1] : undefined;
+const batchSize = getNumericArg(args, ['--batch-size'], MOVE_BATCH_SIZE);
+const lockTimeoutMs = getLockTimeoutArg(args);
+
+async function moveTenant(schemaName: string, shard: string) {
+  const client = createPostgresClient({ max: 3 });
+
+  try {
+    const { shard: sourceShard } = await validateSchemaExists(client, schemaName, {
+      requireInTracker: true,
+      requireInDatabase: true,
+      action: 'move',
+    });
+
+    console.log(`Moving tenant ${schemaName}: shard ${sourceShard} -> ${shard}...\n`);
+
+    const start = performance.now();
+    const moved = await moveTenantToShard(schemaName, shard, { client, batchSize, lockTimeoutMs });
+
+    console.log('');
+    moved.forEach(({ table, rows, checksum }) => {
+      console.log(`✓ ${table}: ${rows} row(s), checksum ${checksum}`);
+    });
+    console.log(`✓ schema_tracker now routes ${schemaName} to shard ${shard}`);
+    console.log(`✓ Source schema dropped from shard ${sourceShard}`);
+    console.log(`\n✓ Successfully moved ${schemaName} in ${formatTime(performance.now() - start)}`);
+    process.exit(0);
+  } catch (error) {
+    handleScriptError(error, `Error moving tenant ${schemaName} to shard ${shard}`);
+  } finally {
+    await client.end();
+  }
+}
+
+const usage = 'pnpm db:move:tenant <schema_name> --to <shard> [--batch-size <rows>] [--lock-timeout <seconds> | --no-wait]';
+const schemaName = getRequiredArg(
+  args.find((arg, i) => !arg.startsWith('-') && !['--to', '--batch-size', '--lock-timeout'].includes(args[i - 1])),
+  usage
+);
+moveTenant(schemaName, getRequiredArg(targetShard, usage));
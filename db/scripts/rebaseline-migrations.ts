@@ -0,0 +1,83 @@
+import 'dotenv/config';
+import path from 'path';
+import { db } from '../db';
+import { schemaTracker } from '../schema';
+import { rebaselineMigrationHashes } from '../migration-utils';
+import { createPostgresClient, handleScriptError, getRequiredArg, validateSchemaExists, createShardClients } from '../script-utils';
+import { DEFAULT_SHARD } from '../shards';
+
+/**
+ * Accepts the current migration file contents as the recorded hash
+ *
+ * Health-check reports applied migrations whose file changed after they were applied.
+ * After reviewing such a change, run this to record the new hash. It also records hashes
+ * for "legacy" rows applied before content hashes existed. No migration SQL is executed.
+ *
+ * Usage:
+ *   pnpm db:rebaseline:migrations <schema_name>                  # All changed migrations in one tenant
+ *   pnpm db:rebaseline:migrations public                         # Public schema migrations
+ *   pnpm db:rebaseline:migrations <schema_name> --tag 0001_xyz   # Only the given migration(s), comma-separated
+ *   pnpm db:rebaseline:migrations --all                          # Public schema and every tracked tenant
+ */
+
+const args = process.argv.slice(2);
+const tagIndex = args.indexOf('--tag');
+const tags = tagIndex !== -1 && args[tagIndex + 1] ? args[tagIndex + 1].split(',') : undefined;
+const all = args.includes('--all');
+
+const PUBLIC_MIGRATIONS = path.join(process.cwd(), 'db', 'migrations', 'public');
+const TENANT_MIGRATIONS = path.join(process.cwd(), 'db', 'migrations', 'tenant');
+
+async function rebaseline() {
+  const client = createPostgresClient();
+  const shardClients = createShardClients(client);
+  // Shard of each tenant target; public is always on the default database
+  const shards = new Map<string, string>([['public', DEFAULT_SHARD]]);
+
+  try {
+    let targets: string[];
+    if (all) {
+      const tracked = await db.select({ name: schemaTracker.name, shard: schemaTracker.shard }).from(schemaTracker);
+      tracked.forEach(({ name, shard }) => shards.set(name, shard));
+      targets = ['public', ...tracked.map((t) => t.name)];
+    } else {
+      const schemaName = getRequiredArg(
+        args.find((arg, i) => !arg.startsWith('-') && args[i - 1] !== '--tag'),
+        'pnpm db:rebaseline:migrations <schema_name|public> [--tag <tag>] | --all'
+      );
+      if (schemaName !== 'public') {
+        const { shard } = await validateSchemaExists(client, schemaName, { requireInTracker: true, requireInDatabase: true });
+        shards.set(schemaName, shard);
+      }
+      targets = [schemaName];
+    }
+
+    console.log(`Re-baselining migration hashes for ${targets.length} schema(s)...\n`);
+
+    let updatedTotal = 0;
+    for (const schemaName of targets) {
+      const folder = schemaName === 'public' ? PUBLIC_MIGRATIONS : TENANT_MIGRATIONS;
+      const updated = await rebaselineMigrationHashes(shardClients.get(shards.get(schemaName)!), schemaName, folder, tags);
+      updatedTotal += updated.length;
+
+      if (updated.length === 0) {
+        console.log(`✓ ${schemaName}: All recorded hashes already match`);
+        continue;
+      }
+      for (const { tag, status, recordedHash, currentHash } of updated) {
+        const previous = status === 'legacy' ? '(no hash)' : recordedHash.slice(0, 12);
+        console.log(`✓ ${schemaName}: ${tag} ${previous} -> ${currentHash.slice(0, 12)}`);
+      }
+    }
+
+    console.log(`\n✓ Updated ${updatedTotal} recorded hash(es)`);
+    process.exit(0);
+  } catch (error) {
+    handleScriptError(error, 'Error re-baselining migration hashes');
+  } finally {
+    await shardClients.end();
+    await client.end();
+  }
+}
+
+rebaseline();
@@ -0,0 +1,51 @@
+import 'dotenv/config';
+import { renameTenantSchema, validateSchemaName } from '../tenant-schema';
+import { createPostgresClient, handleScriptError, getRequiredArg, getLockTimeoutArg, validateSchemaExists } from '../script-utils';
+
+/**
+ * Renames a tenant schema and its schema_tracker row in one transaction
+ *
+ * The rename is recorded in tenant_events. Applications must switch to the new
+ * name: queries using the old one fail once the rename commits.
+ *
+ * Usage:
+ *   pnpm db:rename:tenant <old_name> <new_name>
+ *   pnpm db:rename:tenant <old_name> <new_name> --no-wait   # Fail immediately if the tenant is being migrated
+ *                                                           # (or wait up to N seconds with --lock-timeout N, default 60)
+ */
+const args = process.argv.slice(2);
+const lockTimeoutMs = getLockTimeoutArg(args);
+const positional = args.filter((arg, i) => !arg.startsWith('-') && args[i - 1] !== '--lock-timeout');
+
+async function renameTenant(oldName: string, newName: string) {
+  // Two connections hold the migration locks for both names, the third runs the rename
+  const client = createPostgresClient({ max: 3 });
+
+  try {
+    validateSchemaName(newName);
+
+    await validateSchemaExists(client, oldName, {
+      requireInTracker: true,
+      requireInDatabase: true,
+      action: 'rename',
+    });
+
+    console.log(`Renaming tenant schema ${oldName} -> ${newName}...\n`);
+
+    await renameTenantSchema(oldName, newName, { client, lockTimeoutMs });
+
+    console.log(`✓ Schema renamed: ${oldName} -> ${newName}`);
+    console.log(`✓ schema_tracker updated and rename recorded in tenant_events`);
+    console.log(`\n✓ Successfully renamed tenant schema to ${newName}`);
+    process.exit(0);
+  } catch (error) {
+    handleScriptError(error, `Error renaming tenant schema ${oldName} to ${newName}`);
+  } finally {
+    await client.end();
+  }
+}
+
+const usage = 'pnpm db:rename:tenant <old_name> <new_name> [--lock-timeout <seconds> | --no-wait]';
+const oldName = getRequiredArg(positional[0], usage);
+const newName = getRequiredArg(positional[1], usage);
+renameTenant(oldName, newName);
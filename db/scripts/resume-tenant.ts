@@ -0,0 +1,45 @@
+import 'dotenv/config';
+import { resumeTenant } from '../tenant-lifecycle';
+import { createPostgresClient, handleScriptError, getRequiredArg, validateSchemaExists } from '../script-utils';
+
+/**
+ * Resumes a suspended tenant
+ *
+ * Restores the application role's USAGE on the tenant schema and moves the tenant
+ * back to `active` (or `migration_failed` if its last upgrade failed).
+ *
+ * Usage:
+ *   pnpm db:resume:tenant <schema_name>
+ */
+
+async function resume(schemaName: string) {
+  const client = createPostgresClient();
+
+  try {
+    await validateSchemaExists(client, schemaName, {
+      requireInTracker: true,
+      requireInDatabase: true,
+      action: 'resume',
+    });
+
+    console.log(`Resuming tenant schema: ${schemaName}...\n`);
+
+    const status = await resumeTenant(client, schemaName);
+
+    console.log(`✓ Restored schema access for ${process.env.TENANT_APP_ROLE}`);
+    console.log(`✓ Tenant status: ${status}`);
+    if (status === 'migration_failed') {
+      console.log(`  Its last upgrade failed; retry with: pnpm db:migrate:tenant ${schemaName}`);
+    }
+    console.log(`\n✓ Successfully resumed tenant schema: ${schemaName}`);
+    process.exit(0);
+  } catch (error) {
+    handleScriptError(error, `Error resuming tenant schema: ${schemaName}`);
+  } finally {
+    await client.end();
+  }
+}
+
+// Get schema name from command line arguments
+const schemaName = getRequiredArg(process.argv[2], 'pnpm db:resume:tenant <schema_name>');
+resume(schemaName);
@@ -0,0 +1,56 @@
+import 'dotenv/config';
+import { rollbackTenantSchema } from '../tenant-schema';
+import { createPostgresClient, handleScriptError, getRequiredArg, getLockTimeoutArg, validateSchemaExists, getAppliedMigrations, createShardClients } from '../script-utils';
+
+/**
+ * Rolls back migrations on one tenant schema using paired down migrations
+ *
+ * Usage:
+ *   pnpm db:rollback:tenant <schema_name>               # Roll back the latest migration
+ *   pnpm db:rollback:tenant <schema_name> --to <tag>    # Roll back everything applied after <tag>
+ *   pnpm db:rollback:tenant <schema_name> --no-wait     # Fail immediately if the tenant is being migrated
+ *                                                       # (or wait up to N seconds with --lock-timeout N, default 60)
+ *
+ * The tenant is pinned at its remaining latest migration afterwards.
+ * Clear the pin with: pnpm db:migrate:tenant <schema_name> --unpin
+ */
+const args = process.argv.slice(2);
+const toIndex = args.indexOf('--to');
+const toTag = toIndex !== -1 ? args[toIndex + 1] : undefined;
+const lockTimeoutMs = getLockTimeoutArg(args);
+
+async function rollbackTenant(schemaName: string) {
+  const client = createPostgresClient();
+  const shardClients = createShardClients(client);
+
+  try {
+    // Validate schema exists in tracker and database (on the tenant's shard)
+    const { shard } = await validateSchemaExists(client, schemaName, {
+      requireInTracker: true,
+      requireInDatabase: true,
+      action: 'roll back',
+    });
+
+    console.log(`Rolling back tenant schema: ${schemaName}${toTag ? ` to ${toTag}` : ''}\n`);
+
+    const rolledBack = await rollbackTenantSchema(schemaName, { toTag, client, shardClients, lockTimeoutMs });
+    const applied = await getAppliedMigrations(shardClients.get(shard), schemaName);
+
+    console.log(`\n✓ Rolled back ${rolledBack.length} migration(s)${rolledBack.length > 0 ? `: ${rolledBack.join(', ')}` : ''}`);
+    console.log(`✓ ${schemaName} is pinned at ${applied[applied.length - 1]}`);
+    console.log(`  Clear the pin with: pnpm db:migrate:tenant ${schemaName} --unpin`);
+    process.exit(0);
+  } catch (error) {
+    handleScriptError(error, `Error rolling back tenant schema: ${schemaName}`);
+  } finally {
+    await shardClients.end();
+    await client.end();
+  }
+}
+
+// Get schema name from command line arguments
+const schemaName = getRequiredArg(
+  args.find((arg, i) => !arg.startsWith('-') && args[i - 1] !== '--to' && args[i - 1] !== '--lock-timeout'),
+  'pnpm db:rollback:tenant <schema_name> [--to <tag>] [--lock-timeout <seconds> | --no-wait]'
+);
+rollbackTenant(schemaName);
@@ -0,0 +1,40 @@
+import 'dotenv/config';
+import { rollbackAllTenantSchemas } from '../tenant-schema';
+import { handleScriptError, getLockTimeoutArg } from '../script-utils';
+
+/**
+ * Rolls back migrations on every tenant in schema_tracker
+ *
+ * Usage:
+ *   pnpm db:rollback:tenants               # Roll back the latest migration on each tenant
+ *   pnpm db:rollback:tenants --to <tag>    # Roll back everything applied after <tag> on each tenant
+ *   pnpm db:rollback:tenants --no-wait     # Fail immediately if another run holds the migration lock
+ *                                          # (or wait up to N seconds with --lock-timeout N, default 60)
+ */
+const args = process.argv.slice(2);
+const toIndex = args.indexOf('--to');
+const toTag = toIndex !== -1 ? args[toIndex + 1] : undefined;
+const lockTimeoutMs = getLockTimeoutArg(args);
+
+async function main() {
+  console.log(`Starting tenant schema rollback${toTag ? ` to ${toTag}` : ''}...\n`);
+
+  try {
+    const results = await rollbackAllTenantSchemas({ toTag, lockTimeoutMs });
+
+    if (results.failures > 0) {
+      console.error('\nSome rollbacks failed:');
+      results.errors.forEach(({ schema, error }) => {
+        console.error(`  - ${schema}: ${error}`);
+      });
+      process.exit(1);
+    }
+
+    console.log('\n✓ All tenant schema rollbacks completed successfully');
+    process.exit(0);
+  } catch (error) {
+    handleScriptError(error, 'Fatal error during rollback');
+  }
+}
+
+main();
@@ -0,0 +1,46 @@
+import 'dotenv/config';
+import { suspendTenant } from '../tenant-lifecycle';
+import { createPostgresClient, handleScriptError, getRequiredArg, validateSchemaExists } from '../script-utils';
+
+/**
+ * Suspends a tenant without deleting anything
+ *
+ * Marks the tenant `suspended` in schema_tracker, revokes the application role's
+ * USAGE on its schema (TENANT_APP_ROLE, required) and ends
+ * the tenant's open sessions. db:migrate:tenants skips suspended tenants.
+ *
+ * Usage:
+ *   pnpm db:suspend:tenant <schema_name>
+ *
+ * Undo with: pnpm db:resume:tenant <schema_name>
+ */
+
+async function suspend(schemaName: string) {
+  const client = createPostgresClient();
+
+  try {
+    await validateSchemaExists(client, schemaName, {
+      requireInTracker: true,
+      requireInDatabase: true,
+      action: 'suspend',
+    });
+
+    console.log(`Suspending tenant schema: ${schemaName}...\n`);
+
+    const terminated = await suspendTenant(client, schemaName);
+
+    console.log(`✓ Marked as suspended: ${schemaName}`);
+    console.log(`✓ Revoked schema access from ${process.env.TENANT_APP_ROLE}`);
+    console.log(`✓ Terminated ${terminated} active session(s)`);
+    console.log(`\n✓ Successfully suspended tenant schema: ${schemaName}`);
+    process.exit(0);
+  } catch (error) {
+    handleScriptError(error, `Error suspending tenant schema: ${schemaName}`);
+  } finally {
+    await client.end();
+  }
+}
+
+// Get schema name from command line arguments
+const schemaName = getRequiredArg(process.argv[2], 'pnpm db:suspend:tenant <schema_name>');
+suspend(schemaName);
@@ -0,0 +1,144 @@
+import 'dotenv/config';
+import { sql } from 'drizzle-orm';
+import { db } from '../db';
+import { dummyTable } from '../schema';
+import { createPostgresClient, escapeSchemaName, getNumericArg, withSearchPath } from '../script-utils';
+import { provisionTenant, withTenantSchema } from '../tenant-schema';
+import { checkMigrations, formatTime } from '../../shared/db-utils';
+
+/**
+ * Concurrency isolation check for the multi-schema approach
+ *
+ * Runs many tenants in parallel on the shared pool from db/db.ts and proves that:
+ * - Every query inside withTenantSchema() only ever sees its own tenant's rows
+ * - Raw-client queries inside withSearchPath() only ever see their own tenant's rows
+ * - Connections returned to the pool never keep a tenant's search_path
+ *
+ * Usage:
+ *   pnpm db:verify:isolation                      # 8 tenants, 25 rounds
+ *   pnpm db:verify:isolation --tenants 16 --rounds 50
+ *   pnpm test                                     # Same check with the defaults (CI)
+ *
+ * Exits with code 1 if any query observes another tenant's data.
+ */
+
+const args = process.argv.slice(2);
+const TENANT_COUNT = getNumericArg(args, ['--tenants', '-n'], 8);
+const ROUNDS = getNumericArg(args, ['--rounds', '-r'], 25);
+
+async function verifyIsolation() {
+  console.log('=== Multi-Schema Isolation Check ===\n');
+  console.log(`Tenants: ${TENANT_COUNT}, rounds: ${ROUNDS}\n`);
+
+  // Quiet: dropping the test schemas cascades to their tables, one NOTICE each
+  const adminClient = createPostgresClient({ onnotice: () => {} });
+  // Separate pool for the raw withSearchPath() checks (same size as db/db.ts)
+  const rawPool = createPostgresClient({ max: 20 });
+
+  await checkMigrations(adminClient, 'public', 'schema_tracker', 'pnpm db:migrate');
+
+  const runId = Date.now();
+  const schemaNames = Array.from({ length: TENANT_COUNT }, (_, i) => `isolation_tenant_${i}_${runId}`);
+  const violations: string[] = [];
+  const expectedRows = new Map<string, number>(schemaNames.map((name) => [name, 0]));
+
+  const recordViolation = (message: string) => {
+    violations.push(message);
+    console.log(`   ✗ ${message}`);
+  };
+
+  try {
+    // Tracked and active: withTenantSchema() refuses any other tenant
+    console.log('Creating tenants...');
+    for (const schemaName of schemaNames) {
+      await provisionTenant(schemaName, { client: adminClient });
+    }
+    console.log(`   ✓ Created ${schemaNames.length} tenant(s)\n`);
+
+    console.log('Running concurrent tenant operations...');
+    const start = performance.now();
+
+    for (let round = 0; round < ROUNDS; round++) {
+      const operations = schemaNames.flatMap((schemaName) => [
+        // Typed Drizzle path on the shared pool
+        withTenantSchema(schemaName, async (tx) => {
+          await tx.insert(dummyTable).values({ name: schemaName, value: `drizzle-${round}` });
+          // Hold the transaction open briefly so other tenants interleave on the pool
+          await tx.execute(sql`SELECT pg_sleep(${Math.random() * 0.01})`);
+          const rows = await tx.select({ name: dummyTable.name }).from(dummyTable);
+          const foreign = rows.filter((row) => row.name !== schemaName);
+          if (foreign.length > 0) {
+            recordViolation(`${schemaName} (withTenantSchema) saw ${foreign.length} row(s) from other tenants`);
+          }
+          expectedRows.set(schemaName, expectedRows.get(schemaName)! + 1);
+        }),
+        // Raw client path
+        withSearchPath(rawPool, schemaName, async (tx) => {
+          await tx`INSERT INTO dummy_table (name, value) VALUES (${schemaName}, ${`raw-${round}`})`;
+          const rows = await tx`SELECT name FROM dummy_table`;
+          const foreign = rows.filter((row) => row.name !== schemaName);
+          if (foreign.length > 0) {
+            recordViolation(`${schemaName} (withSearchPath) saw ${foreign.length} row(s) from other tenants`);
+          }
+          expectedRows.set(schemaName, expectedRows.get(schemaName)! + 1);
+        }),
+        // Unscoped queries must never inherit a tenant's search_path from a reused connection
+        (async () => {
+          const [drizzleRow] = await db.execute(sql`SHOW search_path`);
+          const [rawRow] = await rawPool`SHOW search_path`;
+          for (const searchPath of [String(drizzleRow.search_path), String(rawRow.search_path)]) {
+            if (searchPath.includes('isolation_tenant_')) {
+              recordViolation(`Unscoped connection leaked search_path: ${searchPath}`);
+            }
+          }
+        })(),
+      ]);
+
+      await Promise.all(operations);
+    }
+
+    console.log(`   ✓ ${ROUNDS * schemaNames.length * 3} operations completed in ${formatTime(performance.now() - start)}\n`);
+
+    console.log('Verifying final row counts per tenant...');
+    for (const schemaName of schemaNames) {
+      const [{ total, own }] = await adminClient.unsafe(
+        `SELECT COUNT(*)::int AS total, COUNT(*) FILTER (WHERE name = $1)::int AS own
+         FROM ${escapeSchemaName(schemaName)}.dummy_table`,
+        [schemaName]
+      );
+      const expected = expectedRows.get(schemaName)!;
+      if (total !== expected || own !== expected) {
+        recordViolation(`${schemaName}: expected ${expected} own row(s), found ${own} own of ${total} total`);
+      }
+    }
+
+    console.log('\n=== Isolation Check Summary ===');
+    if (violations.length > 0) {
+      console.log(`✗ ${violations.length} isolation violation(s) detected`);
+      process.exitCode = 1;
+    } else {
+      console.log('✓ No query observed another tenant\'s rows');
+      console.log('✓ No pooled connection leaked a tenant search_path');
+    }
+  } finally {
+    console.log('\nCleaning up test tenants...');
+    for (const schemaName of schemaNames) {
+      await adminClient.unsafe(`DROP SCHEMA IF EXISTS ${escapeSchemaName(schemaName)} CASCADE`);
+    }
+    await adminClient`DELETE FROM schema_tracker WHERE name = ANY(${schemaNames})`;
+    console.log('   ✓ Cleanup completed');
+    await rawPool.end();
+    await adminClient.end();
+  }
+}
+
+if (require.main === module) {
+  verifyIsolation()
+    .then(() => process.exit(process.exitCode ?? 0))
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      process.exit(1);
+    });
+}
+
+export { verifyIsolation };
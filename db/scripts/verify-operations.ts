@@ -0,0 +1,903 @@
+import 'dotenv/config';
+import { sql } from 'drizzle-orm';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import postgres from 'postgres';
+import { closeDefaultSchemaPools } from '../db';
+import { dummyTable } from '../schema';
+import * as schemaTenant from '../schema-tenant';
+import {
+  createPostgresClient,
+  createShardClients,
+  escapeSchemaName,
+  getAppliedMigrationRecords,
+  getAppliedMigrations,
+  schemaExistsInDatabase,
+  ShardClients,
+} from '../script-utils';
+import {
+  applyMigrations,
+  checkMigrationIntegrity,
+  MigrationTimeoutError,
+  rebaselineMigrationHashes,
+  rollbackMigrations,
+  withMigrationLock,
+} from '../migration-utils';
+import {
+  cloneTenantSchema,
+  createTenantSchemaWithMigrations,
+  ensureTenantTemplate,
+  getTenantTableNames,
+  migrateAllTenantSchemas,
+  planTenantMigrations,
+  renameTenantSchema,
+  TENANT_TEMPLATE_SCHEMA,
+  TenantMigrationResult,
+  upgradeTenantSchema,
+  withTenantRole,
+  withTenantSchema,
+} from '../tenant-schema';
+import { dropTenantRole, verifyTenantRoleGrants } from '../tenant-roles';
+import { exportTenant, importTenant } from '../tenant-export';
+import { moveTenantToShard } from '../tenant-move';
+import { adoptOrphanedSchema, markTenantFailed, quarantineOrphanedSchema } from '../tenant-repair';
+import { DEFAULT_SHARD, getShardNames } from '../shards';
+import { TenantManager } from '../tenant-manager';
+import { collectTenancyMetrics } from '../metrics';
+import { createSchemaTenancy } from '../tenancy';
+import { resumeTenant, suspendTenant, transitionTenantStatus } from '../tenant-lifecycle';
+import {
+  InvalidSchemaNameError,
+  MigrationFailedError,
+  TenantAlreadyExistsError,
+  TenantNotActiveError,
+  TenantNotFoundError,
+} from '../tenant-errors';
+import { checkMigrations, formatTime } from '../../shared/db-utils';
+import { detectSchemaDrift, getDeclaredTables } from '../../shared/schema-drift';
+import { formatMetrics, MetricFamily } from '../../shared/metrics';
+
+/**
+ * End-to-end checks of the tenant operations against a real database
+ *
+ * Each check runs one operation the way the CLI does (migrate, rollback, rename, clone,
+ * suspend, move, ...) on schemas it creates for itself, named `verify_<label>_<run id>`, and
+ * drops them again afterwards. Checks that need something the environment lacks
+ * (e.g. a second shard in DATABASE_SHARDS) are skipped, not failed.
+ *
+ * Usage:
+ *   pnpm db:verify:operations                     # Every check
+ *   pnpm db:verify:operations rollback            # One check
+ *   pnpm test                                     # Isolation check, then every check (CI)
+ *
+ * Exits with code 1 if any check fails.
+ */
+
+// Small migrations folder the migration checks apply instead of the tenant migrations
+const FIXTURE_MIGRATIONS = path.join(__dirname, 'fixtures', 'migrations');
+
+interface CheckContext {
+  /** Admin client on the control database */
+  client: postgres.Sql;
+  /** Tenant operations on `client` */
+  tenants: TenantManager;
+  /** Clients for the shards, including the default one */
+  shardClients: ShardClients;
+  /** Unique schema name for this run; the tenant or schema is dropped after the check */
+  schemaName(label: string): string;
+}
+
+interface OperationCheck {
+  name: string;
+  description: string;
+  /** Reason to skip the check in this environment, if any */
+  skip?(): string | undefined;
+  run(ctx: CheckContext): Promise<void>;
+}
+
+/** Fails the running check with `message` unless `condition` holds */
+function expect(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+/** SQLSTATE of a failed query, also when Drizzle wrapped the driver's error */
+function errorCode(error: unknown): string | undefined {
+  const cause = error instanceof Error && error.cause ? error.cause : error;
+  return (cause as { code?: string } | undefined)?.code;
+}
+
+// SQLSTATE insufficient_privilege
+const PERMISSION_DENIED = '42501';
+
+/** Row count of every tenant table in a schema */
+async function countTenantRows(client: postgres.Sql, schema: string): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  for (const table of getTenantTableNames()) {
+    const [{ rows }] = await client.unsafe(`SELECT COUNT(*)::int AS rows FROM ${escapeSchemaName(schema)}.${escapeSchemaName(table)}`);
+    counts[table] = rows;
+  }
+  return counts;
+}
+
+/** Reads a tenant table as TENANT_APP_ROLE; rejects when the role has no access */
+async function readAsAppRole(client: postgres.Sql, schema: string, table: string) {
+  return client.begin(async (tx) => {
+    await tx.unsafe(`SET LOCAL ROLE ${escapeSchemaName(process.env.TENANT_APP_ROLE!)}`);
+    return tx.unsafe(`SELECT * FROM ${escapeSchemaName(schema)}.${escapeSchemaName(table)}`);
+  });
+}
+
+/** Columns and constraint types of a schema's tables, without the schema name, for comparing structures */
+async function describeSchema(client: postgres.Sql, schema: string): Promise<string> {
+  const columns = await client`
+    SELECT table_name, column_name, data_type, is_nullable
+    FROM information_schema.columns
+    WHERE table_schema = ${schema}
+    ORDER BY table_name, ordinal_position
+  `;
+  const constraints = await client`
+    SELECT cl.relname AS table_name, c.contype AS type
+    FROM pg_constraint c
+    JOIN pg_class cl ON cl.oid = c.conrelid
+    JOIN pg_namespace n ON n.oid = cl.relnamespace
+    WHERE n.nspname = ${schema}
+    ORDER BY cl.relname, c.contype
+  `;
+  return JSON.stringify([...columns, ...constraints]);
+}
+
+/** Value of one sample, found by metric name and labels */
+function metricValue(families: MetricFamily[], name: string, labels: Record<string, string>): number | undefined {
+  return families
+    .find((family) => family.name === name)
+    ?.samples.find((sample) => Object.entries(labels).every(([key, value]) => sample.labels?.[key] === value))?.value;
+}
+
+const checks: OperationCheck[] = [
+  {
+    name: 'migration-timeout',
+    description: 'A failing migration reports its error; only a run stopped by its deadline times out',
+    async run({ client, schemaName }) {
+      const schema = schemaName('timeout');
+      await client.unsafe(`CREATE SCHEMA ${escapeSchemaName(schema)}`);
+      await applyMigrations({ client, schemaName: schema, migrationsFolder: FIXTURE_MIGRATIONS, targetTag: '0001_verify_item_label' });
+
+      // Duplicate codes make 0002 fail on its own, well within the deadline
+      await client.unsafe(`INSERT INTO ${escapeSchemaName(schema)}.verify_items (code) VALUES ('dup'), ('dup')`);
+      const failure = await applyMigrations({
+        client,
+        schemaName: schema,
+        migrationsFolder: FIXTURE_MIGRATIONS,
+        deadline: Date.now() + 60 * 1000,
+      }).catch((error: unknown) => error);
+      expect(failure instanceof Error, 'Migration over duplicate codes did not fail');
+      expect(!(failure instanceof MigrationTimeoutError), `Failed migration was reported as a timeout: ${failure.message}`);
+
+      // 0003 sleeps past the deadline and is cancelled in the database
+      await client.unsafe(`DELETE FROM ${escapeSchemaName(schema)}.verify_items`);
+      const timeout = await applyMigrations({
+        client,
+        schemaName: schema,
+        migrationsFolder: FIXTURE_MIGRATIONS,
+        deadline: Date.now() + 1000,
+      }).catch((error: unknown) => error);
+      expect(timeout instanceof MigrationTimeoutError, `Run past its deadline did not time out: ${String(timeout)}`);
+
+      const applied = await getAppliedMigrations(client, schema);
+      expect(
+        applied.join(',') === '0000_verify_items,0001_verify_item_label,0002_verify_unique_code',
+        `Expected 0000-0002 applied after the timeout, found: ${applied.join(', ')}`
+      );
+    },
+  },
+  {
+    name: 'migrate-all',
+    description: 'A parallel run over all tenants migrates the healthy ones, reports a failing one and skips suspended ones',
+    async run({ client, tenants, shardClients, schemaName }) {
+      const healthy = schemaName('all_healthy');
+      const failing = schemaName('all_failing');
+      const suspended = schemaName('all_suspended');
+      for (const name of [healthy, failing, suspended]) {
+        await tenants.create(name);
+      }
+      // Its only migration is applied again and fails on the existing table
+      await client.unsafe(`DELETE FROM ${escapeSchemaName(failing)}."__drizzle_migrations"`);
+      await transitionTenantStatus(client, suspended, 'suspended');
+
+      const results = new Map<string, TenantMigrationResult>();
+      await migrateAllTenantSchemas({
+        client,
+        shardClients,
+        concurrency: 2,
+        quiet: true,
+        onTenantResult: (result) => results.set(result.schema, result),
+      });
+      expect(results.get(healthy)?.status === 'migrated', `${healthy} was ${results.get(healthy)?.status}, expected migrated`);
+      expect(results.get(failing)?.status === 'failed' && results.get(failing)?.error, `${failing} was ${results.get(failing)?.status}, expected failed`);
+      expect(results.get(suspended)?.status === 'skipped', `${suspended} was ${results.get(suspended)?.status}, expected skipped`);
+      expect(await schemaExistsInDatabase(client, failing), `Failed tenant ${failing} lost its schema`);
+      expect((await tenants.get(failing)).status === 'migration_failed', `${failing} is not marked migration_failed`);
+    },
+  },
+  {
+    name: 'statements',
+    description: 'A migration whose later statement fails is rolled back whole, with the failing statement named',
+    async run({ client, schemaName }) {
+      const schema = schemaName('statements');
+      const migrationsFolder = FIXTURE_MIGRATIONS;
+      const targetTag = '0002_verify_unique_code';
+      await client.unsafe(`CREATE SCHEMA ${escapeSchemaName(schema)}`);
+      await applyMigrations({ client, schemaName: schema, migrationsFolder, targetTag: '0001_verify_item_label' });
+      await client.unsafe(`INSERT INTO ${escapeSchemaName(schema)}.verify_items (code) VALUES ('dup'), ('dup')`);
+      const hasNote = async () => {
+        const [{ columns }] = await client`
+          SELECT COUNT(*)::int AS columns FROM information_schema.columns
+          WHERE table_schema = ${schema} AND table_name = 'verify_items' AND column_name = 'note'
+        `;
+        return columns === 1;
+      };
+
+      // 0002 adds a column, then fails on its second statement
+      const failure = await applyMigrations({ client, schemaName: schema, migrationsFolder, targetTag }).catch((error: unknown) => error);
+      expect(failure instanceof Error && failure.message.includes('statement 2/2'), `Failure does not name statement 2/2: ${String(failure)}`);
+      expect(!(await hasNote()), 'The first statement of the failed migration was kept');
+      const applied = await getAppliedMigrations(client, schema);
+      expect(applied.at(-1) === '0001_verify_item_label', `Earlier migrations not kept after the failure: ${applied.join(', ')}`);
+
+      await client.unsafe(`DELETE FROM ${escapeSchemaName(schema)}.verify_items`);
+      await applyMigrations({ client, schemaName: schema, migrationsFolder, targetTag });
+      expect(await hasNote(), 'Re-running the fixed migration did not add its column');
+    },
+  },
+  {
+    name: 'migration-lock',
+    description: 'Concurrent migrators of one schema apply each migration once; a held lock fails fast or is waited for',
+    async run({ client, schemaName }) {
+      const schema = schemaName('lock');
+      const migrationsFolder = FIXTURE_MIGRATIONS;
+      const targetTag = '0001_verify_item_label';
+      await client.unsafe(`CREATE SCHEMA ${escapeSchemaName(schema)}`);
+
+      const runs = await Promise.allSettled([1, 2].map(() => applyMigrations({ client, schemaName: schema, migrationsFolder, targetTag })));
+      const failed = runs.filter((run) => run.status === 'rejected');
+      expect(failed.length === 0, `Concurrent migrators failed: ${failed.map((run) => String((run as PromiseRejectedResult).reason)).join('; ')}`);
+      const applied = await getAppliedMigrations(client, schema);
+      expect(applied.join(',') === '0000_verify_items,0001_verify_item_label', `Concurrent migrators recorded: ${applied.join(', ')}`);
+
+      await withMigrationLock(client, schema, 0, async () => {
+        const refused = await applyMigrations({ client, schemaName: schema, migrationsFolder, lockTimeoutMs: 0 }).catch((error: unknown) => error);
+        expect(refused instanceof Error && refused.message.includes('held by'), `Migrating past a held lock: ${String(refused)}`);
+      });
+      // Held briefly while the next run waits for it
+      const held = withMigrationLock(client, schema, 0, () => new Promise((resolve) => setTimeout(resolve, 500)));
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await applyMigrations({ client, schemaName: schema, migrationsFolder, targetTag: '0002_verify_unique_code', lockTimeoutMs: 10 * 1000 });
+      await held;
+      const after = await getAppliedMigrations(client, schema);
+      expect(after.at(-1) === '0002_verify_unique_code', `Run after waiting for the lock stopped at ${after.at(-1)}`);
+    },
+  },
+  {
+    name: 'integrity',
+    description: 'Applied migrations record their file hash; an edited or legacy record is reported until re-baselined',
+    async run({ client, schemaName }) {
+      const schema = schemaName('integrity');
+      const migrationsFolder = FIXTURE_MIGRATIONS;
+      const tracking = `${escapeSchemaName(schema)}."__drizzle_migrations"`;
+      await client.unsafe(`CREATE SCHEMA ${escapeSchemaName(schema)}`);
+      await applyMigrations({ client, schemaName: schema, migrationsFolder, targetTag: '0001_verify_item_label' });
+      const statuses = async () =>
+        (await checkMigrationIntegrity(client, schema, migrationsFolder)).map((m) => `${m.tag}:${m.status}`).join(',');
+
+      expect((await statuses()) === '0000_verify_items:ok,0001_verify_item_label:ok', `Fresh migrations: ${await statuses()}`);
+      await client.unsafe(`UPDATE ${tracking} SET hash = 'edited' WHERE tag = '0000_verify_items'`);
+      await client.unsafe(`UPDATE ${tracking} SET hash = tag WHERE tag = '0001_verify_item_label'`);
+      const tampered = await statuses();
+      expect(tampered === '0000_verify_items:modified,0001_verify_item_label:legacy', `Tampered hashes: ${tampered}`);
+
+      const rebaselined = await rebaselineMigrationHashes(client, schema, migrationsFolder, ['0000_verify_items']);
+      expect(rebaselined.length === 1, `Re-baselined ${rebaselined.length} migration(s), expected 1`);
+      const partly = await statuses();
+      expect(partly === '0000_verify_items:ok,0001_verify_item_label:legacy', `After re-baselining 0000: ${partly}`);
+      await rebaselineMigrationHashes(client, schema, migrationsFolder);
+      expect((await statuses()) === '0000_verify_items:ok,0001_verify_item_label:ok', `After re-baselining all: ${await statuses()}`);
+    },
+  },
+  {
+    name: 'plan',
+    description: 'A dry-run plan lists the pending migrations of a tenant up to its pin and executes none of them',
+    async run({ client, schemaName }) {
+      const name = schemaName('plan');
+      const migrationsFolder = FIXTURE_MIGRATIONS;
+      await client.unsafe(`CREATE SCHEMA ${escapeSchemaName(name)}`);
+      await applyMigrations({ client, schemaName: name, migrationsFolder, targetTag: '0000_verify_items' });
+      await client`INSERT INTO schema_tracker (name, pinned_migration) VALUES (${name}, '0002_verify_unique_code')`;
+
+      const plan = await planTenantMigrations(name, { client, migrationsFolder });
+      const pending = plan.pending.map((m) => m.tag).join(',');
+      expect(pending === '0001_verify_item_label,0002_verify_unique_code', `Plan up to the pin lists: ${pending}`);
+      expect(plan.pinnedMigration === '0002_verify_unique_code', `Plan is pinned at ${plan.pinnedMigration}`);
+      expect(plan.pending.every((m) => m.statements.length > 0), 'A planned migration has no statements');
+      const unpinned = await planTenantMigrations(name, { client, migrationsFolder, unpin: true });
+      expect(unpinned.pending.at(-1)?.tag === '0003_verify_slow', `Unpinned plan ends at ${unpinned.pending.at(-1)?.tag}`);
+
+      const applied = await getAppliedMigrations(client, name);
+      expect(applied.join(',') === '0000_verify_items', `Planning applied migrations: ${applied.join(', ')}`);
+    },
+  },
+  {
+    name: 'rollback',
+    description: 'Down migrations run newest first and remove their tracking rows; re-applying restores them',
+    async run({ client, schemaName }) {
+      const schema = schemaName('rollback');
+      const migrationsFolder = FIXTURE_MIGRATIONS;
+      const upTo = '0002_verify_unique_code';
+      await client.unsafe(`CREATE SCHEMA ${escapeSchemaName(schema)}`);
+      await applyMigrations({ client, schemaName: schema, migrationsFolder, targetTag: upTo });
+
+      const rolledBack = await rollbackMigrations({ client, schemaName: schema, migrationsFolder, toTag: '0000_verify_items' });
+      expect(
+        rolledBack.join(',') === '0002_verify_unique_code,0001_verify_item_label',
+        `Expected 0002 then 0001 rolled back, got: ${rolledBack.join(', ')}`
+      );
+      const applied = await getAppliedMigrations(client, schema);
+      expect(applied.join(',') === '0000_verify_items', `Expected only 0000 applied, found: ${applied.join(', ')}`);
+      const [{ columns }] = await client`
+        SELECT COUNT(*)::int AS columns FROM information_schema.columns
+        WHERE table_schema = ${schema} AND table_name = 'verify_items' AND column_name = 'label'
+      `;
+      expect(columns === 0, 'Down migration of 0001 left the label column');
+
+      const failure = await rollbackMigrations({ client, schemaName: schema, migrationsFolder }).catch((error: unknown) => error);
+      expect(failure instanceof Error, 'Rolling back the first migration was not refused');
+
+      await applyMigrations({ client, schemaName: schema, migrationsFolder, targetTag: upTo });
+      const reapplied = await getAppliedMigrations(client, schema);
+      expect(reapplied.at(-1) === upTo, `Re-applying stopped at ${reapplied.at(-1)} instead of ${upTo}`);
+    },
+  },
+  {
+    name: 'tenant-manager',
+    description: 'TenantManager throws its typed errors for duplicate, unknown, invalid, untracked and failing tenants',
+    async run({ client, tenants, shardClients, schemaName }) {
+      const name = schemaName('manager');
+      const created = await Promise.allSettled([1, 2].map(() => tenants.create(name)));
+      const losers = created.filter((result) => result.status === 'rejected').map((result) => (result as PromiseRejectedResult).reason);
+      expect(losers.length === 1, `${2 - losers.length} of 2 racing creates succeeded, expected 1`);
+      expect(losers[0] instanceof TenantAlreadyExistsError, `Losing create threw ${String(losers[0])}`);
+      expect((await tenants.list()).some((tenant) => tenant.name === name), `list() does not include ${name}`);
+      expect((await tenants.migrate(name)).status === 'active', 'migrate() did not return the active tenant');
+
+      const unknown = await tenants.get(schemaName('manager_unknown')).catch((error: unknown) => error);
+      expect(unknown instanceof TenantNotFoundError, `get() of an unknown tenant threw ${String(unknown)}`);
+      const invalid = await tenants.create('Not-Valid').catch((error: unknown) => error);
+      expect(invalid instanceof InvalidSchemaNameError, `create() of an invalid name threw ${String(invalid)}`);
+
+      const untracked = schemaName('manager_untracked');
+      await client.unsafe(`CREATE SCHEMA ${escapeSchemaName(untracked)}`);
+      const refused = await tenants.drop(untracked).catch((error: unknown) => error);
+      expect(refused instanceof TenantNotFoundError, `drop() of an untracked schema threw ${String(refused)}`);
+      expect(await schemaExistsInDatabase(client, untracked), 'A refused drop() dropped the schema');
+      expect(!(await tenants.drop(untracked, { untracked: true })).tracked, 'drop() reported an untracked schema as tracked');
+
+      // Pinned at 0002, which fails over duplicate codes
+      const failing = schemaName('manager_failing');
+      await client.unsafe(`CREATE SCHEMA ${escapeSchemaName(failing)}`);
+      await applyMigrations({ client, schemaName: failing, migrationsFolder: FIXTURE_MIGRATIONS, targetTag: '0001_verify_item_label' });
+      await client.unsafe(`INSERT INTO ${escapeSchemaName(failing)}.verify_items (code) VALUES ('dup'), ('dup')`);
+      await client`INSERT INTO schema_tracker (name, pinned_migration) VALUES (${failing}, '0002_verify_unique_code')`;
+      const fixtures = new TenantManager({ client, shardClients, migrationsFolders: { tenant: FIXTURE_MIGRATIONS } });
+      const failure = await fixtures.migrate(failing).catch((error: unknown) => error);
+      expect(failure instanceof MigrationFailedError && failure.cause, `Failing migrate() threw ${String(failure)}`);
+    },
+  },
+  {
+    name: 'tenancy',
+    description: 'A setup from createSchemaTenancy() connects on first use, serves tenants on its own pools and closes them',
+    async run({ client, schemaName }) {
+      const name = schemaName('tenancy');
+      const applicationName = `verify_tenancy_${name}`;
+      const sessions = async () => {
+        const [{ count }] = await client`SELECT COUNT(*)::int AS count FROM pg_stat_activity WHERE application_name = ${applicationName}`;
+        return count;
+      };
+      const tenancy = createSchemaTenancy({
+        url: process.env.DATABASE_URL,
+        pool: { max: 2, onnotice: () => {}, connection: { application_name: applicationName } },
+      });
+      try {
+        expect((await sessions()) === 0, 'createSchemaTenancy() connected before the first query');
+        await tenancy.migratePublic();
+        await tenancy.tenants.create(name);
+        await tenancy.withTenantSchema(name, (tx) => tx.insert(dummyTable).values({ name, value: 'own pools' }));
+        expect((await sessions()) > 0, 'No session of the setup is open after its first queries');
+        const rows = await withTenantSchema(name, (tx) => tx.select().from(dummyTable));
+        expect(rows.length === 1, `The default pools read ${rows.length} row(s) written through the setup, expected 1`);
+      } finally {
+        await tenancy.close();
+      }
+      // Backends leave pg_stat_activity shortly after their connection closes
+      for (let attempt = 0; attempt < 20 && (await sessions()) > 0; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      expect((await sessions()) === 0, 'Sessions of the setup are still open after close()');
+    },
+  },
+  {
+    name: 'lifecycle',
+    description: 'Status changes are recorded as events; an invalid move fails and racing moves let only one through',
+    async run({ client, tenants, schemaName }) {
+      const name = schemaName('lifecycle');
+      const { id } = await tenants.create(name);
+      const statuses = async () =>
+        (await client`
+          SELECT details->>'status' AS status FROM tenant_events
+          WHERE tenant_id = ${id} AND event = 'status_changed' ORDER BY created_at
+        `).map((row) => row.status);
+      const created = (await statuses()).join(',');
+      expect(created === 'active', `Expected one status_changed event to active, found: ${created}`);
+
+      await transitionTenantStatus(client, name, 'suspended');
+      const invalid = await transitionTenantStatus(client, name, 'provisioning').catch((error: unknown) => error);
+      expect(invalid instanceof Error && invalid.message.includes('from suspended'), `Invalid move was not refused: ${String(invalid)}`);
+      expect((await tenants.get(name)).status === 'suspended', 'A refused move changed the status');
+
+      const raced = await Promise.allSettled([1, 2, 3].map(() => transitionTenantStatus(client, name, 'active', { from: ['suspended'] })));
+      const moved = raced.filter((result) => result.status === 'fulfilled').length;
+      expect(moved === 1, `${moved} of 3 racing moves from suspended succeeded, expected 1`);
+      const history = (await statuses()).join(',');
+      expect(history === 'active,suspended,active', `Unexpected status history: ${history}`);
+    },
+  },
+  {
+    name: 'failed-upgrade',
+    description: 'A failed upgrade keeps the schema and its rows and marks the tenant; the next good upgrade clears it',
+    async run({ client, tenants, schemaName }) {
+      const name = schemaName('upgrade');
+      const escaped = escapeSchemaName(name);
+      const migrationsFolder = FIXTURE_MIGRATIONS;
+      await client.unsafe(`CREATE SCHEMA ${escaped}`);
+      await applyMigrations({ client, schemaName: name, migrationsFolder, targetTag: '0001_verify_item_label' });
+      await client.unsafe(`INSERT INTO ${escaped}.verify_items (code) VALUES ('dup'), ('dup')`);
+      // Pinned at 0002, so the upgrade stops before 0003 sleeps
+      await client`
+        INSERT INTO schema_tracker (name, pinned_migration, migrated_version)
+        VALUES (${name}, '0002_verify_unique_code', '0001_verify_item_label')
+      `;
+
+      const failure = await upgradeTenantSchema(name, { client, migrationsFolder, logPrefix: '' }).catch((error: unknown) => error);
+      expect(failure instanceof Error, 'Upgrade over duplicate codes did not fail');
+      const failed = await tenants.get(name);
+      expect(failed.status === 'migration_failed', `Tenant is ${failed.status} after a failed upgrade, expected migration_failed`);
+      expect(failed.migrationError, 'No migration_error recorded for the failed upgrade');
+      expect(failed.migratedVersion === '0001_verify_item_label', `Failed tenant is at ${failed.migratedVersion}, expected 0001`);
+      const [{ rows }] = await client.unsafe(`SELECT COUNT(*)::int AS rows FROM ${escaped}.verify_items`);
+      expect(rows === 2, `Failed upgrade left ${rows} row(s), expected 2`);
+
+      await client.unsafe(`DELETE FROM ${escaped}.verify_items`);
+      await upgradeTenantSchema(name, { client, migrationsFolder, logPrefix: '' });
+      const upgraded = await tenants.get(name);
+      expect(upgraded.status === 'active', `Tenant is ${upgraded.status} after a good upgrade, expected active`);
+      expect(upgraded.migrationError === null, 'migration_error not cleared by a good upgrade');
+      expect(upgraded.migratedVersion === '0002_verify_unique_code', `Upgraded tenant is at ${upgraded.migratedVersion}, expected 0002`);
+    },
+  },
+  {
+    name: 'rename',
+    description: 'A renamed tenant resolves under its new name, with its data, and no longer under the old one',
+    async run({ client, tenants, schemaName }) {
+      const oldName = schemaName('rename_from');
+      const newName = schemaName('rename_to');
+      const created = await tenants.create(oldName);
+      await withTenantSchema(oldName, (tx) => tx.insert(dummyTable).values({ name: oldName, value: 'kept' }));
+
+      await renameTenantSchema(oldName, newName, { client });
+
+      const renamed = await tenants.get(newName);
+      expect(renamed.id === created.id, `Renamed tenant has id ${renamed.id}, expected ${created.id}`);
+      const lookup = await tenants.get(oldName).catch((error: unknown) => error);
+      expect(lookup instanceof TenantNotFoundError, 'Old name still resolves after the rename');
+      const rows = await withTenantSchema(newName, (tx) => tx.select().from(dummyTable));
+      expect(rows.length === 1 && rows[0].name === oldName, `Expected the row written before the rename, found ${rows.length} row(s)`);
+      const [event] = await client`
+        SELECT details FROM tenant_events WHERE tenant_id = ${created.id} AND event = 'renamed'
+      `;
+      expect(event?.details?.from === oldName, 'No renamed event recorded');
+    },
+  },
+  {
+    name: 'clone',
+    description: 'A clone is a tracked tenant with the source\'s rows and version; a schema-only clone has no rows',
+    async run({ client, tenants, schemaName }) {
+      const source = schemaName('clone_source');
+      const target = schemaName('clone_target');
+      const empty = schemaName('clone_empty');
+      const created = await tenants.create(source);
+      await withTenantSchema(source, (tx) =>
+        tx.insert(dummyTable).values([1, 2, 3].map((i) => ({ name: source, value: `row-${i}` })))
+      );
+
+      const copied = await cloneTenantSchema(source, target, { client });
+      const sourceRows = await countTenantRows(client, source);
+      const targetRows = await countTenantRows(client, target);
+      expect(sourceRows.dummy_table === 3, `Expected 3 source rows, found ${sourceRows.dummy_table}`);
+      expect(
+        JSON.stringify(targetRows) === JSON.stringify(sourceRows),
+        `Row counts differ: source ${JSON.stringify(sourceRows)}, clone ${JSON.stringify(targetRows)}`
+      );
+      for (const { table, rows } of copied) {
+        expect(rows === sourceRows[table], `Clone reported ${rows} row(s) copied for ${table}, source has ${sourceRows[table]}`);
+      }
+      const clone = await tenants.get(target);
+      expect(clone.status === 'active', `Clone is ${clone.status}, expected active`);
+      expect(clone.migratedVersion === created.migratedVersion, `Clone is at ${clone.migratedVersion}, source at ${created.migratedVersion}`);
+
+      await cloneTenantSchema(source, empty, { client, schemaOnly: true });
+      const emptyRows = await countTenantRows(client, empty);
+      expect(Object.values(emptyRows).every((rows) => rows === 0), `Schema-only clone has rows: ${JSON.stringify(emptyRows)}`);
+    },
+  },
+  {
+    name: 'export-import',
+    description: 'An export imported as a new tenant has the same rows; an export at another version is refused',
+    async run({ client, tenants, schemaName }) {
+      const source = schemaName('export');
+      const target = schemaName('import');
+      const refused = schemaName('import_refused');
+      await tenants.create(source);
+      await withTenantSchema(source, (tx) =>
+        tx.insert(dummyTable).values([
+          { name: source, value: 'plain' },
+          { name: source, value: 'quotes " and \\ and\nnewline, ünïcødé' },
+          { name: source, value: null, description: '[1, 2]' },
+        ])
+      );
+
+      const exportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-export-'));
+      try {
+        const manifest = await exportTenant(source, exportDir, { client });
+        const exported = manifest.tables.find((table) => table.name === 'dummy_table')?.rows;
+        expect(exported === 3, `Export lists ${exported} dummy_table row(s), expected 3`);
+
+        const imported = await importTenant(exportDir, { schemaName: target, client });
+        expect(imported.find((table) => table.table === 'dummy_table')?.rows === 3, 'Import did not load 3 dummy_table rows');
+        expect((await tenants.get(target)).status === 'active', `Imported tenant ${target} is not active`);
+        const byId = (rows: Array<{ id: string }>) => JSON.stringify([...rows].sort((a, b) => a.id.localeCompare(b.id)));
+        const sourceRows = await withTenantSchema(source, (tx) => tx.select().from(dummyTable));
+        const targetRows = await withTenantSchema(target, (tx) => tx.select().from(dummyTable));
+        expect(byId(targetRows) === byId(sourceRows), 'Imported rows differ from the exported ones');
+
+        const manifestPath = path.join(exportDir, 'manifest.json');
+        fs.writeFileSync(manifestPath, JSON.stringify({ ...manifest, migrationVersion: '0000_older' }));
+        const failure = await importTenant(exportDir, { schemaName: refused, client }).catch((error: unknown) => error);
+        expect(failure instanceof Error, 'An export at another migration version was imported');
+        expect(!(await schemaExistsInDatabase(client, refused)), `Refused import left schema ${refused} behind`);
+      } finally {
+        fs.rmSync(exportDir, { recursive: true, force: true });
+      }
+    },
+  },
+  {
+    name: 'template',
+    description: 'A tenant copied from the template matches one built by migrations; a stale template is rebuilt',
+    async run({ client, tenants, schemaName }) {
+      const replayed = schemaName('replayed');
+      const copied = schemaName('template');
+      await tenants.create(replayed);
+      const created = await tenants.create(copied, { fromTemplate: true });
+
+      const replayedVersion = (await tenants.get(replayed)).migratedVersion;
+      expect(created.status === 'active', `Template tenant is ${created.status}, expected active`);
+      expect(created.migratedVersion === replayedVersion, `Template tenant is at ${created.migratedVersion}, expected ${replayedVersion}`);
+      const history = async (schema: string) => JSON.stringify(await getAppliedMigrationRecords(client, schema));
+      expect((await history(copied)) === (await history(replayed)), 'Template tenant has a different migration history');
+      expect((await describeSchema(client, copied)) === (await describeSchema(client, replayed)), 'Template tenant differs in structure');
+      await withTenantSchema(copied, (tx) => tx.insert(dummyTable).values({ name: copied, value: 'works' }));
+
+      // A template missing its latest migration no longer matches the journal
+      await client.unsafe(`
+        DELETE FROM ${escapeSchemaName(TENANT_TEMPLATE_SCHEMA)}."__drizzle_migrations"
+        WHERE id = (SELECT MAX(id) FROM ${escapeSchemaName(TENANT_TEMPLATE_SCHEMA)}."__drizzle_migrations")
+      `);
+      expect(await ensureTenantTemplate({ client, logPrefix: '' }), 'A stale template was not rebuilt');
+      expect(!(await ensureTenantTemplate({ client, logPrefix: '' })), 'A current template was rebuilt');
+    },
+  },
+  {
+    name: 'tenant-role',
+    description: 'A tenant role reads its own schema only; dropping it clears schema_tracker.db_role',
+    async run({ client, tenants, schemaName }) {
+      const own = schemaName('role_own');
+      const other = schemaName('role_other');
+      const tenant = await tenants.create(own, { withRole: true });
+      await tenants.create(other, { withRole: true });
+      expect(tenant.dbRole, `Tenant ${own} has no role after create`);
+      await withTenantSchema(other, (tx) => tx.insert(dummyTable).values({ name: other, value: 'private' }));
+
+      const issues = await verifyTenantRoleGrants(client, own, tenant.dbRole);
+      expect(issues.length === 0, `Role grants: ${issues.join('; ')}`);
+      await withTenantRole(own, (tx) => tx.insert(dummyTable).values({ name: own, value: 'mine' }));
+      const rows = await withTenantRole(own, (tx) => tx.select().from(dummyTable));
+      expect(rows.length === 1 && rows[0].name === own, `Role saw ${rows.length} row(s) in its own schema, expected 1`);
+
+      const foreign = await withTenantRole(own, (tx) =>
+        tx.execute(sql.raw(`SELECT * FROM ${escapeSchemaName(other)}.dummy_table`))
+      ).catch((error: unknown) => error);
+      expect(errorCode(foreign) === PERMISSION_DENIED, `Role read another tenant's schema: ${String(foreign)}`);
+
+      const dropped = await dropTenantRole(client, own);
+      expect(dropped === tenant.dbRole, `Dropped role ${dropped}, expected ${tenant.dbRole}`);
+      const [role] = await client`SELECT 1 FROM pg_roles WHERE rolname = ${tenant.dbRole}`;
+      expect(!role, `Role ${tenant.dbRole} still exists after the drop`);
+      expect((await tenants.get(own)).dbRole === null, 'schema_tracker.db_role still set after the drop');
+    },
+  },
+  {
+    name: 'suspend-resume',
+    description: 'A suspended tenant is refused and unreadable by the app role; resuming restores access',
+    skip: () => (process.env.TENANT_APP_ROLE ? undefined : 'needs TENANT_APP_ROLE'),
+    async run({ client, tenants, schemaName }) {
+      const name = schemaName('suspend');
+      await tenants.create(name);
+      await withTenantSchema(name, (tx) => tx.insert(dummyTable).values({ name, value: 'kept' }));
+      // Default privileges cover tables added after provisioning
+      await client.unsafe(`CREATE TABLE ${escapeSchemaName(name)}.verify_later (id int)`);
+      expect((await readAsAppRole(client, name, 'dummy_table')).length === 1, 'App role cannot read the tenant before suspending');
+      await readAsAppRole(client, name, 'verify_later');
+
+      await suspendTenant(client, name);
+      expect((await tenants.get(name)).status === 'suspended', `Tenant ${name} is not suspended`);
+      const refused = await withTenantSchema(name, (tx) => tx.select().from(dummyTable)).catch((error: unknown) => error);
+      expect(refused instanceof TenantNotActiveError, `withTenantSchema() served a suspended tenant: ${String(refused)}`);
+      const denied = await readAsAppRole(client, name, 'dummy_table').catch((error: unknown) => error);
+      expect(errorCode(denied) === PERMISSION_DENIED, `App role read a suspended tenant: ${String(denied)}`);
+
+      const status = await resumeTenant(client, name);
+      expect(status === 'active', `Resumed tenant is ${status}, expected active`);
+      expect((await readAsAppRole(client, name, 'dummy_table')).length === 1, 'App role cannot read the tenant after resuming');
+      await readAsAppRole(client, name, 'verify_later');
+      const rows = await withTenantSchema(name, (tx) => tx.select().from(dummyTable));
+      expect(rows.length === 1, `Read ${rows.length} row(s) after resuming, expected 1`);
+    },
+  },
+  {
+    name: 'drift',
+    description: 'A tenant altered by hand is reported as drifted from schema-tenant.ts, table by table',
+    async run({ client, tenants, schemaName }) {
+      const name = schemaName('drift');
+      const escaped = escapeSchemaName(name);
+      await tenants.create(name);
+      const detect = () => detectSchemaDrift(client, name, getDeclaredTables(schemaTenant), { ignoreTables: ['__drizzle_migrations'] });
+      const fresh = await detect();
+      expect(fresh.length === 0, `Fresh tenant drifts: ${fresh.map((d) => `${d.table}: ${d.issue}`).join('; ')}`);
+
+      await client.unsafe(`ALTER TABLE ${escaped}.dummy_table ADD COLUMN extra text, ALTER COLUMN name DROP NOT NULL`);
+      await client.unsafe(`CREATE INDEX verify_drift_idx ON ${escaped}.dummy_table (value)`);
+      await client.unsafe(`CREATE TABLE ${escaped}.verify_undeclared (id int)`);
+      const drift = await detect();
+      const report = drift.map((d) => `${d.table}: ${d.issue}`).join('; ');
+      for (const expected of ['extra', 'name', 'verify_drift_idx']) {
+        expect(drift.some((d) => d.table === 'dummy_table' && d.issue.includes(expected)), `Drift report misses ${expected}: ${report}`);
+      }
+      expect(drift.some((d) => d.table === 'verify_undeclared'), `Drift report misses the undeclared table: ${report}`);
+    },
+  },
+  {
+    name: 'metrics',
+    description: 'The metrics count tenants by status, report migration lag per tenant and count orphaned schemas',
+    async run({ client, tenants, shardClients, schemaName }) {
+      const active = schemaName('metrics_active');
+      const suspended = schemaName('metrics_suspended');
+      const orphan = schemaName('metrics_orphan');
+      const before = await collectTenancyMetrics(client, shardClients);
+
+      await tenants.create(active);
+      await tenants.create(suspended);
+      await transitionTenantStatus(client, suspended, 'suspended');
+      // One journal migration short
+      await client.unsafe(`
+        DELETE FROM ${escapeSchemaName(suspended)}."__drizzle_migrations"
+        WHERE id = (SELECT MAX(id) FROM ${escapeSchemaName(suspended)}."__drizzle_migrations")
+      `);
+      await client.unsafe(`CREATE SCHEMA ${escapeSchemaName(orphan)}`);
+      const after = await collectTenancyMetrics(client, shardClients);
+
+      const delta = (name: string, labels: Record<string, string>) =>
+        (metricValue(after, name, labels) ?? 0) - (metricValue(before, name, labels) ?? 0);
+      expect(delta('tenancy_tenants', { status: 'active' }) === 1, 'tenancy_tenants{status="active"} did not grow by 1');
+      expect(delta('tenancy_tenants', { status: 'suspended' }) === 1, 'tenancy_tenants{status="suspended"} did not grow by 1');
+      expect(metricValue(after, 'tenancy_tenant_migration_lag', { schema: active }) === 0, `${active} reports migration lag`);
+      expect(metricValue(after, 'tenancy_tenant_migration_lag', { schema: suspended }) === 1, `${suspended} does not report a lag of 1`);
+      expect(delta('tenancy_orphaned_schemas', { shard: DEFAULT_SHARD }) === 1, 'tenancy_orphaned_schemas did not grow by 1');
+      const text = formatMetrics(after);
+      expect(text.includes(`tenancy_schema_size_bytes{schema="${active}"`), `No size reported for ${active}`);
+    },
+  },
+  {
+    name: 'shards',
+    description: 'A tenant created on another shard lives only there and is queried there',
+    skip: () => (getShardNames().length < 2 ? 'needs a second shard in DATABASE_SHARDS' : undefined),
+    async run({ client, tenants, shardClients, schemaName }) {
+      const name = schemaName('shard');
+      const otherShard = getShardNames().find((shard) => shard !== DEFAULT_SHARD)!;
+      const created = await tenants.create(name, { shard: otherShard });
+      expect(created.shard === otherShard, `schema_tracker lists ${name} on ${created.shard}, expected ${otherShard}`);
+      expect(await schemaExistsInDatabase(shardClients.get(otherShard), name), `Schema ${name} is not on shard ${otherShard}`);
+      expect(!(await schemaExistsInDatabase(client, name)), `Schema ${name} is also on the default shard`);
+
+      await withTenantSchema(name, (tx) => tx.insert(dummyTable).values({ name, value: otherShard }));
+      const [{ rows }] = await shardClients.get(otherShard).unsafe(`SELECT COUNT(*)::int AS rows FROM ${escapeSchemaName(name)}.dummy_table`);
+      expect(rows === 1, `Shard ${otherShard} holds ${rows} row(s) written through withTenantSchema(), expected 1`);
+    },
+  },
+  {
+    name: 'move',
+    description: 'A tenant moved to another shard and back keeps its rows and is resolved on its new shard',
+    skip: () => (getShardNames().length < 2 ? 'needs a second shard in DATABASE_SHARDS' : undefined),
+    async run({ client, tenants, schemaName }) {
+      const name = schemaName('move');
+      const otherShard = getShardNames().find((shard) => shard !== DEFAULT_SHARD)!;
+      const otherClient = createPostgresClient({}, otherShard);
+      try {
+        await tenants.create(name);
+        await withTenantSchema(name, (tx) =>
+          tx.insert(dummyTable).values([1, 2, 3].map((i) => ({ name, value: `row-${i}` })))
+        );
+
+        for (const [from, to] of [[DEFAULT_SHARD, otherShard], [otherShard, DEFAULT_SHARD]]) {
+          const moved = await moveTenantToShard(name, to, { client, logPrefix: '' });
+          const dummyRows = moved.find((table) => table.table === 'dummy_table')?.rows;
+          expect(dummyRows === 3, `Move to ${to} reported ${dummyRows} dummy_table row(s), expected 3`);
+          expect((await tenants.get(name)).shard === to, `schema_tracker does not list ${name} on shard ${to}`);
+
+          const onDefault = await schemaExistsInDatabase(client, name);
+          const onOther = await schemaExistsInDatabase(otherClient, name);
+          expect(onDefault === (to === DEFAULT_SHARD), `Schema ${onDefault ? 'still' : 'not'} on the default shard after moving to ${to}`);
+          expect(onOther === (to === otherShard), `Schema ${onOther ? 'still' : 'not'} on shard ${otherShard} after moving to ${to}`);
+
+          const rows = await withTenantSchema(name, (tx) => tx.select().from(dummyTable));
+          expect(rows.length === 3, `Read ${rows.length} row(s) after moving from ${from} to ${to}, expected 3`);
+        }
+      } finally {
+        await otherClient.end();
+      }
+    },
+  },
+  {
+    name: 'adopt',
+    description: 'An orphaned schema is adopted as an active tenant at its version, or quarantined out of the way',
+    async run({ client, tenants, schemaName }) {
+      const orphan = schemaName('adopt');
+      await createTenantSchemaWithMigrations(orphan, { client, logPrefix: '' });
+      await client.unsafe(`INSERT INTO ${escapeSchemaName(orphan)}.dummy_table (name, value) VALUES ($1, 'orphaned')`, [orphan]);
+      const applied = await getAppliedMigrations(client, orphan);
+
+      await adoptOrphanedSchema(client, client, orphan);
+      const adopted = await tenants.get(orphan);
+      expect(adopted.status === 'active', `Adopted tenant is ${adopted.status}, expected active`);
+      expect(adopted.migratedVersion === applied.at(-1), `Adopted at ${adopted.migratedVersion}, schema is at ${applied.at(-1)}`);
+      const rows = await withTenantSchema(orphan, (tx) => tx.select().from(dummyTable));
+      expect(rows.length === 1, `Adopted tenant has ${rows.length} row(s), expected 1`);
+      const again = await adoptOrphanedSchema(client, client, orphan).catch((error: unknown) => error);
+      expect(again instanceof Error, 'Adopting a tracked schema twice did not fail');
+
+      const stray = schemaName('quarantine');
+      await createTenantSchemaWithMigrations(stray, { client, logPrefix: '' });
+      const quarantined = await quarantineOrphanedSchema(client, client, stray);
+      try {
+        expect(!(await schemaExistsInDatabase(client, stray)), `Schema ${stray} still exists after quarantine`);
+        expect(await schemaExistsInDatabase(client, quarantined), `Quarantined schema ${quarantined} does not exist`);
+      } finally {
+        await tenants.drop(quarantined);
+      }
+    },
+  },
+  {
+    name: 'repair',
+    description: 'A broken tenant is marked failed with the reason, once; a tracked schema is never quarantined',
+    async run({ client, tenants, schemaName }) {
+      const name = schemaName('repair');
+      await tenants.create(name);
+
+      const quarantine = await quarantineOrphanedSchema(client, client, name).catch((error: unknown) => error);
+      expect(quarantine instanceof Error, 'A tracked schema was quarantined');
+      expect(await schemaExistsInDatabase(client, name), `Schema ${name} is gone after a refused quarantine`);
+
+      await markTenantFailed(client, name, 'verify: schema damaged');
+      const failed = await tenants.get(name);
+      expect(failed.status === 'migration_failed', `Marked tenant is ${failed.status}, expected migration_failed`);
+      expect(failed.migrationError === 'verify: schema damaged', `Recorded reason is ${failed.migrationError}`);
+      const again = await markTenantFailed(client, name, 'verify: again').catch((error: unknown) => error);
+      expect(again instanceof Error, 'A tenant that is not active was marked failed again');
+    },
+  },
+];
+
+async function verifyOperations() {
+  console.log('=== Tenant Operations Check ===\n');
+
+  const requested = process.argv.slice(2).filter((arg) => !arg.startsWith('-'));
+  const unknown = requested.filter((name) => !checks.some((check) => check.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown check(s): ${unknown.join(', ')} (available: ${checks.map((c) => c.name).join(', ')})`);
+  }
+  const selected = requested.length > 0 ? checks.filter((check) => requested.includes(check.name)) : checks;
+
+  // Quiet: dropping the test schemas cascades to their tables, one NOTICE each
+  // Several connections: operations hold a migration lock on one while running on others
+  const client = createPostgresClient({ max: 4, onnotice: () => {} });
+  const shardClients = createShardClients(client, { onnotice: () => {} });
+  const tenants = new TenantManager({ client, shardClients });
+  await checkMigrations(client, 'public', 'schema_tracker', 'pnpm db:migrate');
+
+  const runId = Date.now().toString(36);
+  const failures: string[] = [];
+  let skipped = 0;
+
+  try {
+    for (const check of selected) {
+      const reason = check.skip?.();
+      if (reason) {
+        console.log(`- ${check.name}: skipped (${reason})`);
+        skipped++;
+        continue;
+      }
+
+      const schemas: string[] = [];
+      const ctx: CheckContext = {
+        client,
+        tenants,
+        shardClients,
+        schemaName(label) {
+          const name = `verify_${label}_${runId}`;
+          schemas.push(name);
+          return name;
+        },
+      };
+
+      const start = performance.now();
+      try {
+        await check.run(ctx);
+        console.log(`✓ ${check.name}: ${check.description} (${formatTime(performance.now() - start)})`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(`${check.name}: ${message}`);
+        console.log(`✗ ${check.name}: ${message}`);
+      } finally {
+        for (const schema of schemas) {
+          // Tracked tenants lose their tracker row and role too; names a check never created are not found
+          await tenants.drop(schema, { untracked: true }).catch((error: unknown) => {
+            if (!(error instanceof TenantNotFoundError)) {
+              throw error;
+            }
+          });
+        }
+      }
+    }
+
+    console.log('\n=== Operations Check Summary ===');
+    console.log(`Passed: ${selected.length - skipped - failures.length}, failed: ${failures.length}, skipped: ${skipped}`);
+    if (failures.length > 0) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await tenants.close();
+    await shardClients.end();
+    await closeDefaultSchemaPools();
+    await client.end();
+  }
+}
+
+if (require.main === module) {
+  verifyOperations()
+    .then(() => process.exit(process.exitCode ?? 0))
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      process.exit(1);
+    });
+}
+
+export { verifyOperations };
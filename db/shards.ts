@@ -0,0 +1,68 @@
+/**
+ * Shard registry for the multi-schema approach
+ *
+ * A shard is a Postgres database that holds tenant schemas. `default` is always
+ * `DATABASE_URL`, which also holds the control tables (schema_tracker, tenant_events);
+ * `schema_tracker.shard` records which shard each tenant's schema lives on.
+ * More shards are configured as a comma-separated list of `name=url` pairs:
+ *
+ *   DATABASE_SHARDS=eu1=postgresql://...@eu1/app,us1=postgresql://...@us1/app
+ */
+
+/** Shard backed by DATABASE_URL; holds schema_tracker and every tenant created without a shard */
+export const DEFAULT_SHARD = 'default';
+
+/**
+ * Configured shards and their connection strings, `default` first
+ * @throws Error if DATABASE_URL is missing or DATABASE_SHARDS is malformed
+ */
+export function getShardUrls(): Map<string, string> {
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL environment variable is required');
+  }
+
+  const shards = new Map<string, string>([[DEFAULT_SHARD, process.env.DATABASE_URL]]);
+  for (const entry of (process.env.DATABASE_SHARDS ?? '').split(',')) {
+    if (!entry.trim()) {
+      continue;
+    }
+    // URLs may contain '=' in their query string; split on the first one only
+    const separator = entry.indexOf('=');
+    const name = entry.slice(0, separator).trim();
+    const url = entry.slice(separator + 1).trim();
+    if (separator === -1 || !/^[a-zA-Z0-9_-]+$/.test(name) || !url) {
+      throw new Error(`Invalid DATABASE_SHARDS entry "${entry.trim()}"; expected name=postgresql://...`);
+    }
+    if (shards.has(name)) {
+      throw new Error(`Shard ${name} is configured more than once (the default shard is DATABASE_URL)`);
+    }
+    shards.set(name, url);
+  }
+  return shards;
+}
+
+/**
+ * Names of all configured shards, `default` first
+ */
+export function getShardNames(): string[] {
+  return [...getShardUrls().keys()];
+}
+
+/**
+ * Whether any shard besides `default` is configured
+ */
+export function isSharded(): boolean {
+  return getShardUrls().size > 1;
+}
+
+/**
+ * Connection string of a shard
+ * @throws Error if the shard is not configured
+ */
+export function getShardUrl(shard: string): string {
+  const url = getShardUrls().get(shard);
+  if (!url) {
+    throw new Error(`Unknown shard ${shard} (configured: ${getShardNames().join(', ')})`);
+  }
+  return url;
+}
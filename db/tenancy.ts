@@ -0,0 +1,105 @@
+import path from 'path';
+import postgres from 'postgres';
+import { createSchemaPools, SchemaPools } from './db';
+import { getShardUrls } from './shards';
+import { ShardClients } from './script-utils';
+import { applyMigrations } from './migration-utils';
+import { withTenantSchema, withTenantRole, TenantSchemaTransaction } from './tenant-schema';
+import { TenantManager } from './tenant-manager';
+
+export interface SchemaTenancyConfig {
+  /** Connection string of the database with schema_tracker, i.e. the `default` shard (default: DATABASE_URL) */
+  url?: string;
+  /** Further shards by name (default: DATABASE_SHARDS when `url` is not given, none otherwise) */
+  shards?: Record<string, string>;
+  /** postgres-js options for every pool, over the db.ts defaults (20 connections, 20s idle timeout, ...) */
+  pool?: postgres.Options<{}>;
+  /**
+   * Migrations folders (default: db/migrations/public and db/migrations/tenant): `public` for
+   * migratePublic() and the checks of tenants.health(), `tenant` for the tenants.* methods that
+   * create and migrate tenants
+   */
+  migrationsFolders?: { public?: string; tenant?: string };
+}
+
+/**
+ * A multi-schema setup on its own pools, returned by createSchemaTenancy()
+ */
+export interface SchemaTenancy {
+  /** Combined schema for database operations */
+  db: SchemaPools['db'];
+  /** Tenant-only schema on the default pool */
+  tenantDb: SchemaPools['tenantDb'];
+  getShardTenantDb: SchemaPools['getShardTenantDb'];
+  /** withTenantSchema() on this setup's pools */
+  withTenantSchema<T>(schemaName: string, operation: (tx: TenantSchemaTransaction) => Promise<T>): Promise<T>;
+  /** withTenantRole() on this setup's pools */
+  withTenantRole<T>(schemaName: string, operation: (tx: TenantSchemaTransaction) => Promise<T>): Promise<T>;
+  /** Tenant management on this setup's pools and migrations folders */
+  tenants: TenantManager;
+  /**
+   * Applies pending public migrations (schema_tracker, tenant_events) on the default pool, like
+   * `pnpm db:migrate`; run it before creating tenants on a new database
+   * @param options.lockTimeoutMs - How long to wait for another migrator; 0 fails fast
+   */
+  migratePublic(options?: { lockTimeoutMs?: number }): Promise<void>;
+  /** Closes every pool of this setup */
+  close(options?: { timeout?: number }): Promise<void>;
+}
+
+/**
+ * Creates an independent multi-schema setup: its own pools, tenant wrappers and TenantManager
+ *
+ * The exports of db.ts and tenant-schema.ts are the default setup, configured from the
+ * environment. Use this for anything else: a second database, a test database per test
+ * file, or pools that are closed on shutdown. Nothing connects until the first query.
+ *
+ * @throws Error if neither `url` nor DATABASE_URL is set, or DATABASE_SHARDS is malformed
+ *
+ * @example
+ * ```typescript
+ * const tenancy = createSchemaTenancy({ url: process.env.TEST_DATABASE_URL, pool: { max: 5 } });
+ * try {
+ *   await tenancy.migratePublic();
+ *   await tenancy.tenants.create('acme_corp');
+ *   await tenancy.withTenantSchema('acme_corp', (tx) => tx.select().from(dummyTable));
+ * } finally {
+ *   await tenancy.close();
+ * }
+ * ```
+ */
+export function createSchemaTenancy(config: SchemaTenancyConfig = {}): SchemaTenancy {
+  let { url, shards } = config;
+  if (!url) {
+    const [[, defaultUrl], ...envShards] = getShardUrls();
+    url = defaultUrl;
+    shards ??= Object.fromEntries(envShards);
+  }
+
+  const pools = createSchemaPools({ url, shards, pool: config.pool });
+  const shardClients: ShardClients = {
+    get: pools.getShardClient,
+    names: () => pools.shardNames,
+    // The pools are closed by close()
+    end: async () => {},
+  };
+
+  return {
+    db: pools.db,
+    tenantDb: pools.tenantDb,
+    getShardTenantDb: pools.getShardTenantDb,
+    withTenantSchema: (schemaName, operation) => withTenantSchema(schemaName, operation, { pools }),
+    withTenantRole: (schemaName, operation) => withTenantRole(schemaName, operation, { pools }),
+    tenants: new TenantManager({ client: pools.client, shardClients, migrationsFolders: config.migrationsFolders }),
+    async migratePublic(options = {}) {
+      await applyMigrations({
+        client: pools.client,
+        schemaName: 'public',
+        migrationsFolder: config.migrationsFolders?.public ?? path.join(process.cwd(), 'db', 'migrations', 'public'),
+        logPrefix: '',
+        lockTimeoutMs: options.lockTimeoutMs,
+      });
+    },
+    close: (options) => pools.close(options),
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Errors thrown by the tenant management functions and TenantManager
+ *
+ * All of them extend TenantError, so a caller can catch every tenant error with one
+ * `instanceof` check and tell the cases apart by class (e.g. to answer 404 or 409 in an API).
+ * Failures without a class of their own (e.g. connection errors) stay plain Errors.
+ */
+
+/**
+ * Base class of the tenant errors
+ */
+export class TenantError extends Error {
+  constructor(
+    message: string,
+    /** The schema the error is about */
+    readonly schemaName: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The tenant is not in schema_tracker, or its schema does not exist in the database
+ */
+export class TenantNotFoundError extends TenantError {}
+
+/**
+ * A tenant or schema with that name already exists
+ */
+export class TenantAlreadyExistsError extends TenantError {}
+
+/**
+ * The name is not a valid tenant schema name (see validateSchemaName())
+ */
+export class InvalidSchemaNameError extends TenantError {}
+
+/**
+ * Applying a tenant's migrations failed, or could not start (e.g. its migration lock was held)
+ * The original error is the `cause`. The failure is recorded in schema_tracker, and the schema
+ * is left as it was.
+ */
+export class MigrationFailedError extends TenantError {}
+
+/**
+ * The tenant is tracked but not `active` (e.g. suspended, or its last migration failed), so
+ * withTenantSchema() and withTenantRole() refuse to run queries for it
+ */
+export class TenantNotActiveError extends TenantError {
+  constructor(
+    message: string,
+    schemaName: string,
+    /** The tenant's status in schema_tracker */
+    readonly status: string,
+    options?: ErrorOptions
+  ) {
+    super(message, schemaName, options);
+  }
+}
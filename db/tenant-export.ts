@@ -0,0 +1,285 @@
+import postgres from 'postgres';
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import {
+  escapeSchemaName,
+  createPostgresClient,
+  getAppliedMigrationRecords,
+  getExpectedMigrations,
+  schemaExistsInDatabase,
+  getTablesInSchema,
+  findSchemaInTracker,
+  beginTransaction,
+  SqlClient,
+} from './script-utils';
+import {
+  validateSchemaName,
+  getTenantTableNames,
+  getInsertableColumnList,
+  provisionTenant,
+  TENANT_MIGRATIONS_FOLDER,
+} from './tenant-schema';
+import { TenantNotFoundError } from './tenant-errors';
+
+// Rows fetched per cursor batch on export, and inserted per statement on import
+const EXPORT_BATCH_SIZE = 1000;
+const IMPORT_BATCH_SIZE = 1000;
+
+export const EXPORT_FORMAT = 'drizzle-multi-tenant-export';
+export const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * manifest.json written next to the per-table NDJSON files
+ */
+export interface TenantExportManifest {
+  format: typeof EXPORT_FORMAT;
+  formatVersion: number;
+  schema: string;
+  exportedAt: string;
+  /** Latest migration applied to the tenant when it was exported */
+  migrationVersion: string | null;
+  migrations: Array<{ tag: string; hash: string }>;
+  tables: Array<{ name: string; file: string; rows: number }>;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Exports one tenant as NDJSON: `<table>.ndjson` per tenant table plus `manifest.json`
+ *
+ * Every row is serialized by Postgres with `to_jsonb()`, so import can restore the exact
+ * column types with `jsonb_populate_recordset()`. All tables are read in one
+ * REPEATABLE READ, READ ONLY transaction, so the export is a consistent snapshot.
+ *
+ * @param schemaName - Tenant schema to export
+ * @param outDir - Directory to write to (created if missing; must not already hold an export)
+ * @param options.client - Existing client/pool on the tenant's shard (not closed here); a client on that shard is created otherwise
+ * @returns The manifest that was written
+ */
+export async function exportTenant(
+  schemaName: string,
+  outDir: string,
+  options: { client?: postgres.Sql } = {}
+): Promise<TenantExportManifest> {
+  validateSchemaName(schemaName);
+
+  const manifestPath = path.join(outDir, 'manifest.json');
+  if (fs.existsSync(manifestPath)) {
+    throw new Error(`${manifestPath} already exists; choose an empty directory`);
+  }
+
+  const client = options.client ?? createPostgresClient({}, (await findSchemaInTracker(schemaName))?.shard);
+
+  try {
+    if (!(await schemaExistsInDatabase(client, schemaName))) {
+      throw new TenantNotFoundError(`Schema ${schemaName} does not exist in database`, schemaName);
+    }
+
+    fs.mkdirSync(outDir, { recursive: true });
+
+    return await beginTransaction(client, 'isolation level repeatable read read only', async (txClient) => {
+      const migrations = await getAppliedMigrationRecords(txClient, schemaName);
+      const existingTables = new Set(await getTablesInSchema(txClient, schemaName, []));
+      const tables: TenantExportManifest['tables'] = [];
+
+      for (const table of getTenantTableNames().filter((name) => existingTables.has(name))) {
+        const file = `${table}.ndjson`;
+        const handle = await fs.promises.open(path.join(outDir, file), 'w');
+        let rows = 0;
+        try {
+          await txClient
+            .unsafe(`SELECT to_jsonb(t)::text AS row FROM ${escapeSchemaName(schemaName)}.${quoteIdentifier(table)} t`)
+            .cursor(EXPORT_BATCH_SIZE, async (batch) => {
+              await handle.write(batch.map(({ row }) => `${row}\n`).join(''));
+              rows += batch.length;
+            });
+        } finally {
+          await handle.close();
+        }
+        tables.push({ name: table, file, rows });
+      }
+
+      const manifest: TenantExportManifest = {
+        format: EXPORT_FORMAT,
+        formatVersion: EXPORT_FORMAT_VERSION,
+        schema: schemaName,
+        exportedAt: new Date().toISOString(),
+        migrationVersion: migrations[migrations.length - 1]?.tag ?? null,
+        migrations,
+        tables,
+      };
+      fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+      return manifest;
+    });
+  } finally {
+    if (!options.client) {
+      await client.end();
+    }
+  }
+}
+
+/**
+ * Reads and checks an export's manifest against the current tenant journal
+ *
+ * @throws Error if the manifest is not an export, or its migration version is not the journal's latest
+ */
+export function readExportManifest(exportDir: string): TenantExportManifest {
+  const manifestPath = path.join(exportDir, 'manifest.json');
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`No manifest.json in ${exportDir}`);
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as TenantExportManifest;
+  if (manifest.format !== EXPORT_FORMAT || manifest.formatVersion !== EXPORT_FORMAT_VERSION) {
+    throw new Error(`${manifestPath} is not a version ${EXPORT_FORMAT_VERSION} tenant export`);
+  }
+
+  // The rows only fit a schema built by exactly the same migrations
+  const expected = getExpectedMigrations(TENANT_MIGRATIONS_FOLDER);
+  const latest = expected[expected.length - 1] ?? null;
+  const exported = manifest.migrations.map((m) => m.tag);
+  if (manifest.migrationVersion !== latest || exported.join(',') !== expected.join(',')) {
+    throw new Error(
+      `Export is at migration ${manifest.migrationVersion ?? '(none)'} but the current journal is at ${latest ?? '(none)'}. ` +
+        'Import it into an environment at the same version, or re-export after migrating the source tenant'
+    );
+  }
+
+  return manifest;
+}
+
+/**
+ * Orders tables so every table comes after the tables its foreign keys reference
+ */
+export async function orderByForeignKeys(client: SqlClient, schemaName: string, tables: string[]): Promise<string[]> {
+  const references = await client`
+    SELECT cl.relname AS table_name, ref.relname AS referenced
+    FROM pg_constraint c
+    JOIN pg_class cl ON cl.oid = c.conrelid
+    JOIN pg_class ref ON ref.oid = c.confrelid
+    JOIN pg_namespace n ON n.oid = cl.relnamespace
+    WHERE c.contype = 'f' AND n.nspname = ${schemaName} AND c.conrelid <> c.confrelid
+  `;
+
+  const ordered: string[] = [];
+  const visit = (table: string, visiting: string[]) => {
+    if (ordered.includes(table) || visiting.includes(table)) {
+      return;
+    }
+    references
+      .filter((r) => r.table_name === table && tables.includes(r.referenced))
+      .forEach((r) => visit(r.referenced, [...visiting, table]));
+    ordered.push(table);
+  };
+  tables.forEach((table) => visit(table, []));
+  return ordered;
+}
+
+/**
+ * Loads one NDJSON file into a table in batches
+ * @returns Number of rows inserted
+ */
+async function importTable(tx: SqlClient, schemaName: string, table: string, file: string): Promise<number> {
+  const qualifiedTable = `${escapeSchemaName(schemaName)}.${quoteIdentifier(table)}`;
+  const columnList = await getInsertableColumnList(tx, schemaName, table);
+  let batch: string[] = [];
+  let rows = 0;
+
+  const flush = async () => {
+    if (batch.length === 0) {
+      return;
+    }
+    const result = await tx.unsafe(
+      `INSERT INTO ${qualifiedTable} (${columnList}) OVERRIDING SYSTEM VALUE
+       SELECT ${columnList} FROM jsonb_populate_recordset(NULL::${qualifiedTable}, $1::jsonb)`,
+      [`[${batch.join(',')}]`]
+    );
+    rows += result.count;
+    batch = [];
+  };
+
+  const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line.trim()) {
+      batch.push(line);
+    }
+    if (batch.length >= IMPORT_BATCH_SIZE) {
+      await flush();
+    }
+  }
+  await flush();
+
+  // Serial columns: continue after the imported ids
+  const serialColumns = await tx`
+    SELECT column_name, pg_get_serial_sequence(${qualifiedTable}, column_name) AS sequence
+    FROM information_schema.columns
+    WHERE table_schema = ${schemaName} AND table_name = ${table} AND column_default LIKE 'nextval(%'
+  `;
+  for (const { column_name: column, sequence } of serialColumns) {
+    if (sequence) {
+      await tx.unsafe(
+        `SELECT setval('${sequence.replace(/'/g, "''")}', COALESCE(MAX(${quoteIdentifier(column)}), 0) + 1, false) FROM ${qualifiedTable}`
+      );
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Imports an export into a NEW, freshly provisioned tenant
+ *
+ * Refuses exports whose migration version differs from the current journal. The tenant is
+ * provisioned with provisionTenant() and the rows are loaded in one transaction while it
+ * is still `provisioning`; if anything fails (including a row count that does not match
+ * the manifest), the schema and its tracker row are removed again.
+ *
+ * @param exportDir - Directory written by exportTenant()
+ * @param options.schemaName - Tenant to create (default: the exported schema's name)
+ * @param options.shard - Shard to create the tenant on (default: DATABASE_URL)
+ * @param options.client - Existing DATABASE_URL client/pool to run on (not closed here); a dedicated client is created otherwise
+ * @returns Rows imported per table
+ */
+export async function importTenant(
+  exportDir: string,
+  options: { schemaName?: string; shard?: string; client?: postgres.Sql; logPrefix?: string } = {}
+): Promise<Array<{ table: string; rows: number }>> {
+  const manifest = readExportManifest(exportDir);
+  const schemaName = options.schemaName ?? manifest.schema;
+  validateSchemaName(schemaName);
+
+  const client = options.client ?? createPostgresClient();
+  const imported: Array<{ table: string; rows: number }> = [];
+
+  try {
+    await provisionTenant(schemaName, {
+      client,
+      shard: options.shard,
+      logPrefix: options.logPrefix ?? '',
+      populate: async (shardClient) => {
+        await beginTransaction(shardClient, async (txClient) => {
+          const byName = new Map(manifest.tables.map((t) => [t.name, t]));
+          const tables = await orderByForeignKeys(txClient, schemaName, [...byName.keys()]);
+
+          for (const table of tables) {
+            const { file, rows: expectedRows } = byName.get(table)!;
+            const rows = await importTable(txClient, schemaName, table, path.join(exportDir, file));
+            if (rows !== expectedRows) {
+              throw new Error(`${table}: imported ${rows} row(s) but the manifest lists ${expectedRows}`);
+            }
+            imported.push({ table, rows });
+          }
+        });
+      },
+    });
+  } finally {
+    if (!options.client) {
+      await client.end();
+    }
+  }
+
+  return imported;
+}
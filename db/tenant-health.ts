@@ -0,0 +1,437 @@
+import postgres from 'postgres';
+import path from 'path';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import * as schemaPublic from './schema-public';
+import * as schemaTenant from './schema-tenant';
+import {
+  ShardClients,
+  schemaExistsInDatabase,
+  tableExistsInSchema,
+  getExpectedMigrations,
+  getAppliedMigrations,
+} from './script-utils';
+import { DEFAULT_SHARD } from './shards';
+import { checkMigrationIntegrity } from './migration-utils';
+import { findUntrackedSchemas, TENANT_MIGRATIONS_FOLDER } from './tenant-schema';
+import { verifyTenantRoleGrants } from './tenant-roles';
+import { detectSchemaDrift, getDeclaredTables } from '../shared/schema-drift';
+
+/**
+ * Health checks for every tracked tenant and the public schema, behind `pnpm db:health:check`
+ * and TenantManager.health()
+ *
+ * Checks only: nothing is changed. Repairs for the `fixable` issues are in tenant-repair.ts.
+ */
+
+const PUBLIC_MIGRATIONS_FOLDER = path.join(process.cwd(), 'db', 'migrations', 'public');
+
+/**
+ * Issue kinds health-check `--fix` knows a repair for
+ */
+export type FixableIssueKind = 'missing-migrations' | 'missing-migrations-table' | 'missing-schema' | 'orphaned';
+
+export interface FixableIssue {
+  kind: FixableIssueKind;
+  schema: string;
+  shard: string;
+  issue: string;
+}
+
+/**
+ * Findings of checkTenantHealth()
+ */
+export interface TenantHealthReport {
+  totalSchemas: number;
+  healthySchemas: string[];
+  unhealthySchemas: Array<{ schema: string; issue: string }>;
+  orphanedSchemas: Array<{ schema: string; shard: string }>;
+  // Applied before content hashes were recorded - cannot be verified until re-baselined
+  unverifiedSchemas: string[];
+  // Deliberately held at an older migration by db:rollback:tenant
+  pinnedSchemas: Array<{ schema: string; migration: string }>;
+  // Frozen by db:suspend:tenant - reported separately, not checked further
+  suspendedSchemas: Array<{ schema: string; since: string }>;
+  // Tenants whose dedicated role (schema_tracker.db_role) is missing grants or can reach other schemas
+  roleGrantIssues: Array<{ schema: string; role: string; issue: string }>;
+  // Tenants whose tables differ from schema-tenant.ts (e.g. a manual ALTER on one tenant)
+  driftedSchemas: Array<{ schema: string; table: string; issue: string }>;
+  // Issues --fix knows a repair for
+  fixable: FixableIssue[];
+  quarantinedSchemas: Array<{ schema: string; shard: string }>;
+  // How many tenants had their role grants and their drift checked
+  checked: { roleGrants: number; drift: number };
+}
+
+/**
+ * Schema name, with its shard unless it is on the default database
+ */
+export function formatOnShard(schema: string, shard: string): string {
+  return shard === DEFAULT_SHARD ? schema : `${schema} (shard ${shard})`;
+}
+
+/**
+ * Checks the public schema's migrations and every tenant in schema_tracker
+ *
+ * Per tenant: status, schema and tables present, applied migrations against the journal
+ * (up to the pinned migration), migration file hashes, dedicated role grants, and schema
+ * drift against schema-tenant.ts. Also finds orphaned and quarantined schemas on every shard.
+ * A check that fails with an error is reported as an unhealthy schema, not thrown.
+ *
+ * @param client - DATABASE_URL client (not closed here)
+ * @param shardClients - Clients for the shards tenants live on (not closed here)
+ * @param options.log - Receives the progress report health-check prints (default: quiet)
+ * @param options.onRecord - Called with each finding as it is made (types as in health-check's NDJSON output)
+ * @param options.migrationsFolders - Migrations to check against (default: db/migrations/public and TENANT_MIGRATIONS_FOLDER)
+ */
+export async function checkTenantHealth(
+  client: postgres.Sql,
+  shardClients: ShardClients,
+  options: {
+    log?: (message?: string) => void;
+    onRecord?: (type: 'schema' | 'orphaned' | 'quarantined' | 'role-grant-issue' | 'drift', data: object) => void;
+    migrationsFolders?: { public?: string; tenant?: string };
+  } = {}
+): Promise<TenantHealthReport> {
+  const { log = () => {}, onRecord = () => {} } = options;
+  const publicMigrationsFolder = options.migrationsFolders?.public ?? PUBLIC_MIGRATIONS_FOLDER;
+  const tenantMigrationsFolder = options.migrationsFolders?.tenant ?? TENANT_MIGRATIONS_FOLDER;
+  const db = drizzle(client, { schema: { ...schemaPublic } });
+  const results: TenantHealthReport = {
+    totalSchemas: 0,
+    healthySchemas: [],
+    unhealthySchemas: [],
+    orphanedSchemas: [],
+    unverifiedSchemas: [],
+    pinnedSchemas: [],
+    suspendedSchemas: [],
+    roleGrantIssues: [],
+    driftedSchemas: [],
+    fixable: [],
+    quarantinedSchemas: [],
+    checked: { roleGrants: 0, drift: 0 },
+  };
+
+  // Check public schema migrations (schema_tracker) - applied tags and file hashes
+  log('Checking public schema migrations...');
+  try {
+    const expectedPublic = getExpectedMigrations(publicMigrationsFolder);
+    const appliedPublic = new Set(await getAppliedMigrations(client, 'public'));
+    const missingPublic = expectedPublic.filter((m) => !appliedPublic.has(m));
+    const integrity = await checkMigrationIntegrity(client, 'public', publicMigrationsFolder);
+    const modified = integrity.filter((m) => m.status === 'modified').map((m) => m.tag);
+
+    if (missingPublic.length > 0) {
+      results.unhealthySchemas.push({
+        schema: 'public',
+        issue: `Missing migrations: ${missingPublic.join(', ')}`,
+      });
+      log(`✗ public: Missing migrations: ${missingPublic.join(', ')}`);
+    } else if (modified.length > 0) {
+      results.unhealthySchemas.push({
+        schema: 'public',
+        issue: `Migration files modified after apply: ${modified.join(', ')}`,
+      });
+      log(`✗ public: Migration files modified after apply: ${modified.join(', ')}`);
+    } else {
+      if (integrity.some((m) => m.status === 'legacy')) {
+        results.unverifiedSchemas.push('public');
+        log('⚠ public: Applied migrations have no content hash (run pnpm db:rebaseline:migrations public)');
+      }
+      log(`✓ public: All ${expectedPublic.length} migration(s) applied`);
+    }
+  } catch (error) {
+    results.unhealthySchemas.push({
+      schema: 'public',
+      issue: `Migration check failed: ${error instanceof Error ? error.message : String(error)}`,
+    });
+    log('✗ public: Migration check failed');
+  }
+  const publicIssue = results.unhealthySchemas.find((u) => u.schema === 'public');
+  onRecord('schema', {
+    schema: 'public',
+    shard: DEFAULT_SHARD,
+    status: publicIssue ? 'unhealthy' : 'healthy',
+    ...(publicIssue ? { issue: publicIssue.issue } : {}),
+    unverified: results.unverifiedSchemas.includes('public'),
+  });
+  log();
+
+  // Get all tracked schemas
+  const trackedSchemas = await db.select().from(schemaPublic.schemaTracker);
+  results.totalSchemas = trackedSchemas.length;
+
+  log(`Found ${trackedSchemas.length} tracked schema(s)\n`);
+
+  // Get expected migrations from journal
+  let expectedMigrations: string[] = [];
+  try {
+    expectedMigrations = getExpectedMigrations(tenantMigrationsFolder);
+    log(`Expected tenant migrations: ${expectedMigrations.length}`);
+    if (expectedMigrations.length > 0) {
+      log(`  ${expectedMigrations.join(', ')}\n`);
+    } else {
+      log('  (no migrations)\n');
+    }
+  } catch (error) {
+    log(`⚠ Could not read migration journal: ${error instanceof Error ? error.message : String(error)}\n`);
+  }
+
+  // Check each tracked schema
+  for (const { name, status, updatedAt, migrationError, pinnedMigration, shard } of trackedSchemas) {
+    try {
+      // Schema-level checks run on the database the tenant lives on (fails for an unconfigured shard)
+      const tenantClient = shardClients.get(shard);
+
+      // Suspended tenants have schema access revoked on purpose; only check the schema is still there
+      if (status === 'suspended') {
+        if (!(await schemaExistsInDatabase(tenantClient, name))) {
+          results.unhealthySchemas.push({ schema: name, issue: 'Suspended, but schema does not exist in database' });
+          log(`✗ ${name}: Suspended, but schema does not exist`);
+          continue;
+        }
+        results.suspendedSchemas.push({ schema: name, since: updatedAt.toISOString() });
+        log(`- ${name}: Suspended since ${updatedAt.toISOString()}`);
+        continue;
+      }
+
+      // Provisioning and deleting are transient; a tenant left in either was interrupted
+      if (status === 'provisioning' || status === 'deleting') {
+        results.unhealthySchemas.push({
+          schema: name,
+          issue: `Stuck in ${status} since ${updatedAt.toISOString()}`,
+        });
+        log(`✗ ${name}: Stuck in ${status}`);
+        continue;
+      }
+
+      // A failed upgrade leaves the schema intact but behind; surface the recorded error
+      if (migrationError) {
+        results.unhealthySchemas.push({
+          schema: name,
+          issue: `Last migration failed: ${migrationError}`,
+        });
+        log(`✗ ${name}: Last migration failed`);
+        continue;
+      }
+
+      // Check if schema exists
+      const schemaExists = await schemaExistsInDatabase(tenantClient, name);
+
+      if (!schemaExists) {
+        results.unhealthySchemas.push({
+          schema: name,
+          issue: 'Schema does not exist in database',
+        });
+        results.fixable.push({ kind: 'missing-schema', schema: name, shard, issue: 'Schema does not exist in database' });
+        log(`✗ ${name}: Schema does not exist`);
+        continue;
+      }
+
+      // Check if dummy_table exists in schema
+      const tableExists = await tableExistsInSchema(tenantClient, name, 'dummy_table');
+
+      if (!tableExists) {
+        results.unhealthySchemas.push({
+          schema: name,
+          issue: 'dummy_table does not exist',
+        });
+        log(`✗ ${name}: dummy_table missing`);
+        continue;
+      }
+
+      // Check migration status - verify all expected migrations are applied
+      try {
+        // Check if __drizzle_migrations table exists in tenant schema
+        const migrationsTableExists = await tableExistsInSchema(tenantClient, name, '__drizzle_migrations');
+        
+        if (!migrationsTableExists) {
+          results.unhealthySchemas.push({
+            schema: name,
+            issue: '__drizzle_migrations table does not exist',
+          });
+          results.fixable.push({
+            kind: 'missing-migrations-table',
+            schema: name,
+            shard,
+            issue: '__drizzle_migrations table does not exist',
+          });
+          log(`✗ ${name}: Migration tracking table missing`);
+          continue;
+        }
+
+        // A pinned tenant is expected to stop at its pinned migration
+        let schemaExpected = expectedMigrations;
+        if (pinnedMigration) {
+          const pinnedIndex = expectedMigrations.indexOf(pinnedMigration);
+          if (pinnedIndex === -1) {
+            results.unhealthySchemas.push({
+              schema: name,
+              issue: `Pinned migration ${pinnedMigration} is not in the journal`,
+            });
+            log(`✗ ${name}: Pinned migration ${pinnedMigration} is not in the journal`);
+            continue;
+          }
+          schemaExpected = expectedMigrations.slice(0, pinnedIndex + 1);
+        }
+
+        // Get applied migrations for this schema
+        const appliedMigrations = await getAppliedMigrations(tenantClient, name);
+        const appliedSet = new Set(appliedMigrations);
+        const expectedSet = new Set(schemaExpected);
+
+        // Check for missing migrations
+        const missingMigrations = schemaExpected.filter((m) => !appliedSet.has(m));
+        // Check for extra migrations (shouldn't happen, but good to detect)
+        const extraMigrations = appliedMigrations.filter((m) => !expectedSet.has(m));
+
+        if (missingMigrations.length > 0 || extraMigrations.length > 0) {
+          const issues: string[] = [];
+          if (missingMigrations.length > 0) {
+            issues.push(`Missing migrations: ${missingMigrations.join(', ')}`);
+          }
+          if (extraMigrations.length > 0) {
+            issues.push(`Extra migrations: ${extraMigrations.join(', ')}`);
+          }
+          results.unhealthySchemas.push({
+            schema: name,
+            issue: `Migration mismatch: ${issues.join('; ')}`,
+          });
+          // Extra migrations need a person; only a tenant that is simply behind can be migrated
+          if (extraMigrations.length === 0) {
+            results.fixable.push({ kind: 'missing-migrations', schema: name, shard, issue: issues.join('; ') });
+          }
+          log(`✗ ${name}: ${issues.join('; ')}`);
+          continue;
+        }
+
+        // Check applied migration files haven't been edited since they were applied
+        const integrity = await checkMigrationIntegrity(tenantClient, name, tenantMigrationsFolder);
+        const modified = integrity.filter((m) => m.status === 'modified').map((m) => m.tag);
+
+        if (modified.length > 0) {
+          results.unhealthySchemas.push({
+            schema: name,
+            issue: `Migration files modified after apply: ${modified.join(', ')}`,
+          });
+          log(`✗ ${name}: Migration files modified after apply: ${modified.join(', ')}`);
+          continue;
+        }
+
+        if (integrity.some((m) => m.status === 'legacy')) {
+          results.unverifiedSchemas.push(name);
+          log(`⚠ ${name}: Applied migrations have no content hash (run pnpm db:rebaseline:migrations ${name})`);
+        }
+
+        // All migrations match
+        if (pinnedMigration) {
+          results.pinnedSchemas.push({ schema: name, migration: pinnedMigration });
+          log(
+            `✓ ${name}: Pinned at ${pinnedMigration} (${schemaExpected.length} of ${expectedMigrations.length} migration(s) applied)`
+          );
+        } else if (expectedMigrations.length > 0) {
+          log(`✓ ${name}: All ${expectedMigrations.length} migration(s) applied`);
+        }
+      } catch (migrationError) {
+        results.unhealthySchemas.push({
+          schema: name,
+          issue: `Migration check failed: ${migrationError instanceof Error ? migrationError.message : String(migrationError)}`,
+        });
+        log(`✗ ${name}: Migration check failed`);
+        continue;
+      }
+
+      results.healthySchemas.push(name);
+      log(`✓ ${name}: Healthy`);
+    } catch (error) {
+      results.unhealthySchemas.push({
+        schema: name,
+        issue: error instanceof Error ? error.message : String(error),
+      });
+      log(`✗ ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      const unhealthy = results.unhealthySchemas.find((u) => u.schema === name);
+      onRecord('schema', {
+        schema: name,
+        shard,
+        status: unhealthy ? 'unhealthy' : status === 'suspended' ? 'suspended' : 'healthy',
+        ...(unhealthy ? { issue: unhealthy.issue } : {}),
+        ...(pinnedMigration ? { pinnedMigration } : {}),
+        unverified: results.unverifiedSchemas.includes(name),
+      });
+    }
+  }
+
+  // Check for orphaned schemas (exist in a shard's database but are not tracked on that shard)
+  log('\nChecking for orphaned schemas...');
+  const untracked = await findUntrackedSchemas(shardClients, trackedSchemas);
+  for (const { schema, shard } of untracked.quarantined) {
+    results.quarantinedSchemas.push({ schema, shard });
+    onRecord('quarantined', { schema, shard });
+  }
+  for (const { schema, shard } of untracked.orphaned) {
+    results.orphanedSchemas.push({ schema, shard });
+    onRecord('orphaned', { schema, shard });
+    results.fixable.push({ kind: 'orphaned', schema, shard, issue: 'Orphaned (not in schema_tracker)' });
+  }
+
+  if (results.orphanedSchemas.length > 0) {
+    log(`Found ${results.orphanedSchemas.length} orphaned schema(s):`);
+    results.orphanedSchemas.forEach(({ schema, shard }) => {
+      log(`  - ${formatOnShard(schema, shard)}`);
+    });
+  } else {
+    log('No orphaned schemas found');
+  }
+  if (results.quarantinedSchemas.length > 0) {
+    log(
+      `Quarantined (drop by hand once inspected): ${results.quarantinedSchemas.map(({ schema, shard }) => formatOnShard(schema, shard)).join(', ')}`
+    );
+  }
+
+  // Check dedicated tenant roles can use their own schema and nothing else
+  // Suspended tenants are skipped: their role's USAGE is revoked on purpose
+  const roleTenants = trackedSchemas.filter(
+    (t) => t.dbRole && t.status !== 'suspended' && results.healthySchemas.includes(t.name)
+  );
+  if (roleTenants.length > 0) {
+    log('\nChecking tenant role grants...');
+    for (const { name, dbRole } of roleTenants) {
+      const issues = await verifyTenantRoleGrants(client, name, dbRole!);
+      issues.forEach((issue) => {
+        results.roleGrantIssues.push({ schema: name, role: dbRole!, issue });
+        onRecord('role-grant-issue', { schema: name, role: dbRole, issue });
+      });
+      if (issues.length > 0) {
+        log(`✗ ${name} (${dbRole}): ${issues.join('; ')}`);
+      } else {
+        log(`✓ ${name} (${dbRole}): Own schema only`);
+      }
+    }
+  }
+
+  // Compare the actual tables of each healthy tenant with schema-tenant.ts
+  // Pinned tenants are skipped: they are behind the definitions on purpose
+  const driftTenants = trackedSchemas.filter((t) => !t.pinnedMigration && results.healthySchemas.includes(t.name));
+  if (driftTenants.length > 0) {
+    log('\nChecking schema drift against schema-tenant.ts...');
+    const tenantTables = getDeclaredTables(schemaTenant);
+    for (const { name, shard } of driftTenants) {
+      const drift = await detectSchemaDrift(shardClients.get(shard), name, tenantTables, {
+        ignoreTables: ['__drizzle_migrations'],
+      });
+      drift.forEach(({ table, issue }) => {
+        results.driftedSchemas.push({ schema: name, table, issue });
+        onRecord('drift', { schema: name, table, issue });
+      });
+      if (drift.length > 0) {
+        log(`✗ ${name}: ${drift.length} difference(s)`);
+        drift.forEach(({ table, issue }) => log(`    ${table}: ${issue}`));
+      } else {
+        log(`✓ ${name}: Matches schema-tenant.ts`);
+      }
+    }
+  }
+
+  results.checked = { roleGrants: roleTenants.length, drift: driftTenants.length };
+  return results;
+}
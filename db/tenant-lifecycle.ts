@@ -0,0 +1,297 @@
+import postgres from 'postgres';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import { eq } from 'drizzle-orm';
+import * as schemaPublic from './schema-public';
+import { schemaTracker, tenantStatus } from './schema-public';
+import { escapeSchemaName, createShardClients, beginTransaction, tableExistsInSchema, SqlClient } from './script-utils';
+import { DEFAULT_SHARD } from './shards';
+import { TenantNotFoundError } from './tenant-errors';
+
+export type TenantStatus = (typeof tenantStatus.enumValues)[number];
+
+/**
+ * Allowed status changes: `from -> [to, ...]`
+ *
+ * provisioning -> active once the schema is migrated (a failed provisioning deletes the row)
+ * active <-> migration_failed as upgrades fail and succeed
+ * active / migration_failed <-> suspended (resuming returns to migration_failed if an error is recorded)
+ * anything -> deleting, which is final (the row is removed once the schema is dropped)
+ */
+export const TENANT_STATUS_TRANSITIONS: Record<TenantStatus, TenantStatus[]> = {
+  provisioning: ['active', 'deleting'],
+  active: ['suspended', 'migration_failed', 'deleting'],
+  suspended: ['active', 'migration_failed', 'deleting'],
+  migration_failed: ['active', 'suspended', 'deleting'],
+  deleting: ['deleting'], // Lets an interrupted drop be retried
+};
+
+/**
+ * Statuses that migrateAllTenantSchemas() and the other all-tenants runs leave alone
+ */
+export const SKIPPED_BY_BULK_MIGRATIONS: TenantStatus[] = ['provisioning', 'suspended', 'deleting'];
+
+/**
+ * Checks whether a tenant may move from one status to another
+ */
+export function canTransitionTenant(from: TenantStatus, to: TenantStatus): boolean {
+  return TENANT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Appends an entry to a tenant's history (`tenant_events`)
+ *
+ * Plain SQL rather than Drizzle, so it also runs on a beginTransaction() client. `details`
+ * goes in as JSON text: Drizzle replaces the json serializers of clients it wraps.
+ *
+ * @param client - Client to run on; pass the caller's transaction so the event commits with the change
+ * @param tenantId - schema_tracker.id, which stays the same across renames
+ * @param schemaName - The tenant's schema name at the time of the event
+ */
+export async function recordTenantEvent(
+  client: SqlClient,
+  tenantId: string,
+  schemaName: string,
+  event: string,
+  details?: Record<string, unknown>
+): Promise<void> {
+  await client`
+    INSERT INTO tenant_events (tenant_id, schema_name, event, details)
+    VALUES (${tenantId}, ${schemaName}, ${event}, ${details ? JSON.stringify(details) : null}::jsonb)
+  `;
+}
+
+/**
+ * Moves a tracked tenant to a new lifecycle status
+ *
+ * The check and the change are one conditional UPDATE (`WHERE status IN (...)`), so two
+ * callers racing on the same tenant cannot both make an invalid move. The change is
+ * recorded in `tenant_events` as `status_changed`. Plain SQL, like recordTenantEvent().
+ *
+ * @param client - Client to run on (a pool, single connection or transaction; not closed here)
+ * @param schemaName - The tracked tenant schema
+ * @param to - The new status
+ * @param options.from - Only move from these statuses (narrower than TENANT_STATUS_TRANSITIONS allows)
+ * @param options.set - Other schema_tracker columns to update in the same statement
+ * @throws Error if the tenant is not in schema_tracker or the move is not allowed from its current status
+ */
+export async function transitionTenantStatus(
+  client: SqlClient,
+  schemaName: string,
+  to: TenantStatus,
+  options: {
+    from?: TenantStatus[];
+    set?: Partial<Pick<typeof schemaTracker.$inferInsert, 'migrationError' | 'pinnedMigration' | 'migratedVersion'>>;
+  } = {}
+): Promise<void> {
+  const allowedFrom = tenantStatus.enumValues.filter(
+    (status) => canTransitionTenant(status, to) && (!options.from || options.from.includes(status))
+  );
+  // Columns missing from `set` (or undefined there) keep their value
+  const { migrationError, pinnedMigration, migratedVersion } = options.set ?? {};
+
+  const updated = await client<{ id: string }[]>`
+    UPDATE schema_tracker
+    SET status = ${to},
+        migration_error = CASE WHEN ${migrationError !== undefined} THEN ${migrationError ?? null} ELSE migration_error END,
+        pinned_migration = CASE WHEN ${pinnedMigration !== undefined} THEN ${pinnedMigration ?? null} ELSE pinned_migration END,
+        migrated_version = CASE WHEN ${migratedVersion !== undefined} THEN ${migratedVersion ?? null} ELSE migrated_version END,
+        updated_at = now()
+    WHERE name = ${schemaName} AND status = ANY(${allowedFrom}::tenant_status[])
+    RETURNING id
+  `;
+
+  if (updated.length === 0) {
+    const current = await getTenantStatus(client, schemaName);
+    if (!current) {
+      throw new TenantNotFoundError(`Schema ${schemaName} not found in schema_tracker`, schemaName);
+    }
+    throw new Error(
+      `Cannot move tenant ${schemaName} from ${current} to ${to}` +
+        (allowedFrom.length > 0 ? ` (allowed from: ${allowedFrom.join(', ')})` : '')
+    );
+  }
+
+  await recordTenantEvent(client, updated[0].id, schemaName, 'status_changed', { status: to });
+}
+
+/**
+ * Gets a tracked tenant's status, or undefined if it is not in schema_tracker
+ */
+export async function getTenantStatus(client: SqlClient, schemaName: string): Promise<TenantStatus | undefined> {
+  const [tracked] = await client<{ status: TenantStatus }[]>`SELECT status FROM schema_tracker WHERE name = ${schemaName}`;
+  return tracked?.status;
+}
+
+/**
+ * Gets the shard a tracked tenant lives on, or undefined if it is not in schema_tracker
+ */
+export async function getTenantShard(client: postgres.Sql, schemaName: string): Promise<string | undefined> {
+  const db = drizzle(client, { schema: { ...schemaPublic } });
+  const [tracked] = await db
+    .select({ shard: schemaTracker.shard })
+    .from(schemaTracker)
+    .where(eq(schemaTracker.name, schemaName));
+  return tracked?.shard;
+}
+
+/**
+ * application_name that withTenantSchema() sets for the duration of a tenant's transaction
+ * Lets suspendTenant() find and end that tenant's sessions in pg_stat_activity.
+ */
+export function getTenantApplicationName(schemaName: string): string {
+  return `tenant:${schemaName}`.slice(0, 63);
+}
+
+// What the application role and dedicated tenant roles get on a tenant schema's tables and sequences
+export const TENANT_TABLE_PRIVILEGES = ['SELECT', 'INSERT', 'UPDATE', 'DELETE'];
+export const TENANT_SEQUENCE_PRIVILEGES = 'USAGE, SELECT, UPDATE';
+
+/**
+ * Grants roles the use of a tenant schema
+ *
+ * USAGE on the schema, and DML on its tables and sequences (also for tables created later
+ * by migrations, through default privileges), but nothing on `__drizzle_migrations`, so
+ * application code cannot rewrite migration history. Safe to re-run.
+ *
+ * @param client - Client on the tenant's shard (a transaction is fine)
+ * @param roles - Escaped role names, comma-separated
+ */
+export async function grantTenantSchemaAccess(client: SqlClient, schemaName: string, roles: string): Promise<void> {
+  const escapedSchema = escapeSchemaName(schemaName);
+  await client.unsafe(`GRANT USAGE ON SCHEMA ${escapedSchema} TO ${roles}`);
+  await client.unsafe(`GRANT ${TENANT_TABLE_PRIVILEGES.join(', ')} ON ALL TABLES IN SCHEMA ${escapedSchema} TO ${roles}`);
+  await client.unsafe(`GRANT ${TENANT_SEQUENCE_PRIVILEGES} ON ALL SEQUENCES IN SCHEMA ${escapedSchema} TO ${roles}`);
+  await client.unsafe(
+    `ALTER DEFAULT PRIVILEGES IN SCHEMA ${escapedSchema} GRANT ${TENANT_TABLE_PRIVILEGES.join(', ')} ON TABLES TO ${roles}`
+  );
+  await client.unsafe(
+    `ALTER DEFAULT PRIVILEGES IN SCHEMA ${escapedSchema} GRANT ${TENANT_SEQUENCE_PRIVILEGES} ON SEQUENCES TO ${roles}`
+  );
+  if (await tableExistsInSchema(client, schemaName, '__drizzle_migrations')) {
+    await client.unsafe(`REVOKE ALL ON ${escapedSchema}."__drizzle_migrations" FROM ${roles}`);
+  }
+}
+
+/**
+ * Gives the application role (`TENANT_APP_ROLE`) the use of a new tenant schema (see grantTenantSchemaAccess())
+ *
+ * Runs wherever a tenant schema is created: provisioning, clone, move and adopt. Without
+ * TENANT_APP_ROLE nothing is granted; the application then connects as the schema owner.
+ *
+ * @param client - Client on the tenant's shard
+ */
+export async function grantTenantAppRole(client: SqlClient, schemaName: string): Promise<void> {
+  if (process.env.TENANT_APP_ROLE) {
+    await grantTenantSchemaAccess(client, schemaName, escapeSchemaName(process.env.TENANT_APP_ROLE));
+  }
+}
+
+/**
+ * Role whose access suspendTenant() revokes: `TENANT_APP_ROLE`
+ *
+ * Required: revoking from the DATABASE_URL user instead would lock out the migrate, export
+ * and health tools (which run as it), while it owns the schema and could grant itself
+ * access again, so the application would not be isolated either.
+ * @throws Error if TENANT_APP_ROLE is unset
+ */
+function getTenantAppRole(): string {
+  if (!process.env.TENANT_APP_ROLE) {
+    throw new Error(
+      'TENANT_APP_ROLE environment variable is required to suspend or resume a tenant ' +
+        '(the role the application connects as, not the DATABASE_URL user)'
+    );
+  }
+  return process.env.TENANT_APP_ROLE;
+}
+
+/**
+ * Roles that suspend/resume revoke and restore schema access for: the application role,
+ * plus the tenant's dedicated role if it has one (see tenant-roles.ts)
+ * @throws Error if the application role is the connecting user
+ */
+async function getTenantAccessRoles(client: SqlClient, schemaName: string, appRole: string): Promise<string> {
+  const [{ user }] = await client`SELECT current_user AS user`;
+  if (user === appRole) {
+    throw new Error(`TENANT_APP_ROLE (${appRole}) is the DATABASE_URL user; set it to the role the application connects as`);
+  }
+  const [tracked] = await client<{ dbRole: string | null }[]>`
+    SELECT db_role AS "dbRole" FROM schema_tracker WHERE name = ${schemaName}
+  `;
+  return [escapeSchemaName(appRole), ...(tracked?.dbRole ? [escapeSchemaName(tracked.dbRole)] : [])].join(', ');
+}
+
+/**
+ * Suspends a tenant: blocks database access to its schema without deleting anything
+ *
+ * In one transaction, moves the tenant to `suspended` and revokes USAGE on its schema
+ * from the application role (`TENANT_APP_ROLE`, required) and from the
+ * tenant's dedicated role, if it has one. Then
+ * ends the tenant's open sessions, found by the application_name withTenantSchema() sets.
+ * Superusers bypass privilege checks, so the application must not connect as one;
+ * withTenantSchema() also refuses the tenant once it is no longer `active`.
+ * For a tenant on another shard, the REVOKE and the session cleanup run on that shard;
+ * the REVOKE runs before the status change commits.
+ *
+ * @param client - DATABASE_URL client to run on (not closed here)
+ * @returns Number of sessions that were terminated
+ * @throws Error if TENANT_APP_ROLE is unset, or the tenant is not tracked or cannot be suspended from its current status
+ */
+export async function suspendTenant(client: postgres.Sql, schemaName: string): Promise<number> {
+  const appRole = getTenantAppRole();
+  const shard = (await getTenantShard(client, schemaName)) ?? DEFAULT_SHARD;
+  const shardClients = createShardClients(client);
+
+  try {
+    await beginTransaction(client, async (txClient) => {
+      await transitionTenantStatus(txClient, schemaName, 'suspended');
+      const roles = await getTenantAccessRoles(txClient, schemaName, appRole);
+      const schemaClient = shard === DEFAULT_SHARD ? txClient : shardClients.get(shard);
+      await schemaClient.unsafe(`REVOKE USAGE ON SCHEMA ${escapeSchemaName(schemaName)} FROM ${roles}`);
+    });
+
+    const terminated = await shardClients.get(shard)`
+      SELECT pg_terminate_backend(pid) AS terminated
+      FROM pg_stat_activity
+      WHERE application_name = ${getTenantApplicationName(schemaName)}
+        AND pid <> pg_backend_pid()
+    `;
+    return terminated.filter((row) => row.terminated).length;
+  } finally {
+    await shardClients.end();
+  }
+}
+
+/**
+ * Resumes a suspended tenant: restores the application role's (and its dedicated role's) access to its schema
+ *
+ * Re-applies the full grants (grantTenantSchemaAccess()), not just USAGE, so a tenant created
+ * before its roles were granted anything becomes usable too. The tenant goes back to `active`,
+ * or to `migration_failed` if an upgrade error is still recorded. withTenantSchema() serves it
+ * again only once it is `active`.
+ *
+ * @param client - DATABASE_URL client to run on (not closed here)
+ * @throws Error if TENANT_APP_ROLE is unset, or the tenant is not tracked or not suspended
+ */
+export async function resumeTenant(client: postgres.Sql, schemaName: string): Promise<TenantStatus> {
+  const appRole = getTenantAppRole();
+  const shardClients = createShardClients(client);
+
+  try {
+    return await beginTransaction(client, async (txClient) => {
+      // Plain SQL: Drizzle cannot run on a transaction client
+      const [tracked] = await txClient<{ migrationError: string | null; shard: string }[]>`
+        SELECT migration_error AS "migrationError", shard FROM schema_tracker WHERE name = ${schemaName}
+      `;
+
+      const status: TenantStatus = tracked?.migrationError ? 'migration_failed' : 'active';
+      await transitionTenantStatus(txClient, schemaName, status, { from: ['suspended'] });
+      const roles = await getTenantAccessRoles(txClient, schemaName, appRole);
+      const shard = tracked?.shard ?? DEFAULT_SHARD;
+      const schemaClient = shard === DEFAULT_SHARD ? txClient : shardClients.get(shard);
+      await grantTenantSchemaAccess(schemaClient, schemaName, roles);
+      return status;
+    });
+  } finally {
+    await shardClients.end();
+  }
+}
@@ -0,0 +1,275 @@
+import postgres from 'postgres';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import { eq } from 'drizzle-orm';
+import * as schemaPublic from './schema-public';
+import { schemaTracker } from './schema-public';
+import { createPostgresClient, createShardClients, escapeSchemaName, schemaExistsInDatabase, ShardClients } from './script-utils';
+import { DEFAULT_SHARD } from './shards';
+import { MigrationPlan } from './migration-utils';
+import {
+  validateSchemaName,
+  provisionTenant,
+  upgradeTenantSchema,
+  planTenantMigrations,
+  planAllTenantMigrations,
+  migrateAllTenantSchemas,
+  MigrateAllTenantsOptions,
+  TENANT_QUARANTINE_PREFIX,
+} from './tenant-schema';
+import { checkTenantHealth, TenantHealthReport } from './tenant-health';
+import { transitionTenantStatus } from './tenant-lifecycle';
+import { dropTenantRole } from './tenant-roles';
+import { TenantError, TenantNotFoundError, TenantAlreadyExistsError, MigrationFailedError } from './tenant-errors';
+
+/**
+ * A tenant as recorded in schema_tracker
+ */
+export type Tenant = typeof schemaTracker.$inferSelect;
+
+export interface TenantManagerOptions {
+  /** DATABASE_URL client/pool to run on (not closed by close()); a pool of 2 connections is created otherwise.
+   *  Creating from the template needs at least 2 connections */
+  client?: postgres.Sql;
+  /** Clients for the shards tenants live on (not closed by close()); created from `client` otherwise */
+  shardClients?: ShardClients;
+  /** `tenant` migrations to apply; `public` ones health() checks against (default: db/migrations/public and db/migrations/tenant) */
+  migrationsFolders?: { public?: string; tenant?: string };
+}
+
+/**
+ * Tenant management for the schema-per-tenant approach, for use in an application or test
+ *
+ * Wraps the functions in tenant-schema.ts and friends behind one object. Methods return
+ * results or throw (TenantNotFoundError, TenantAlreadyExistsError, InvalidSchemaNameError,
+ * MigrationFailedError, or a plain Error for anything else); nothing logs or exits the
+ * process. The `pnpm db:*` scripts for these operations are wrappers around this class.
+ *
+ * @example
+ * ```typescript
+ * const tenants = new TenantManager();
+ * try {
+ *   await tenants.create('acme_corp', { fromTemplate: true });
+ * } catch (error) {
+ *   if (error instanceof TenantAlreadyExistsError) { ... }
+ * } finally {
+ *   await tenants.close();
+ * }
+ * ```
+ */
+export class TenantManager {
+  private readonly client: postgres.Sql;
+  private readonly shardClients: ShardClients;
+  private readonly db: ReturnType<typeof drizzle<typeof schemaPublic>>;
+
+  constructor(private readonly options: TenantManagerOptions = {}) {
+    this.client = options.client ?? createPostgresClient({ max: 2 });
+    this.shardClients = options.shardClients ?? createShardClients(this.client);
+    this.db = drizzle(this.client, { schema: { ...schemaPublic } });
+  }
+
+  /**
+   * Gets a tenant's schema_tracker row
+   * @throws TenantNotFoundError if the tenant is not tracked
+   */
+  async get(schemaName: string): Promise<Tenant> {
+    const tenant = await this.find(schemaName);
+    if (!tenant) {
+      throw new TenantNotFoundError(`Schema ${schemaName} not found in schema_tracker`, schemaName);
+    }
+    return tenant;
+  }
+
+  /**
+   * Lists every tenant in schema_tracker, by name
+   */
+  async list(): Promise<Tenant[]> {
+    return await this.db.select().from(schemaTracker).orderBy(schemaTracker.name);
+  }
+
+  /**
+   * Provisions a new tenant (see provisionTenant()) and returns it, `active`
+   *
+   * @param options.shard - Shard to create the schema on (default: DATABASE_URL)
+   * @param options.fromTemplate - Copy the template schema instead of replaying every migration
+   * @param options.withRole - Also create the tenant's dedicated database role
+   * @throws TenantAlreadyExistsError if the tenant is tracked or its schema exists
+   */
+  async create(
+    schemaName: string,
+    options: { shard?: string; fromTemplate?: boolean; withRole?: boolean } = {}
+  ): Promise<Tenant> {
+    validateSchemaName(schemaName);
+    if (await this.find(schemaName)) {
+      throw new TenantAlreadyExistsError(`Schema '${schemaName}' already exists in schema_tracker`, schemaName);
+    }
+
+    try {
+      await provisionTenant(schemaName, {
+        ...options,
+        client: this.client,
+        shardClients: this.options.shardClients,
+        migrationsFolder: this.options.migrationsFolders?.tenant,
+        logPrefix: '',
+      });
+    } catch (error) {
+      // A concurrent create of the same tenant fails on the unique schema_tracker.name
+      if (isUniqueViolation(error)) {
+        throw new TenantAlreadyExistsError(`Schema '${schemaName}' already exists in schema_tracker`, schemaName, { cause: error });
+      }
+      throw error;
+    }
+    return await this.get(schemaName);
+  }
+
+  /**
+   * Drops a tenant's schema (and its dedicated role) and removes it from schema_tracker
+   *
+   * A tracked tenant is moved to `deleting` first; call it again if a drop was interrupted.
+   * An untracked schema on the default database (e.g. an orphaned one) is only dropped with
+   * `untracked: true`, so a typo or a stale name cannot drop a schema nothing knows about.
+   * Schemas quarantined by health-check `--fix` (`_quarantine_*`) need no option.
+   *
+   * @param options.untracked - Also drop a schema that is not in schema_tracker
+   * @returns Whether the tenant was tracked, its shard, and the dropped role, if any
+   * @throws TenantNotFoundError if the tenant is not tracked (without `untracked` or the quarantine
+   *   prefix) or is neither tracked nor a schema on the default database
+   */
+  async drop(
+    schemaName: string,
+    options: { untracked?: boolean } = {}
+  ): Promise<{ tracked: boolean; shard: string; droppedRole: string | null }> {
+    // Quarantined schemas (health-check --fix) are dropped by name once inspected
+    const quarantined = schemaName.startsWith(TENANT_QUARANTINE_PREFIX);
+    if (!quarantined) {
+      validateSchemaName(schemaName);
+    }
+
+    const tenant = await this.find(schemaName);
+    const shard = tenant?.shard ?? DEFAULT_SHARD;
+    if (!tenant && !options.untracked && !quarantined) {
+      throw new TenantNotFoundError(`Schema ${schemaName} not found in schema_tracker (pass untracked: true to drop an untracked schema)`, schemaName);
+    }
+    if (!tenant && !(await schemaExistsInDatabase(this.client, schemaName))) {
+      throw new TenantNotFoundError(`Schema ${schemaName} not found in schema_tracker or the database`, schemaName);
+    }
+
+    if (tenant) {
+      await transitionTenantStatus(this.client, schemaName, 'deleting');
+    }
+    await this.shardClients.get(shard).unsafe(`DROP SCHEMA IF EXISTS ${escapeSchemaName(schemaName)} CASCADE`);
+    // Roles are cluster-wide, so they outlive the schema unless dropped explicitly
+    const droppedRole = await dropTenantRole(this.client, schemaName);
+    if (tenant) {
+      await this.db.delete(schemaTracker).where(eq(schemaTracker.name, schemaName));
+    }
+
+    return { tracked: Boolean(tenant), shard, droppedRole };
+  }
+
+  /**
+   * Applies a tenant's pending migrations (see upgradeTenantSchema()) and returns the updated tenant
+   *
+   * @param options.unpin - Clear the tenant's pinned migration and migrate to the latest
+   * @param options.lockTimeoutMs - How long to wait for another migrator of this tenant; 0 fails fast
+   * @throws TenantNotFoundError if the tenant is not tracked or its schema does not exist
+   * @throws MigrationFailedError if the migration fails (recorded in schema_tracker)
+   */
+  async migrate(schemaName: string, options: { unpin?: boolean; lockTimeoutMs?: number } = {}): Promise<Tenant> {
+    validateSchemaName(schemaName);
+    const tenant = await this.get(schemaName);
+    if (!(await schemaExistsInDatabase(this.shardClients.get(tenant.shard), schemaName))) {
+      throw new TenantNotFoundError(`Schema ${schemaName} does not exist in database`, schemaName);
+    }
+
+    try {
+      await upgradeTenantSchema(schemaName, {
+        client: this.client,
+        shardClients: this.shardClients,
+        migrationsFolder: this.options.migrationsFolders?.tenant,
+        logPrefix: '',
+        ...options,
+      });
+    } catch (error) {
+      if (error instanceof TenantError) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new MigrationFailedError(`Migrating ${schemaName} failed: ${message}`, schemaName, { cause: error });
+    }
+    return await this.get(schemaName);
+  }
+
+  /**
+   * Migrates every tenant in parallel (see migrateAllTenantSchemas()); per-tenant failures are in the result
+   * Runs on the client and shard clients passed to the constructor, or on its own pools sized for `concurrency`.
+   */
+  async migrateAll(options: MigrateAllTenantsOptions = {}): ReturnType<typeof migrateAllTenantSchemas> {
+    return await migrateAllTenantSchemas({
+      quiet: true,
+      client: this.options.client,
+      shardClients: this.options.shardClients,
+      migrationsFolder: this.options.migrationsFolders?.tenant,
+      ...options,
+    });
+  }
+
+  /**
+   * What migrate() would apply to a tenant, without executing anything
+   * @throws TenantNotFoundError if the schema does not exist
+   */
+  async plan(schemaName: string, options: { unpin?: boolean } = {}): Promise<MigrationPlan> {
+    return await planTenantMigrations(schemaName, {
+      client: this.client,
+      shardClients: this.shardClients,
+      migrationsFolder: this.options.migrationsFolders?.tenant,
+      ...options,
+    });
+  }
+
+  /**
+   * What migrateAll() would apply, per tenant, without executing anything
+   */
+  async planAll(): ReturnType<typeof planAllTenantMigrations> {
+    return await planAllTenantMigrations({
+      client: this.client,
+      shardClients: this.shardClients,
+      migrationsFolder: this.options.migrationsFolders?.tenant,
+    });
+  }
+
+  /**
+   * Checks every tenant and the public schema (see checkTenantHealth())
+   * Problems are returned in the report, not thrown.
+   */
+  async health(options: Parameters<typeof checkTenantHealth>[2] = {}): Promise<TenantHealthReport> {
+    return await checkTenantHealth(this.client, this.shardClients, {
+      migrationsFolders: this.options.migrationsFolders,
+      ...options,
+    });
+  }
+
+  /**
+   * Closes the connections this manager created (not the ones passed in)
+   */
+  async close(): Promise<void> {
+    if (!this.options.shardClients) {
+      await this.shardClients.end();
+    }
+    if (!this.options.client) {
+      await this.client.end();
+    }
+  }
+
+  private async find(schemaName: string): Promise<Tenant | undefined> {
+    const [tenant] = await this.db.select().from(schemaTracker).where(eq(schemaTracker.name, schemaName));
+    return tenant;
+  }
+}
+
+/**
+ * Whether a query failed on a unique constraint (Drizzle wraps the postgres error in `cause`)
+ */
+function isUniqueViolation(error: unknown): boolean {
+  const cause = error instanceof Error && error.cause ? error.cause : error;
+  return (cause as { code?: string } | undefined)?.code === '23505';
+}
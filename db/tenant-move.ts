@@ -0,0 +1,410 @@
+import postgres from 'postgres';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import { eq } from 'drizzle-orm';
+import * as schemaPublic from './schema-public';
+import { schemaTracker } from './schema-public';
+import {
+  escapeSchemaName,
+  createPostgresClient,
+  createShardClients,
+  schemaExistsInDatabase,
+  getTablesInSchema,
+  getAppliedMigrations,
+  beginTransaction,
+  SqlClient,
+} from './script-utils';
+import { applyMigrations, withMigrationLock, DEFAULT_LOCK_TIMEOUT_MS } from './migration-utils';
+import { validateSchemaName, getTenantTableNames, getInsertableColumnList, TENANT_MIGRATIONS_FOLDER } from './tenant-schema';
+import { orderByForeignKeys } from './tenant-export';
+import { recordTenantEvent, grantTenantAppRole, TenantStatus } from './tenant-lifecycle';
+import { getShardUrl } from './shards';
+import { TenantNotFoundError, TenantAlreadyExistsError } from './tenant-errors';
+
+// Rows read from the source per batch, and compared/written on the target per key range
+export const MOVE_BATCH_SIZE = 1000;
+
+// Statuses a tenant may be moved in; others are mid-change or frozen
+const MOVABLE_STATUSES: TenantStatus[] = ['active', 'migration_failed'];
+
+/**
+ * Row count and checksum of one moved table, identical on both shards when the move committed
+ */
+export interface MovedTable {
+  table: string;
+  rows: number;
+  checksum: string;
+}
+
+interface MoveTable {
+  name: string;
+  qualified: string;
+  keys: string[];
+  columns: string;
+  updates: string;
+}
+
+interface KeyRange {
+  sql: string;
+  params: string[];
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Describes a tenant table for batched copying; batches are key ranges of its primary key
+ * @throws Error if the table has no primary key
+ */
+async function describeTable(client: postgres.Sql, schemaName: string, table: string): Promise<MoveTable> {
+  const qualified = `${escapeSchemaName(schemaName)}.${quoteIdentifier(table)}`;
+  const keyColumns = await client`
+    SELECT a.attname
+    FROM pg_index i
+    JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+    WHERE i.indrelid = ${qualified}::regclass AND i.indisprimary
+    ORDER BY array_position(i.indkey::int2[], a.attnum)
+  `;
+  if (keyColumns.length === 0) {
+    throw new Error(`Table ${table} has no primary key, so it cannot be copied in batches`);
+  }
+
+  const keys = keyColumns.map(({ attname }) => quoteIdentifier(attname));
+  const columns = await getInsertableColumnList(client, schemaName, table);
+  const updates = columns
+    .split(', ')
+    .filter((column) => !keys.includes(column))
+    .map((column) => `${column} = EXCLUDED.${column}`)
+    .join(', ');
+  return { name: table, qualified, keys, columns, updates };
+}
+
+function keyList(table: MoveTable, alias: string): string {
+  return table.keys.map((key) => `${alias}.${key}`).join(', ');
+}
+
+/**
+ * Keys of rows `r` after `after` and up to `until` (rows serialized with to_jsonb(); null leaves that end open)
+ */
+function keyRange(table: MoveTable, after: string | null, until: string | null): KeyRange {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  const bound = (operator: string, row: string) => {
+    params.push(row);
+    conditions.push(
+      `(${keyList(table, 'r')}) ${operator} (SELECT ${keyList(table, 'b')} FROM jsonb_populate_record(NULL::${table.qualified}, $${params.length}::jsonb) b)`
+    );
+  };
+  if (after !== null) {
+    bound('>', after);
+  }
+  if (until !== null) {
+    bound('<=', until);
+  }
+  return { sql: conditions.length > 0 ? conditions.join(' AND ') : 'TRUE', params };
+}
+
+/**
+ * Row count and order-independent checksum of the rows in a key range
+ * Each row's to_jsonb() text is hashed and the hashes are summed, so no large string is built.
+ */
+async function rangeChecksum(client: SqlClient, table: MoveTable, range: KeyRange): Promise<{ rows: number; checksum: string }> {
+  const [result] = await client.unsafe(
+    `SELECT count(*)::int AS rows,
+            COALESCE(sum(('x' || left(md5(to_jsonb(r)::text), 15))::bit(60)::bigint), 0)::text AS checksum
+     FROM ${table.qualified} r
+     WHERE ${range.sql}`,
+    range.params
+  );
+  return { rows: result.rows, checksum: result.checksum };
+}
+
+/**
+ * Walks a table's source rows in primary key order and brings each key range on the target in line
+ *
+ * `delete` removes target rows whose key is gone from the source; `upsert` inserts new rows
+ * and updates changed ones. Ranges whose count and checksum already match are skipped, so
+ * repeating a pass only rewrites what changed since the last one.
+ *
+ * @returns Number of ranges that differed
+ */
+async function syncTable(
+  source: SqlClient,
+  target: postgres.Sql,
+  table: MoveTable,
+  pass: 'delete' | 'upsert',
+  batchSize: number
+): Promise<number> {
+  let after: string | null = null;
+  let changed = 0;
+
+  for (;;) {
+    const fromAfter = keyRange(table, after, null);
+    const batch = (
+      await source.unsafe(
+        `SELECT to_jsonb(r)::text AS row FROM ${table.qualified} r WHERE ${fromAfter.sql} ORDER BY ${keyList(table, 'r')} LIMIT ${batchSize}`,
+        fromAfter.params
+      )
+    ).map(({ row }) => row as string);
+
+    // A short batch is the last one; its range stays open so target rows past the end are covered too
+    const until = batch.length === batchSize ? batch[batch.length - 1] : null;
+    const range = keyRange(table, after, until);
+    const [sourceSum, targetSum] = await Promise.all([
+      rangeChecksum(source, table, range),
+      rangeChecksum(target, table, range),
+    ]);
+
+    if (sourceSum.rows !== targetSum.rows || sourceSum.checksum !== targetSum.checksum) {
+      changed++;
+      // Sent as text: a jsonb parameter would be JSON-encoded again by the driver
+      const rows = `[${batch.join(',')}]`;
+      if (pass === 'delete') {
+        await target.unsafe(
+          `DELETE FROM ${table.qualified} r
+           WHERE ${range.sql}
+             AND NOT EXISTS (
+               SELECT 1 FROM jsonb_populate_recordset(NULL::${table.qualified}, $${range.params.length + 1}::text::jsonb) s
+               WHERE (${keyList(table, 's')}) = (${keyList(table, 'r')})
+             )`,
+          [...range.params, rows]
+        );
+      } else if (batch.length > 0) {
+        await target.unsafe(
+          `INSERT INTO ${table.qualified} (${table.columns}) OVERRIDING SYSTEM VALUE
+           SELECT ${table.columns} FROM jsonb_populate_recordset(NULL::${table.qualified}, $1::text::jsonb)
+           ON CONFLICT (${table.keys.join(', ')}) DO ${table.updates ? `UPDATE SET ${table.updates}` : 'NOTHING'}`,
+          [rows]
+        );
+      }
+    }
+
+    if (until === null) {
+      return changed;
+    }
+    after = until;
+  }
+}
+
+/**
+ * One sync round over all tables: deletes child tables first, then upserts parent tables first,
+ * so foreign keys hold on the target throughout
+ * @returns Number of key ranges that differed
+ */
+async function syncTables(source: SqlClient, target: postgres.Sql, tables: MoveTable[], batchSize: number): Promise<number> {
+  let changed = 0;
+  for (const table of [...tables].reverse()) {
+    changed += await syncTable(source, target, table, 'delete', batchSize);
+  }
+  for (const table of tables) {
+    changed += await syncTable(source, target, table, 'upsert', batchSize);
+  }
+  return changed;
+}
+
+/**
+ * Sets the target's serial/identity sequences to where the source's are
+ */
+async function syncSequences(source: SqlClient, target: postgres.Sql, schemaName: string, table: MoveTable): Promise<void> {
+  const sequenceQuery = (client: SqlClient) => client`
+    SELECT column_name, pg_get_serial_sequence(${table.qualified}, column_name) AS sequence
+    FROM information_schema.columns
+    WHERE table_schema = ${schemaName} AND table_name = ${table.name}
+      AND (column_default LIKE 'nextval(%' OR is_identity = 'YES')
+  `;
+  const targetSequences = new Map((await sequenceQuery(target)).map((row) => [row.column_name, row.sequence]));
+
+  for (const { column_name: column, sequence } of await sequenceQuery(source)) {
+    const targetSequence = targetSequences.get(column);
+    if (!sequence || !targetSequence) {
+      continue;
+    }
+    const [state] = await source.unsafe(`SELECT last_value::text AS last_value, is_called FROM ${sequence}`);
+    await target`SELECT setval(${targetSequence}, ${state.last_value}::bigint, ${state.is_called})`;
+  }
+}
+
+/**
+ * Moves a tenant's schema to another shard while it stays online
+ *
+ * 1. Provisions the schema on the target shard with the source's migrations (up to its version)
+ * 2. Copies every table in primary key batches, then runs a catch-up round for rows written meanwhile;
+ *    the tenant stays fully usable
+ * 3. Locks the source tables `IN EXCLUSIVE MODE` (reads still work, writes wait), syncs what
+ *    changed since the catch-up and the sequences, and verifies row counts and checksums per table
+ * 4. Drops the source schema and switches `schema_tracker.shard` to the target (recording a
+ *    `moved` event), then releases the lock; writes that waited fail and are routed to the target on retry
+ *
+ * The source's migration lock is held throughout, so the tenant cannot be migrated mid-move.
+ * Any failure before the switch drops the target schema and leaves the tenant where it was.
+ * Both shards should use the same collation for text primary keys.
+ *
+ * @param schemaName - Tracked tenant to move (`active` or `migration_failed`)
+ * @param targetShard - Shard to move it to (see shards.ts)
+ * @param options.client - Existing DATABASE_URL pool with at least 3 connections (not closed here); one is created otherwise
+ * @param options.batchSize - Rows per batch (default: MOVE_BATCH_SIZE)
+ * @param options.lockTimeoutMs - How long to wait for the migration lock and the source table locks; 0 fails fast
+ * @param options.logPrefix - Prefix for progress logs; pass '' to run quietly
+ * @returns Row count and checksum per table
+ * @throws Error if the tenant cannot be moved, the target already has the schema, or verification fails
+ */
+export async function moveTenantToShard(
+  schemaName: string,
+  targetShard: string,
+  options: { client?: postgres.Sql; batchSize?: number; lockTimeoutMs?: number; logPrefix?: string } = {}
+): Promise<MovedTable[]> {
+  validateSchemaName(schemaName);
+  getShardUrl(targetShard); // Fails fast on an unknown shard
+
+  const { batchSize = MOVE_BATCH_SIZE, lockTimeoutMs = DEFAULT_LOCK_TIMEOUT_MS, logPrefix = '  ' } = options;
+  const log = (message: string) => logPrefix && console.log(`${logPrefix}${message}`);
+  // The migration lock, the locked source transaction and the tracker update each need a connection
+  const client = options.client ?? createPostgresClient({ max: 3 });
+  const shardClients = createShardClients(client, { max: 3 });
+  const db = drizzle(client, { schema: { ...schemaPublic } });
+
+  try {
+    const [tracked] = await db
+      .select({ id: schemaTracker.id, shard: schemaTracker.shard, status: schemaTracker.status, dbRole: schemaTracker.dbRole })
+      .from(schemaTracker)
+      .where(eq(schemaTracker.name, schemaName));
+    if (!tracked) {
+      throw new TenantNotFoundError(`Schema ${schemaName} not found in schema_tracker`, schemaName);
+    }
+    if (tracked.shard === targetShard) {
+      throw new Error(`Tenant ${schemaName} already lives on shard ${targetShard}`);
+    }
+    if (!MOVABLE_STATUSES.includes(tracked.status)) {
+      throw new Error(`Tenant ${schemaName} is ${tracked.status}; only ${MOVABLE_STATUSES.join(' or ')} tenants can be moved`);
+    }
+    if (tracked.dbRole) {
+      throw new Error(`Tenant ${schemaName} has a dedicated role (${tracked.dbRole}); dedicated roles are only supported on the default shard`);
+    }
+
+    const source = shardClients.get(tracked.shard);
+    const target = shardClients.get(targetShard);
+    const escapedSchemaName = escapeSchemaName(schemaName);
+
+    if (!(await schemaExistsInDatabase(source, schemaName))) {
+      throw new TenantNotFoundError(`Schema ${schemaName} does not exist on shard ${tracked.shard}`, schemaName);
+    }
+    if (await schemaExistsInDatabase(target, schemaName)) {
+      throw new TenantAlreadyExistsError(`Schema ${schemaName} already exists on shard ${targetShard}`, schemaName);
+    }
+
+    return await withMigrationLock(source, schemaName, lockTimeoutMs, async () => {
+      const applied = await getAppliedMigrations(source, schemaName);
+      if (applied.length === 0) {
+        throw new Error(`Tenant ${schemaName} has no applied migrations to rebuild it from`);
+      }
+
+      let targetCreated = false;
+      let switched = false;
+      try {
+        // 1. Same migrations as the source, so the target has the same tables and version
+        log(`Provisioning ${schemaName} on shard ${targetShard} (up to ${applied[applied.length - 1]})...`);
+        await target.unsafe(`CREATE SCHEMA ${escapedSchemaName}`);
+        targetCreated = true;
+        await applyMigrations({
+          client: target,
+          schemaName,
+          migrationsFolder: TENANT_MIGRATIONS_FOLDER,
+          targetTag: applied[applied.length - 1],
+          lockTimeoutMs,
+        });
+        const targetApplied = await getAppliedMigrations(target, schemaName);
+        if (targetApplied.join(',') !== applied.join(',')) {
+          throw new Error(
+            `Target migrations (${targetApplied.join(', ')}) do not match the source's (${applied.join(', ')}); migrate the tenant before moving it`
+          );
+        }
+        await grantTenantAppRole(target, schemaName);
+
+        const sourceTables = new Set(await getTablesInSchema(source, schemaName, []));
+        const names = await orderByForeignKeys(
+          source,
+          schemaName,
+          getTenantTableNames().filter((table) => sourceTables.has(table))
+        );
+        const tables = await Promise.all(names.map((table) => describeTable(source, schemaName, table)));
+
+        // 2. Online copy, then a catch-up round for writes made during the copy
+        log('Copying rows in batches...');
+        await syncTables(source, target, tables, batchSize);
+        const caughtUp = await syncTables(source, target, tables, batchSize);
+        log(`Catch-up: ${caughtUp} batch(es) changed during the copy`);
+
+        // 3 + 4. Read-only window: final sync, verification and the switch
+        return await beginTransaction(source, async (locked) => {
+          await locked.unsafe(`SET LOCAL lock_timeout = ${lockTimeoutMs > 0 ? lockTimeoutMs : 1}`);
+          if (tables.length > 0) {
+            await locked.unsafe(`LOCK TABLE ${tables.map((t) => t.qualified).join(', ')} IN EXCLUSIVE MODE`);
+          }
+          log('Source is read-only; syncing the last changes...');
+          const lastChanges = await syncTables(locked, target, tables, batchSize);
+
+          const moved: MovedTable[] = [];
+          for (const table of tables) {
+            await syncSequences(locked, target, schemaName, table);
+            const everything = keyRange(table, null, null);
+            const [sourceSum, targetSum] = await Promise.all([
+              rangeChecksum(locked, table, everything),
+              rangeChecksum(target, table, everything),
+            ]);
+            if (sourceSum.rows !== targetSum.rows || sourceSum.checksum !== targetSum.checksum) {
+              throw new Error(
+                `${table.name}: target has ${targetSum.rows} row(s) (checksum ${targetSum.checksum}) ` +
+                  `but the source has ${sourceSum.rows} (checksum ${sourceSum.checksum})`
+              );
+            }
+            moved.push({ table: table.name, rows: sourceSum.rows, checksum: sourceSum.checksum });
+          }
+          log(`Verified ${moved.length} table(s) after syncing ${lastChanges} last batch(es)`);
+
+          // Dropped before the switch commits: if the drop fails, nothing has switched yet
+          await locked.unsafe(`DROP SCHEMA ${escapedSchemaName} CASCADE`);
+
+          await beginTransaction(client, async (controlClient) => {
+            // Plain SQL: Drizzle cannot run on a transaction client
+            const updated = await controlClient`
+              UPDATE schema_tracker SET shard = ${targetShard}, updated_at = now()
+              WHERE id = ${tracked.id} AND shard = ${tracked.shard}
+              RETURNING id
+            `;
+            if (updated.length === 0) {
+              throw new Error(`Tenant ${schemaName} changed in schema_tracker during the move`);
+            }
+            await recordTenantEvent(controlClient, tracked.id, schemaName, 'moved', {
+              from: tracked.shard,
+              to: targetShard,
+              rows: moved.reduce((sum, table) => sum + table.rows, 0),
+            });
+          });
+          switched = true;
+          log(`Switched ${schemaName} to shard ${targetShard}`);
+          return moved;
+        });
+      } catch (error) {
+        if (switched) {
+          throw new Error(
+            `Tenant ${schemaName} now lives on shard ${targetShard}, but dropping it from shard ${tracked.shard} failed ` +
+              `(${error instanceof Error ? error.message : String(error)}); drop the leftover schema there by hand`
+          );
+        }
+        if (targetCreated) {
+          try {
+            await target.unsafe(`DROP SCHEMA IF EXISTS ${escapedSchemaName} CASCADE`);
+          } catch (cleanupError) {
+            console.error(`Failed to cleanup schema ${schemaName} on shard ${targetShard}:`, cleanupError);
+          }
+        }
+        throw error;
+      }
+    });
+  } finally {
+    await shardClients.end();
+    if (!options.client) {
+      await client.end();
+    }
+  }
+}
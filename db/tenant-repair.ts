@@ -0,0 +1,125 @@
+import postgres from 'postgres';
+import { eq } from 'drizzle-orm';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import * as schemaPublic from './schema-public';
+import { schemaTracker } from './schema-public';
+import { escapeSchemaName, schemaExistsInDatabase, tableExistsInSchema, beginTransaction } from './script-utils';
+import { validateSchemaName, getMigratedVersion, TENANT_QUARANTINE_PREFIX } from './tenant-schema';
+import { recordTenantEvent, transitionTenantStatus, grantTenantAppRole } from './tenant-lifecycle';
+import { DEFAULT_SHARD } from './shards';
+import { withMigrationLock, DEFAULT_LOCK_TIMEOUT_MS } from './migration-utils';
+import { TenantNotFoundError, TenantAlreadyExistsError } from './tenant-errors';
+
+/**
+ * Repairs for the problems health-check finds (`pnpm db:health:check --fix`)
+ *
+ * Applying missing migrations is upgradeTenantSchema(); the rest is here.
+ */
+
+/**
+ * Marks a tenant that cannot be repaired automatically as `migration_failed`, with the reason in `migration_error`
+ *
+ * Used for a schema that is gone, or one without `__drizzle_migrations`. Nothing is recreated:
+ * that needs a person (restore a backup, re-baseline, or drop the tenant). Health-check then
+ * reports the recorded reason, and the next successful upgrade makes the tenant `active` again.
+ *
+ * @param client - DATABASE_URL client to run on (not closed here)
+ * @throws Error if the tenant is not `active`
+ */
+export async function markTenantFailed(client: postgres.Sql, schemaName: string, reason: string): Promise<void> {
+  await transitionTenantStatus(client, schemaName, 'migration_failed', {
+    from: ['active'],
+    set: { migrationError: reason },
+  });
+}
+
+/**
+ * Registers an orphaned schema (in the database but not in schema_tracker) as an `active` tenant
+ *
+ * Only adopts schemas that look like a tenant: a valid tenant name and a `__drizzle_migrations`
+ * table. Its version is read from that table; run the tenant migrations afterwards to bring it
+ * up to date. The application role gets access to it (grantTenantAppRole()). Records an `adopted` event.
+ *
+ * @param client - DATABASE_URL client to run on (not closed here)
+ * @param shardClient - Client on the shard holding the schema (the same client for the default shard)
+ * @throws Error if the schema is not a valid tenant name, has no migration history, or is already tracked
+ */
+export async function adoptOrphanedSchema(
+  client: postgres.Sql,
+  shardClient: postgres.Sql,
+  schemaName: string,
+  shard: string = DEFAULT_SHARD
+): Promise<void> {
+  validateSchemaName(schemaName);
+  if (!(await tableExistsInSchema(shardClient, schemaName, '__drizzle_migrations'))) {
+    throw new Error(`Schema ${schemaName} has no __drizzle_migrations table, so it does not look like a tenant`);
+  }
+
+  const migratedVersion = await getMigratedVersion(shardClient, schemaName);
+  await grantTenantAppRole(shardClient, schemaName);
+  await beginTransaction(client, async (txClient) => {
+    // Plain SQL: Drizzle cannot run on a transaction client
+    const [registered] = await txClient<{ id: string }[]>`
+      INSERT INTO schema_tracker (name, status, shard, migrated_version)
+      VALUES (${schemaName}, 'active', ${shard}, ${migratedVersion})
+      RETURNING id
+    `;
+    await recordTenantEvent(txClient, registered.id, schemaName, 'adopted', { shard, migratedVersion });
+  });
+}
+
+/**
+ * Name an orphaned schema is quarantined under: `_quarantine_<schema>` (cut to 63 characters)
+ */
+export function getQuarantineSchemaName(schemaName: string): string {
+  return `${TENANT_QUARANTINE_PREFIX}${schemaName}`.slice(0, 63);
+}
+
+/**
+ * Renames an orphaned schema out of the way, to `_quarantine_<schema>`
+ *
+ * Nothing is deleted. Applications using the old name stop finding it, the name is free for a
+ * new tenant, and health-check no longer reports it as orphaned. Inspect it, then drop it by hand.
+ *
+ * The orphan list is a snapshot, so the rename re-checks under the schema's migration lock on
+ * its shard (the lock migrations and moves hold): a name schema_tracker now lists on any shard
+ * is left alone (e.g. the target copy of a move in progress, or a tenant provisioned since), and
+ * so is a schema without `__drizzle_migrations`, which is not a tenant.
+ *
+ * @param client - DATABASE_URL client to re-read schema_tracker on (not closed here)
+ * @param shardClient - Client on the database holding the schema (the same client for the default shard)
+ * @param options.lockTimeoutMs - How long to wait for the schema's migration lock; 0 fails fast
+ * @returns The new schema name
+ * @throws Error if the schema is missing, tracked, not a tenant, locked, or the quarantine name is taken
+ */
+export async function quarantineOrphanedSchema(
+  client: postgres.Sql,
+  shardClient: postgres.Sql,
+  schemaName: string,
+  options: { lockTimeoutMs?: number } = {}
+): Promise<string> {
+  const { lockTimeoutMs = DEFAULT_LOCK_TIMEOUT_MS } = options;
+  const quarantined = getQuarantineSchemaName(schemaName);
+
+  return await withMigrationLock(shardClient, schemaName, lockTimeoutMs, async (conn) => {
+    const [tracked] = await drizzle(client, { schema: { ...schemaPublic } })
+      .select({ shard: schemaTracker.shard, status: schemaTracker.status })
+      .from(schemaTracker)
+      .where(eq(schemaTracker.name, schemaName));
+    if (tracked) {
+      throw new Error(`Schema ${schemaName} is now tracked (${tracked.status} on shard ${tracked.shard}); not quarantining it`);
+    }
+    if (!(await schemaExistsInDatabase(conn, schemaName))) {
+      throw new TenantNotFoundError(`Schema ${schemaName} does not exist in database`, schemaName);
+    }
+    if (!(await tableExistsInSchema(conn, schemaName, '__drizzle_migrations'))) {
+      throw new Error(`Schema ${schemaName} has no __drizzle_migrations table, so it does not look like a tenant; not quarantining it`);
+    }
+    if (await schemaExistsInDatabase(conn, quarantined)) {
+      throw new TenantAlreadyExistsError(`Schema ${quarantined} already exists`, quarantined);
+    }
+
+    await conn.unsafe(`ALTER SCHEMA ${escapeSchemaName(schemaName)} RENAME TO ${escapeSchemaName(quarantined)}`);
+    return quarantined;
+  });
+}
@@ -0,0 +1,189 @@
+import postgres from 'postgres';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import { eq } from 'drizzle-orm';
+import * as schemaPublic from './schema-public';
+import { schemaTracker } from './schema-public';
+import { escapeSchemaName, getTablesInSchema, beginTransaction, SqlClient } from './script-utils';
+import { recordTenantEvent, grantTenantSchemaAccess, TENANT_TABLE_PRIVILEGES } from './tenant-lifecycle';
+import { DEFAULT_SHARD } from './shards';
+import { TenantNotFoundError } from './tenant-errors';
+
+/**
+ * Public tables a tenant role may read (SELECT only)
+ *
+ * Tenant tables do not reference anything in `public` today, so this is empty; add a
+ * shared lookup table here if tenant queries start joining it. Health-check flags any
+ * other public table a tenant role can read (e.g. schema_tracker).
+ */
+export const TENANT_ROLE_PUBLIC_TABLES: string[] = [];
+
+/**
+ * Name of a tenant's dedicated role: `tenant_<schema>`
+ */
+export function getTenantRoleName(schemaName: string): string {
+  return `tenant_${schemaName}`;
+}
+
+async function roleExists(client: SqlClient, role: string): Promise<boolean> {
+  const [row] = await client`SELECT 1 FROM pg_roles WHERE rolname = ${role}`;
+  return !!row;
+}
+
+/**
+ * Creates a tenant's dedicated role if missing, and (re)applies its grants
+ *
+ * The role is NOLOGIN; the DATABASE_URL user is made a member so withTenantRole() can
+ * `SET LOCAL ROLE` to it. The role gets:
+ * - USAGE on the tenant schema, and DML on its tables and sequences (also for tables
+ *   created later by migrations, through default privileges)
+ * - nothing on `__drizzle_migrations`, so application code cannot rewrite migration history
+ * - USAGE on `public` and SELECT on TENANT_ROLE_PUBLIC_TABLES only
+ *
+ * Runs in one transaction, records the role in `schema_tracker.db_role`, and records a
+ * `role_granted` event. Safe to re-run to repair grants health-check reports.
+ *
+ * @param client - Client to run on (not closed here); the DATABASE_URL user needs CREATEROLE
+ * @returns The role name
+ * @throws Error if the tenant is not tracked, not on the default shard, or the role name would exceed 63 characters
+ */
+export async function ensureTenantRole(client: postgres.Sql, schemaName: string): Promise<string> {
+  const role = getTenantRoleName(schemaName);
+  if (role.length > 63) {
+    throw new Error(`Role name ${role} is longer than 63 characters; tenant roles need schema names of 56 characters or less`);
+  }
+
+  const escapedRole = escapeSchemaName(role);
+
+  return await beginTransaction(client, async (txClient) => {
+    // Plain SQL: Drizzle cannot run on a transaction client
+    const [tracked] = await txClient<{ id: string; shard: string }[]>`
+      SELECT id, shard FROM schema_tracker WHERE name = ${schemaName}
+    `;
+    if (!tracked) {
+      throw new TenantNotFoundError(`Schema ${schemaName} not found in schema_tracker`, schemaName);
+    }
+    if (tracked.shard !== DEFAULT_SHARD) {
+      throw new Error(`Tenant ${schemaName} lives on shard ${tracked.shard}; dedicated roles are only supported on the default shard`);
+    }
+
+    if (!(await roleExists(txClient, role))) {
+      await txClient.unsafe(`CREATE ROLE ${escapedRole} NOLOGIN NOSUPERUSER NOCREATEDB NOCREATEROLE NOBYPASSRLS`);
+    }
+    await txClient.unsafe(`GRANT ${escapedRole} TO CURRENT_USER`);
+
+    await grantTenantSchemaAccess(txClient, schemaName, escapedRole);
+
+    await txClient.unsafe(`GRANT USAGE ON SCHEMA public TO ${escapedRole}`);
+    for (const table of TENANT_ROLE_PUBLIC_TABLES) {
+      await txClient.unsafe(`GRANT SELECT ON public.${escapeSchemaName(table)} TO ${escapedRole}`);
+    }
+
+    await txClient`UPDATE schema_tracker SET db_role = ${role}, updated_at = now() WHERE id = ${tracked.id}`;
+    await recordTenantEvent(txClient, tracked.id, schemaName, 'role_granted', { role });
+    return role;
+  });
+}
+
+/**
+ * Drops a tenant's dedicated role, if it has one
+ *
+ * Uses the role recorded in schema_tracker (or `tenant_<schema>` for an untracked schema).
+ * `DROP OWNED BY` first removes the role's grants in this database, including the default
+ * privileges on the tenant schema. Clears `schema_tracker.db_role`.
+ *
+ * @param client - Client to run on (not closed here)
+ * @returns The dropped role, or null if there was none
+ */
+export async function dropTenantRole(client: postgres.Sql, schemaName: string): Promise<string | null> {
+  const db = drizzle(client, { schema: { ...schemaPublic } });
+  const [tracked] = await db
+    .select({ dbRole: schemaTracker.dbRole })
+    .from(schemaTracker)
+    .where(eq(schemaTracker.name, schemaName));
+
+  const role = tracked ? tracked.dbRole : getTenantRoleName(schemaName);
+  if (!role || !(await roleExists(client, role))) {
+    return null;
+  }
+
+  await beginTransaction(client, async (txClient) => {
+    await txClient.unsafe(`DROP OWNED BY ${escapeSchemaName(role)}`);
+    await txClient.unsafe(`DROP ROLE ${escapeSchemaName(role)}`);
+    await txClient`UPDATE schema_tracker SET db_role = NULL, updated_at = now() WHERE name = ${schemaName}`;
+  });
+  return role;
+}
+
+/**
+ * Checks that a tenant role can use its own schema and nothing else
+ *
+ * @returns Problems found; empty if the grants are as ensureTenantRole() sets them
+ */
+export async function verifyTenantRoleGrants(
+  client: postgres.Sql,
+  schemaName: string,
+  role: string
+): Promise<string[]> {
+  const [roleRow] = await client`
+    SELECT rolsuper, rolbypassrls FROM pg_roles WHERE rolname = ${role}
+  `;
+  if (!roleRow) {
+    return [`Role ${role} does not exist`];
+  }
+
+  const issues: string[] = [];
+  if (roleRow.rolsuper || roleRow.rolbypassrls) {
+    issues.push(`Role ${role} is a superuser or bypasses RLS`);
+  }
+
+  const [{ usage }] = await client`
+    SELECT has_schema_privilege(${role}, ${schemaName}, 'USAGE') AS usage
+  `;
+  if (!usage) {
+    issues.push(`No USAGE on schema ${schemaName}`);
+  }
+
+  const tables = (await getTablesInSchema(client, schemaName, [])).filter((t) => t !== '__drizzle_migrations');
+  for (const table of tables) {
+    const qualified = `${escapeSchemaName(schemaName)}.${escapeSchemaName(table)}`;
+    const missing: string[] = [];
+    for (const privilege of TENANT_TABLE_PRIVILEGES) {
+      const [{ granted }] = await client`SELECT has_table_privilege(${role}, ${qualified}, ${privilege}) AS granted`;
+      if (!granted) {
+        missing.push(privilege);
+      }
+    }
+    if (missing.length > 0) {
+      issues.push(`Missing ${missing.join(', ')} on ${table}`);
+    }
+  }
+
+  const foreignSchemas = await client`
+    SELECT nspname
+    FROM pg_namespace
+    WHERE has_schema_privilege(${role}, oid, 'USAGE')
+      AND nspname NOT IN (${schemaName}, 'public', 'pg_catalog', 'information_schema')
+      AND nspname NOT LIKE 'pg_%'
+    ORDER BY nspname
+  `;
+  if (foreignSchemas.length > 0) {
+    issues.push(`Can use other schemas: ${foreignSchemas.map((s) => s.nspname).join(', ')}`);
+  }
+
+  const readablePublic = await client`
+    SELECT c.relname
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public' AND c.relkind IN ('r', 'p', 'v', 'm')
+      AND has_table_privilege(${role}, c.oid, 'SELECT')
+    ORDER BY c.relname
+  `;
+  const unexpectedPublic = readablePublic
+    .map((t) => t.relname as string)
+    .filter((name) => !TENANT_ROLE_PUBLIC_TABLES.includes(name));
+  if (unexpectedPublic.length > 0) {
+    issues.push(`Can read public tables: ${unexpectedPublic.join(', ')}`);
+  }
+
+  return issues;
+}
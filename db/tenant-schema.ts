@@ -1,34 +1,71 @@
 import 'dotenv/config';
 import postgres from 'postgres';
 import { drizzle } from 'drizzle-orm/postgres-js';
+import { and, eq, sql, is, notInArray } from 'drizzle-orm';
 import * as schemaPublic from './schema-public';
+import * as schemaTenant from './schema-tenant';
+import { PgTable, getTableConfig } from 'drizzle-orm/pg-core';
+import { getDefaultSchemaPools, SchemaPools } from './db';
+import { DEFAULT_SHARD, getShardUrl } from './shards';
 import path from 'path';
-import { applyMigrations } from './migration-utils';
-import { escapeSchemaName, createPostgresClient, getTablesInSchema, tableExistsInSchema } from './script-utils';
-
-if (!process.env.DATABASE_URL) {
-  throw new Error('DATABASE_URL environment variable is required');
-}
+import {
+  applyMigrations,
+  rollbackMigrations,
+  buildMigrationPlan,
+  withMigrationLock,
+  ensureMigrationsTable,
+  checkMigrationIntegrity,
+  MigrationPlan,
+  MigrationTimeoutError,
+  ALL_TENANTS_LOCK_KEY,
+  DEFAULT_LOCK_TIMEOUT_MS,
+} from './migration-utils';
+import {
+  escapeSchemaName,
+  createPostgresClient,
+  getTablesInSchema,
+  tableExistsInSchema,
+  schemaExistsInDatabase,
+  getAppliedMigrations,
+  getExpectedMigrations,
+  createShardClients,
+  ShardClients,
+  beginTransaction,
+  SqlClient,
+} from './script-utils';
+import { formatTime } from '../shared/db-utils';
+import {
+  transitionTenantStatus,
+  recordTenantEvent,
+  grantTenantAppRole,
+  getTenantApplicationName,
+  getTenantShard,
+  SKIPPED_BY_BULK_MIGRATIONS,
+  TenantStatus,
+} from './tenant-lifecycle';
+import { ensureTenantRole, dropTenantRole, getTenantRoleName } from './tenant-roles';
+import { TenantNotFoundError, TenantAlreadyExistsError, InvalidSchemaNameError, TenantNotActiveError } from './tenant-errors';
 
 /**
  * Validates schema name format according to PostgreSQL rules
  * @param schemaName - The schema name to validate
- * @throws Error if schema name is invalid
+ * @throws InvalidSchemaNameError if schema name is invalid
  */
 export function validateSchemaName(schemaName: string): void {
   if (!schemaName || typeof schemaName !== 'string') {
-    throw new Error('Schema name must be a non-empty string');
+    throw new InvalidSchemaNameError('Schema name must be a non-empty string', schemaName);
   }
 
   // PostgreSQL identifier rules: max 63 characters
   if (schemaName.length > 63) {
-    throw new Error('Schema name must be 63 characters or less');
+    throw new InvalidSchemaNameError('Schema name must be 63 characters or less', schemaName);
   }
 
   // Check for valid identifier pattern (letters, digits, underscore, must start with letter or underscore)
   if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(schemaName)) {
-    throw new Error(
-      'Schema name must start with a letter or underscore and contain only letters, digits, and underscores'
+    throw new InvalidSchemaNameError(
+      'Schema name must start with a letter or underscore and contain only letters, digits, and underscores',
+      schemaName
     );
   }
 
@@ -42,30 +79,201 @@ export function validateSchemaName(schemaName: string): void {
     'pg_toast_temp',
   ];
   if (reservedKeywords.includes(schemaName.toLowerCase())) {
-    throw new Error(`Schema name cannot be a reserved PostgreSQL keyword: ${schemaName}`);
+    throw new InvalidSchemaNameError(`Schema name cannot be a reserved PostgreSQL keyword: ${schemaName}`, schemaName);
+  }
+
+  if (schemaName.toLowerCase() === TENANT_TEMPLATE_SCHEMA) {
+    throw new InvalidSchemaNameError(`Schema name ${schemaName} is reserved for the tenant template`, schemaName);
+  }
+
+  if (schemaName.toLowerCase().startsWith(TENANT_QUARANTINE_PREFIX)) {
+    throw new InvalidSchemaNameError(`Schema names starting with ${TENANT_QUARANTINE_PREFIX} are reserved for quarantined schemas`, schemaName);
+  }
+}
+
+/**
+ * Transaction handle passed to withTenantSchema() callbacks
+ *
+ * Typed over every table in schema-tenant.ts, so both the query builder
+ * (`tx.select().from(dummyTable)`) and the relational API (`tx.query.dummyTable`)
+ * are available.
+ */
+export type TenantSchemaTransaction = Parameters<Parameters<SchemaPools['tenantDb']['transaction']>[0]>[0];
+
+/**
+ * Options for withTenantSchema() and withTenantRole()
+ */
+export interface TenantTransactionOptions {
+  /** Pools to run on, e.g. a createSchemaTenancy() handle's (default: the DATABASE_URL pools in db.ts) */
+  pools?: SchemaPools;
+}
+
+/**
+ * Tenant wrapper for the multi-schema approach
+ *
+ * Runs the operation inside a transaction on the shared pool with `search_path`
+ * pointed at the tenant schema. Tenant tables are unqualified in schema-tenant.ts,
+ * so every query in the callback resolves to that tenant's tables.
+ *
+ * @param schemaName - The tenant schema to bind queries to (validated with validateSchemaName)
+ * @param operation - Function that receives a typed transaction bound to the tenant schema
+ * @param options.pools - Pools to run on (default: the DATABASE_URL pools in db.ts)
+ * @returns Result of the operation
+ * @throws TenantNotFoundError if the tenant is not tracked; TenantNotActiveError if it is not `active`
+ *
+ * @example
+ * ```typescript
+ * const rows = await withTenantSchema('acme_corp', async (tx) => {
+ *   await tx.insert(dummyTable).values({ name: 'widget', value: '42' });
+ *   return await tx.select().from(dummyTable);
+ * });
+ * ```
+ *
+ * @security Uses `SET LOCAL` which is transaction-scoped, so the pooled connection
+ * goes back to the pool with its default search_path on commit/rollback.
+ * `application_name` is set to `tenant:<schema>` the same way, so suspendTenant()
+ * can find and end the tenant's open transactions.
+ *
+ * The tenant is looked up in schema_tracker first: only `active` tenants are served, so a
+ * suspended tenant is refused even by a pool user that still has access to its schema. When
+ * shards are configured (DATABASE_SHARDS), the transaction runs on the tenant's shard's pool.
+ */
+export async function withTenantSchema<T>(
+  schemaName: string,
+  operation: (tx: TenantSchemaTransaction) => Promise<T>,
+  options: TenantTransactionOptions = {}
+): Promise<T> {
+  validateSchemaName(schemaName);
+
+  const pools = options.pools ?? getDefaultSchemaPools();
+  const [row] = await pools.db
+    .select({ status: schemaPublic.schemaTracker.status, shard: schemaPublic.schemaTracker.shard })
+    .from(schemaPublic.schemaTracker)
+    .where(eq(schemaPublic.schemaTracker.name, schemaName));
+  const shardDb = pools.getShardTenantDb(assertTenantActive(schemaName, row).shard);
+  return await shardDb.transaction(async (tx) => {
+    // set_config(..., true) is SET LOCAL in one parameterized round trip
+    await tx.execute(sql`
+      SELECT set_config('search_path', ${`${escapeSchemaName(schemaName)}, public`}, true),
+             set_config('application_name', ${getTenantApplicationName(schemaName)}, true)
+    `);
+    return await operation(tx);
+  });
+}
+
+/**
+ * Checks a tenant's schema_tracker row before withTenantSchema()/withTenantRole() serve it
+ * @throws TenantNotFoundError if the tenant is not tracked; TenantNotActiveError if it is not `active`
+ */
+function assertTenantActive<T extends { status: TenantStatus }>(schemaName: string, tracked: T | undefined): T {
+  if (!tracked) {
+    throw new TenantNotFoundError(`Schema ${schemaName} not found in schema_tracker`, schemaName);
+  }
+  if (tracked.status !== 'active') {
+    throw new TenantNotActiveError(`Tenant ${schemaName} is ${tracked.status}, not active`, schemaName, tracked.status);
   }
+  return tracked;
+}
+
+/**
+ * Like withTenantSchema(), but the transaction also runs as the tenant's dedicated role
+ *
+ * `SET LOCAL ROLE` switches to the role recorded in `schema_tracker.db_role` (see
+ * ensureTenantRole()), which has privileges on this tenant's schema only. A search_path
+ * mistake or a schema-qualified query against another tenant then fails with
+ * "permission denied" instead of returning that tenant's rows.
+ *
+ * @param schemaName - The tenant schema to bind queries to (validated with validateSchemaName)
+ * @param operation - Function that receives a typed transaction bound to the tenant schema and role
+ * @param options.pools - Pools to run on (default: the DATABASE_URL pools in db.ts)
+ * @returns Result of the operation
+ * @throws TenantNotFoundError if the tenant is not tracked; TenantNotActiveError if it is not `active`;
+ *   Error if it has no dedicated role
+ *
+ * @security The role reverts to the pool user on commit/rollback, like search_path.
+ * The role is looked up before switching, because the tenant role cannot read schema_tracker.
+ */
+export async function withTenantRole<T>(
+  schemaName: string,
+  operation: (tx: TenantSchemaTransaction) => Promise<T>,
+  options: TenantTransactionOptions = {}
+): Promise<T> {
+  validateSchemaName(schemaName);
+
+  return await (options.pools ?? getDefaultSchemaPools()).tenantDb.transaction(async (tx) => {
+    const [row] = await tx
+      .select({ status: schemaPublic.schemaTracker.status, dbRole: schemaPublic.schemaTracker.dbRole })
+      .from(schemaPublic.schemaTracker)
+      .where(eq(schemaPublic.schemaTracker.name, schemaName));
+    const tracked = assertTenantActive(schemaName, row);
+    if (!tracked.dbRole) {
+      throw new Error(`Tenant ${schemaName} has no database role (run pnpm db:grant:tenant-role ${schemaName})`);
+    }
+
+    await tx.execute(sql`
+      SELECT set_config('search_path', ${`${escapeSchemaName(schemaName)}, public`}, true),
+             set_config('application_name', ${getTenantApplicationName(schemaName)}, true),
+             set_config('role', ${tracked.dbRole}, true)
+    `);
+    return await operation(tx);
+  });
 }
 
+// Tenant migrations path (separate from public migrations)
+export const TENANT_MIGRATIONS_FOLDER = path.join(process.cwd(), 'db', 'migrations', 'tenant');
+
+/**
+ * Hidden, fully migrated schema that createTenantSchemaFromTemplate() copies new tenants from
+ * Never tracked in schema_tracker, and not a valid tenant name.
+ */
+export const TENANT_TEMPLATE_SCHEMA = '_tenant_template';
+
+/**
+ * Prefix of orphaned schemas that health-check `--fix` renamed out of the way (see tenant-repair.ts)
+ * Not a valid tenant name prefix, and not reported as orphaned.
+ */
+export const TENANT_QUARANTINE_PREFIX = '_quarantine_';
+
+// Held while the template is checked, rebuilt or copied, so a rebuild never drops it mid-copy
+const TENANT_TEMPLATE_LOCK_KEY = '*tenant-template*';
+
 /**
- * Creates a tenant schema and applies Drizzle migrations
+ * Provisions a NEW tenant: creates the schema and applies Drizzle migrations
+ *
+ * The schema must not exist yet. If any step fails, the schema this call created is
+ * dropped again, so a failed signup leaves nothing behind. Never use this for an
+ * existing tenant - use upgradeTenantSchema(), which never drops anything.
+ *
  * @param schemaName - The name of the tenant schema to create
- * @throws Error if schema creation or migration fails
+ * @param options.client - Existing client/pool on the target shard (not closed here); a dedicated client is created otherwise
+ * @param options.shard - Shard to create the schema on when no client is given (default: DATABASE_URL)
+ * @param options.logPrefix - Prefix for progress logs; pass '' to run quietly
+ * @param options.migrationsFolder - Tenant migrations to apply (default: TENANT_MIGRATIONS_FOLDER)
+ * @throws Error if the schema already exists, or if schema creation or migration fails
  */
 export async function createTenantSchemaWithMigrations(
-  schemaName: string
+  schemaName: string,
+  options: { client?: postgres.Sql; shard?: string; logPrefix?: string; migrationsFolder?: string } = {}
 ): Promise<void> {
   validateSchemaName(schemaName);
 
-  const client = createPostgresClient();
+  const { logPrefix = '  ', migrationsFolder = TENANT_MIGRATIONS_FOLDER } = options;
+  const client = options.client ?? createPostgresClient({}, options.shard);
+  // Escape schema name to prevent SQL injection (double quotes for PostgreSQL identifiers)
+  const escapedSchemaName = escapeSchemaName(schemaName);
+  let schemaCreated = false;
 
   try {
-    // Create schema using safe identifier quoting
-    // Escape schema name to prevent SQL injection (double quotes for PostgreSQL identifiers)
-    const escapedSchemaName = escapeSchemaName(schemaName);
-    await client.unsafe(`CREATE SCHEMA IF NOT EXISTS ${escapedSchemaName}`);
+    if (await schemaExistsInDatabase(client, schemaName)) {
+      throw new TenantAlreadyExistsError(
+        `Schema ${schemaName} already exists. Use upgradeTenantSchema() to migrate an existing tenant`,
+        schemaName
+      );
+    }
 
-    // Resolve tenant migrations path (separate from public migrations)
-    const migrationsFolder = path.join(process.cwd(), 'db', 'migrations', 'tenant');
+    // No IF NOT EXISTS: if another process created it in the meantime, fail instead of adopting it
+    await client.unsafe(`CREATE SCHEMA ${escapedSchemaName}`);
+    schemaCreated = true;
 
     // Apply migrations using shared utility
     // This prevents Drizzle from creating unwanted "drizzle" schema
@@ -73,12 +281,14 @@ export async function createTenantSchemaWithMigrations(
       client,
       schemaName,
       migrationsFolder,
-      logPrefix: '  ',
+      logPrefix,
     });
     
     // Check what tables exist in the tenant schema
     const tablesInSchema = await getTablesInSchema(client, schemaName, []);
-    console.log(`Tables in schema ${schemaName}:`, tablesInSchema);
+    if (logPrefix) {
+      console.log(`Tables in schema ${schemaName}:`, tablesInSchema);
+    }
     
     // Verify dummy_table was created in tenant schema
     const tableExists = await tableExistsInSchema(client, schemaName, 'dummy_table');
@@ -98,70 +308,1182 @@ export async function createTenantSchemaWithMigrations(
       throw new Error(errorMsg);
     }
   } catch (error) {
-    // Cleanup: drop schema if creation/migration failed
+    // Cleanup: drop the schema only if this call created it
+    if (schemaCreated) {
+      try {
+        await client.unsafe(`DROP SCHEMA IF EXISTS ${escapedSchemaName} CASCADE`);
+      } catch (cleanupError) {
+        console.error(`Failed to cleanup schema ${schemaName}:`, cleanupError);
+      }
+    }
+    throw error;
+  } finally {
+    if (!options.client) {
+      await client.end();
+    }
+  }
+}
+
+/**
+ * Gets the migration a tenant is pinned at by a rollback, if any
+ */
+async function getPinnedMigration(client: postgres.Sql, schemaName: string): Promise<string | undefined> {
+  const db = drizzle(client, { schema: { ...schemaPublic } });
+  const [tracked] = await db
+    .select({ pinnedMigration: schemaPublic.schemaTracker.pinnedMigration })
+    .from(schemaPublic.schemaTracker)
+    .where(eq(schemaPublic.schemaTracker.name, schemaName));
+  return tracked?.pinnedMigration ?? undefined;
+}
+
+/**
+ * Gets the latest migration applied to a tenant schema (for `schema_tracker.migrated_version`)
+ * Returns null if the schema or its `__drizzle_migrations` table does not exist.
+ */
+export async function getMigratedVersion(client: SqlClient, schemaName: string): Promise<string | null> {
+  if (!(await tableExistsInSchema(client, schemaName, '__drizzle_migrations'))) {
+    return null;
+  }
+  const applied = await getAppliedMigrations(client, schemaName);
+  return applied[applied.length - 1] ?? null;
+}
+
+/**
+ * Finds schemas on every shard's database that schema_tracker does not list for that shard
+ *
+ * System schemas, `public` and the tenant template are left out. Schemas quarantined by
+ * health-check `--fix` (`_quarantine_*`) are returned separately and are not orphaned.
+ * A copy of a tenant tracked on another shard counts as orphaned here (a leftover from a
+ * failed move, or the target of one still running); quarantineOrphanedSchema() re-checks.
+ *
+ * @param tracked - Every schema_tracker row (name and shard)
+ */
+export async function findUntrackedSchemas(
+  shardClients: ShardClients,
+  tracked: Array<{ name: string; shard: string }>
+): Promise<{
+  orphaned: Array<{ schema: string; shard: string }>;
+  quarantined: Array<{ schema: string; shard: string }>;
+}> {
+  const results = {
+    orphaned: [] as Array<{ schema: string; shard: string }>,
+    quarantined: [] as Array<{ schema: string; shard: string }>,
+  };
+
+  for (const shard of shardClients.names()) {
+    const allSchemas = await shardClients.get(shard)`
+      SELECT schema_name 
+      FROM information_schema.schemata 
+      WHERE schema_name NOT IN ('pg_catalog', 'information_schema', 'pg_toast', 'pg_temp_1', 'pg_toast_temp_1', 'public')
+      AND schema_name NOT LIKE 'pg_%'
+      AND schema_name <> ${TENANT_TEMPLATE_SCHEMA}
+      ORDER BY schema_name
+    `;
+
+    const trackedNames = new Set(tracked.filter((s) => s.shard === shard).map((s) => s.name));
+    for (const row of allSchemas) {
+      if (row.schema_name.startsWith(TENANT_QUARANTINE_PREFIX)) {
+        results.quarantined.push({ schema: row.schema_name, shard });
+      } else if (!trackedNames.has(row.schema_name)) {
+        results.orphaned.push({ schema: row.schema_name, shard });
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Provisions a NEW tenant and registers it in schema_tracker, moving it through its lifecycle
+ *
+ * The tracker row is inserted as `provisioning` first, which claims the name (it is unique).
+ * Then the schema is created and migrated with createTenantSchemaWithMigrations() (or copied
+ * with createTenantSchemaFromTemplate()), `populate` runs (e.g. to load imported data), and
+ * the tenant becomes `active`. If any step fails, the schema and the tracker row are both
+ * removed again.
+ *
+ * The tracker row always lives on the default database; the schema is created on
+ * `options.shard` and the row records which shard that is.
+ *
+ * @param schemaName - The name of the tenant schema to create
+ * @param options.client - Existing DATABASE_URL client/pool to run on (not closed here); a dedicated client is created otherwise.
+ *   With `fromTemplate` it needs at least 2 connections
+ * @param options.shardClients - Clients for the shards (not closed here); created from `client` otherwise
+ * @param options.shard - Shard to create the schema on (default: DATABASE_URL)
+ * @param options.logPrefix - Prefix for progress logs; pass '' to run quietly
+ * @param options.fromTemplate - Copy the template schema instead of replaying every migration
+ * @param options.withRole - Also create the tenant's dedicated database role (ensureTenantRole())
+ * @param options.migrationsFolder - Tenant migrations to apply (default: TENANT_MIGRATIONS_FOLDER); not with `fromTemplate`
+ * @param options.populate - Runs after migrations, while the tenant is still `provisioning`; receives a client on the tenant's shard
+ * @throws Error if the tenant already exists, the shard is unknown, or any step fails
+ */
+export async function provisionTenant(
+  schemaName: string,
+  options: {
+    client?: postgres.Sql;
+    shardClients?: ShardClients;
+    shard?: string;
+    logPrefix?: string;
+    fromTemplate?: boolean;
+    withRole?: boolean;
+    migrationsFolder?: string;
+    populate?: (client: postgres.Sql) => Promise<void>;
+  } = {}
+): Promise<void> {
+  validateSchemaName(schemaName);
+
+  const shard = options.shard ?? DEFAULT_SHARD;
+  if (!options.shardClients) {
+    getShardUrl(shard); // Fails fast on an unknown shard
+  }
+  if (options.withRole && shard !== DEFAULT_SHARD) {
+    throw new Error('Dedicated tenant roles are only supported on the default shard');
+  }
+  // The template is kept at the latest migration of TENANT_MIGRATIONS_FOLDER
+  if (options.fromTemplate && options.migrationsFolder && options.migrationsFolder !== TENANT_MIGRATIONS_FOLDER) {
+    throw new Error('Creating from the template is only supported with the default tenant migrations folder');
+  }
+
+  const schemaClientOptions = { max: options.fromTemplate ? 2 : 1 };
+  const client = options.client ?? createPostgresClient(schemaClientOptions);
+  const shardClients = options.shardClients ?? createShardClients(client, schemaClientOptions);
+  // Throws on an unknown shard when shardClients were passed in
+  const schemaClient = shardClients.get(shard);
+  const db = drizzle(client, { schema: { ...schemaPublic } });
+
+  try {
+    // Register as provisioning first; the unique name stops a concurrent create of the same tenant
+    await db.insert(schemaPublic.schemaTracker).values({ name: schemaName, status: 'provisioning', shard });
+
+    let schemaCreated = false;
     try {
-      const escapedSchemaName = escapeSchemaName(schemaName);
-      await client.unsafe(`DROP SCHEMA IF EXISTS ${escapedSchemaName} CASCADE`);
-    } catch (cleanupError) {
-      console.error(`Failed to cleanup schema ${schemaName}:`, cleanupError);
+      const { logPrefix, migrationsFolder } = options;
+      await (options.fromTemplate
+        ? createTenantSchemaFromTemplate(schemaName, { client: schemaClient, logPrefix })
+        : createTenantSchemaWithMigrations(schemaName, { client: schemaClient, logPrefix, migrationsFolder }));
+      schemaCreated = true;
+      if (options.populate) {
+        await options.populate(schemaClient);
+      }
+      await grantTenantAppRole(schemaClient, schemaName);
+      if (options.withRole) {
+        await ensureTenantRole(client, schemaName);
+      }
+    } catch (error) {
+      // Both ways of creating the schema clean up after themselves (and never drop a schema
+      // they did not create), so only a failed populate() leaves a schema to drop here
+      try {
+        if (schemaCreated) {
+          await schemaClient.unsafe(`DROP SCHEMA IF EXISTS ${escapeSchemaName(schemaName)} CASCADE`);
+        }
+        if (options.withRole) {
+          await dropTenantRole(client, schemaName);
+        }
+        await db
+          .delete(schemaPublic.schemaTracker)
+          .where(and(eq(schemaPublic.schemaTracker.name, schemaName), eq(schemaPublic.schemaTracker.status, 'provisioning')));
+      } catch (cleanupError) {
+        console.error(`Failed to cleanup tenant ${schemaName}:`, cleanupError);
+      }
+      throw error;
     }
+
+    await transitionTenantStatus(client, schemaName, 'active', {
+      from: ['provisioning'],
+      set: { migratedVersion: await getMigratedVersion(schemaClient, schemaName) },
+    });
+  } finally {
+    if (!options.shardClients) {
+      await shardClients.end();
+    }
+    if (!options.client) {
+      await client.end();
+    }
+  }
+}
+
+/**
+ * Names of the tables declared in schema-tenant.ts, i.e. the tables every tenant schema holds
+ */
+export function getTenantTableNames(): string[] {
+  return (Object.values(schemaTenant) as unknown[])
+    .filter((value): value is PgTable => is(value, PgTable))
+    .map((table) => getTableConfig(table).name);
+}
+
+/**
+ * Quoted, comma-separated list of a table's columns that accept inserted values
+ * Generated columns are left out; Postgres recomputes them.
+ */
+export async function getInsertableColumnList(client: SqlClient, schemaName: string, table: string): Promise<string> {
+  const columns = await client`
+    SELECT a.attname
+    FROM pg_attribute a
+    WHERE a.attrelid = ${`${escapeSchemaName(schemaName)}."${table.replace(/"/g, '""')}"`}::regclass
+      AND a.attnum > 0 AND NOT a.attisdropped AND a.attgenerated = ''
+    ORDER BY a.attnum
+  `;
+  return columns.map(({ attname }) => `"${attname.replace(/"/g, '""')}"`).join(', ');
+}
+
+/**
+ * Copies the structure (and optionally the rows) of tenant tables from one schema to another
+ *
+ * Runs on the caller's transaction; `target` must already exist. Tables are created with
+ * `LIKE ... INCLUDING ALL` (defaults, NOT NULL/CHECK constraints, indexes, identity, comments),
+ * serial sequences are recreated in the target, and foreign keys are added last so tables
+ * can be copied in any order.
+ *
+ * @returns Rows copied per table (0 for every table with `schemaOnly`)
+ */
+export async function copyTenantTables(
+  tx: SqlClient,
+  source: string,
+  target: string,
+  tables: string[],
+  options: { schemaOnly?: boolean } = {}
+): Promise<Array<{ table: string; rows: number }>> {
+  const escapedSource = escapeSchemaName(source);
+  const escapedTarget = escapeSchemaName(target);
+  const copied: Array<{ table: string; rows: number }> = [];
+
+  for (const table of tables) {
+    const escapedTable = `"${table.replace(/"/g, '""')}"`;
+    await tx.unsafe(`CREATE TABLE ${escapedTarget}.${escapedTable} (LIKE ${escapedSource}.${escapedTable} INCLUDING ALL)`);
+
+    // LIKE keeps serial defaults pointing at the source's sequence; give the copy its own
+    const serialColumns = await tx`
+      SELECT column_name, pg_get_serial_sequence(${`${escapedSource}.${escapedTable}`}, column_name) AS source_sequence
+      FROM information_schema.columns
+      WHERE table_schema = ${target} AND table_name = ${table} AND column_default LIKE 'nextval(%'
+    `;
+    for (const { column_name: column, source_sequence: sourceSequence } of serialColumns) {
+      const escapedColumn = `"${column.replace(/"/g, '""')}"`;
+      const sequence = `${escapedTarget}."${`${table}_${column}_seq`.replace(/"/g, '""')}"`;
+      await tx.unsafe(`CREATE SEQUENCE ${sequence} OWNED BY ${escapedTarget}.${escapedTable}.${escapedColumn}`);
+      await tx.unsafe(
+        `ALTER TABLE ${escapedTarget}.${escapedTable} ALTER COLUMN ${escapedColumn} SET DEFAULT nextval('${sequence.replace(/'/g, "''")}')`
+      );
+      if (sourceSequence && !options.schemaOnly) {
+        await tx.unsafe(
+          `SELECT setval('${sequence.replace(/'/g, "''")}', last_value, is_called) FROM ${sourceSequence}`
+        );
+      }
+    }
+
+    let rows = 0;
+    if (!options.schemaOnly) {
+      const columnList = await getInsertableColumnList(tx, source, table);
+      const result = await tx.unsafe(
+        `INSERT INTO ${escapedTarget}.${escapedTable} (${columnList}) OVERRIDING SYSTEM VALUE
+         SELECT ${columnList} FROM ${escapedSource}.${escapedTable}`
+      );
+      rows = result.count;
+    }
+    copied.push({ table, rows });
+  }
+
+  // Foreign keys: with search_path at the source, pg_get_constraintdef() leaves references to
+  // sibling tenant tables unqualified, so they resolve to the copies under the target's search_path
+  if (tables.length > 0) {
+    await tx.unsafe(`SET LOCAL search_path TO ${escapedSource}`);
+    const foreignKeys = await tx`
+      SELECT cl.relname AS table_name, c.conname, pg_get_constraintdef(c.oid) AS definition
+      FROM pg_constraint c
+      JOIN pg_class cl ON cl.oid = c.conrelid
+      JOIN pg_namespace n ON n.oid = cl.relnamespace
+      WHERE c.contype = 'f' AND n.nspname = ${source} AND cl.relname::text = ANY(${tables}::text[])
+    `;
+    await tx.unsafe(`SET LOCAL search_path TO ${escapedTarget}, public`);
+    for (const { table_name: table, conname, definition } of foreignKeys) {
+      await tx.unsafe(
+        `ALTER TABLE ${escapedTarget}."${table.replace(/"/g, '""')}" ADD CONSTRAINT "${conname.replace(/"/g, '""')}" ${definition}`
+      );
+    }
+  }
+
+  return copied;
+}
+
+/**
+ * Copies `__drizzle_migrations` rows from one schema to another (creating the table in the target)
+ */
+async function copyMigrationHistory(tx: SqlClient, source: string, target: string, sourceHasHistory = true): Promise<void> {
+  await ensureMigrationsTable(tx, target);
+  if (sourceHasHistory) {
+    await tx.unsafe(`
+      INSERT INTO ${escapeSchemaName(target)}."__drizzle_migrations" (hash, created_at, tag)
+      SELECT m.hash, m.created_at, COALESCE(to_jsonb(m) ->> 'tag', m.hash)
+      FROM ${escapeSchemaName(source)}."__drizzle_migrations" m
+      ORDER BY m.id
+    `);
+  }
+}
+
+/**
+ * Refuses operations that change a tenant's schema and its tracker row in one transaction
+ * when the schema lives on another shard than schema_tracker
+ */
+async function assertOnDefaultShard(client: postgres.Sql, schemaName: string, operation: string): Promise<void> {
+  const shard = await getTenantShard(client, schemaName);
+  if (shard && shard !== DEFAULT_SHARD) {
+    throw new Error(
+      `Tenant ${schemaName} lives on shard ${shard}; only tenants on the default shard can be ${operation}`
+    );
+  }
+}
+
+/**
+ * Clones a tenant into a NEW tenant: schema, tenant tables, data and migration history
+ *
+ * Everything happens in one REPEATABLE READ transaction, so the copy is a consistent
+ * snapshot of the source and a failure part-way leaves nothing behind (no schema, no
+ * tracker row). The source's migration lock is held meanwhile, so it cannot be migrated
+ * mid-copy. The target gets the source's `__drizzle_migrations` rows (same version and
+ * hashes) and pin, and is registered in schema_tracker as `active`. The source must be on the
+ * default shard, which is where the clone is created.
+ *
+ * @param source - Existing tenant schema to copy
+ * @param target - New tenant schema name (validated with validateSchemaName; must not exist)
+ * @param options.schemaOnly - Copy the structure and migration history but no rows
+ * @param options.client - Existing pool with at least 2 connections (not closed here); one is created otherwise
+ * @param options.lockTimeoutMs - How long to wait if the source is being migrated; 0 fails fast
+ * @returns Rows copied per table
+ * @throws Error if either name is invalid, the source is missing, or the target already exists
+ */
+export async function cloneTenantSchema(
+  source: string,
+  target: string,
+  options: { schemaOnly?: boolean; client?: postgres.Sql; lockTimeoutMs?: number } = {}
+): Promise<Array<{ table: string; rows: number }>> {
+  validateSchemaName(source);
+  validateSchemaName(target);
+  if (source === target) {
+    throw new Error('Source and target schema must differ');
+  }
+
+  const { schemaOnly = false, lockTimeoutMs = DEFAULT_LOCK_TIMEOUT_MS } = options;
+  // One connection holds the source's migration lock, the other runs the copy
+  const client = options.client ?? createPostgresClient({ max: 2 });
+
+  try {
+    if (!(await schemaExistsInDatabase(client, source))) {
+      throw new TenantNotFoundError(`Schema ${source} does not exist in database`, source);
+    }
+    if (await schemaExistsInDatabase(client, target)) {
+      throw new TenantAlreadyExistsError(`Schema ${target} already exists`, target);
+    }
+    await assertOnDefaultShard(client, source, 'cloned');
+
+    return await withMigrationLock(client, source, lockTimeoutMs, async () => {
+      return await beginTransaction(client, 'isolation level repeatable read', async (txClient) => {
+        // Plain SQL: Drizzle cannot run on a transaction client
+        const [tracked] = await txClient<{ pinnedMigration: string | null }[]>`
+          SELECT pinned_migration AS "pinnedMigration" FROM schema_tracker WHERE name = ${source}
+        `;
+
+        // A source pinned at an older version may not have every declared table yet
+        const sourceTables = new Set(await getTablesInSchema(txClient, source, []));
+        const tables = getTenantTableNames().filter((table) => sourceTables.has(table));
+
+        await txClient.unsafe(`CREATE SCHEMA ${escapeSchemaName(target)}`);
+        const copied = await copyTenantTables(txClient, source, target, tables, { schemaOnly });
+
+        // Same migration history, so the clone reports the same version and hashes
+        await copyMigrationHistory(txClient, source, target, sourceTables.has('__drizzle_migrations'));
+        await grantTenantAppRole(txClient, target);
+
+        const migratedVersion = await getMigratedVersion(txClient, target);
+        const [registered] = await txClient<{ id: string }[]>`
+          INSERT INTO schema_tracker (name, status, pinned_migration, migrated_version)
+          VALUES (${target}, 'active', ${tracked?.pinnedMigration ?? null}, ${migratedVersion})
+          RETURNING id
+        `;
+        await recordTenantEvent(txClient, registered.id, target, 'cloned', { from: source, schemaOnly });
+
+        return copied;
+      });
+    });
+  } finally {
+    if (!options.client) {
+      await client.end();
+    }
+  }
+}
+
+/**
+ * Checks whether the template schema holds exactly the journal's migrations, with unchanged files
+ */
+async function isTenantTemplateCurrent(client: postgres.Sql): Promise<boolean> {
+  if (!(await tableExistsInSchema(client, TENANT_TEMPLATE_SCHEMA, '__drizzle_migrations'))) {
+    return false;
+  }
+
+  const expected = getExpectedMigrations(TENANT_MIGRATIONS_FOLDER);
+  const applied = await getAppliedMigrations(client, TENANT_TEMPLATE_SCHEMA);
+  if (applied.join(',') !== expected.join(',')) {
+    return false;
+  }
+
+  const integrity = await checkMigrationIntegrity(client, TENANT_TEMPLATE_SCHEMA, TENANT_MIGRATIONS_FOLDER);
+  return integrity.every((m) => m.status === 'ok');
+}
+
+/**
+ * Rebuilds the template schema from scratch if it is missing or out of date with the journal
+ * Expects the caller to hold the template lock.
+ *
+ * @returns true if the template was (re)built
+ */
+async function refreshTenantTemplate(client: postgres.Sql, logPrefix: string): Promise<boolean> {
+  if (await isTenantTemplateCurrent(client)) {
+    return false;
+  }
+
+  if (logPrefix) {
+    console.log(`${logPrefix}Rebuilding tenant template ${TENANT_TEMPLATE_SCHEMA}...`);
+  }
+  const escapedTemplate = escapeSchemaName(TENANT_TEMPLATE_SCHEMA);
+  await client.unsafe(`DROP SCHEMA IF EXISTS ${escapedTemplate} CASCADE`);
+  await client.unsafe(`CREATE SCHEMA ${escapedTemplate}`);
+  try {
+    await applyMigrations({
+      client,
+      schemaName: TENANT_TEMPLATE_SCHEMA,
+      migrationsFolder: TENANT_MIGRATIONS_FOLDER,
+      logPrefix,
+    });
+  } catch (error) {
+    // A half-built template would only be rebuilt next time anyway
+    await client.unsafe(`DROP SCHEMA IF EXISTS ${escapedTemplate} CASCADE`);
     throw error;
+  }
+  return true;
+}
+
+/**
+ * Builds or rebuilds the hidden tenant template if the migration journal changed since it was built
+ *
+ * createTenantSchemaFromTemplate() calls this itself; call it directly (e.g. after a deploy)
+ * to take the rebuild off the first signup.
+ *
+ * @param options.client - Existing pool on the shard with at least 2 connections (not closed here); one is created otherwise
+ * @param options.shard - Shard whose template to use when no client is given (default: DATABASE_URL); each shard has its own template
+ * @param options.lockTimeoutMs - How long to wait while another process rebuilds or copies the template
+ * @returns true if the template was (re)built
+ */
+export async function ensureTenantTemplate(
+  options: { client?: postgres.Sql; shard?: string; logPrefix?: string; lockTimeoutMs?: number } = {}
+): Promise<boolean> {
+  const { logPrefix = '  ', lockTimeoutMs = DEFAULT_LOCK_TIMEOUT_MS } = options;
+  // One connection holds the template lock, the other runs the migrations
+  const client = options.client ?? createPostgresClient({ max: 2 }, options.shard);
+
+  try {
+    return await withMigrationLock(client, TENANT_TEMPLATE_LOCK_KEY, lockTimeoutMs, () =>
+      refreshTenantTemplate(client, logPrefix)
+    );
   } finally {
-    await client.end();
+    if (!options.client) {
+      await client.end();
+    }
   }
 }
 
 /**
- * Migrates all tenant schemas listed in schema_tracker table
- * @returns Object with success and failure counts
+ * Provisions a NEW tenant by copying the template schema instead of replaying migrations
+ *
+ * Same contract as createTenantSchemaWithMigrations(), but its cost does not grow with the
+ * journal: the template (`_tenant_template`) is rebuilt only when the journal changes, and
+ * each tenant is one transaction that copies the template's tables (copyTenantTables with
+ * `schemaOnly`) and its `__drizzle_migrations` rows. Only the tables declared in
+ * schema-tenant.ts are copied, so migrations must not create other objects tenants rely on.
+ *
+ * @param schemaName - The name of the tenant schema to create
+ * @param options.client - Existing pool on the shard with at least 2 connections (not closed here); one is created otherwise
+ * @param options.shard - Shard to create the schema on when no client is given (default: DATABASE_URL); each shard has its own template
+ * @param options.logPrefix - Prefix for progress logs; pass '' to run quietly
+ * @param options.lockTimeoutMs - How long to wait while another process rebuilds or copies the template
+ * @throws Error if the schema already exists, or if the template cannot be built or copied
  */
-export async function migrateAllTenantSchemas(): Promise<{
+export async function createTenantSchemaFromTemplate(
+  schemaName: string,
+  options: { client?: postgres.Sql; shard?: string; logPrefix?: string; lockTimeoutMs?: number } = {}
+): Promise<void> {
+  validateSchemaName(schemaName);
+
+  const { logPrefix = '  ', lockTimeoutMs = DEFAULT_LOCK_TIMEOUT_MS } = options;
+  // One connection holds the template lock, the other builds or copies the template
+  const client = options.client ?? createPostgresClient({ max: 2 }, options.shard);
+
+  try {
+    if (await schemaExistsInDatabase(client, schemaName)) {
+      throw new TenantAlreadyExistsError(
+        `Schema ${schemaName} already exists. Use upgradeTenantSchema() to migrate an existing tenant`,
+        schemaName
+      );
+    }
+
+    await withMigrationLock(client, TENANT_TEMPLATE_LOCK_KEY, lockTimeoutMs, async () => {
+      await refreshTenantTemplate(client, logPrefix);
+
+      const templateTables = new Set(await getTablesInSchema(client, TENANT_TEMPLATE_SCHEMA, []));
+      const tables = getTenantTableNames().filter((table) => templateTables.has(table));
+      if (!templateTables.has('dummy_table')) {
+        throw new Error(
+          `Tenant template ${TENANT_TEMPLATE_SCHEMA} has no dummy_table. ` +
+            `Tables found in schema: ${[...templateTables].join(', ')}`
+        );
+      }
+
+      // One transaction: a failure part-way leaves no schema behind
+      await beginTransaction(client, async (txClient) => {
+        // No IF NOT EXISTS: if another process created it in the meantime, fail instead of adopting it
+        await txClient.unsafe(`CREATE SCHEMA ${escapeSchemaName(schemaName)}`);
+        await copyTenantTables(txClient, TENANT_TEMPLATE_SCHEMA, schemaName, tables, { schemaOnly: true });
+        await copyMigrationHistory(txClient, TENANT_TEMPLATE_SCHEMA, schemaName);
+      });
+
+      if (logPrefix) {
+        console.log(`${logPrefix}Copied ${tables.length} table(s) from ${TENANT_TEMPLATE_SCHEMA} into ${schemaName}`);
+      }
+    });
+  } finally {
+    if (!options.client) {
+      await client.end();
+    }
+  }
+}
+
+/**
+ * Renames a tenant: its schema and its schema_tracker row, atomically
+ *
+ * `ALTER SCHEMA ... RENAME`, the schema_tracker update and a `renamed` entry in
+ * `tenant_events` commit in one transaction. Migration locks on both names are held
+ * meanwhile, so the tenant cannot be migrated, and the new name cannot be provisioned,
+ * during the rename. Applications still using the old name fail until they switch.
+ * Only tenants on the default shard can be renamed.
+ *
+ * @param oldName - Existing tracked tenant schema
+ * @param newName - New schema name (validated with validateSchemaName)
+ * @param options.client - Existing pool with at least 3 connections (not closed here); one is created otherwise
+ * @param options.lockTimeoutMs - How long to wait if either name is being migrated; 0 fails fast
+ * @throws Error if a name is invalid, the old tenant is missing or provisioning/deleting, or the new name is taken
+ */
+export async function renameTenantSchema(
+  oldName: string,
+  newName: string,
+  options: { client?: postgres.Sql; lockTimeoutMs?: number } = {}
+): Promise<void> {
+  validateSchemaName(oldName);
+  validateSchemaName(newName);
+  if (oldName === newName) {
+    throw new Error('Old and new schema name must differ');
+  }
+
+  const { lockTimeoutMs = DEFAULT_LOCK_TIMEOUT_MS } = options;
+  // Two connections hold the migration locks for both names, the third runs the rename
+  const client = options.client ?? createPostgresClient({ max: 3 });
+
+  try {
+    await assertOnDefaultShard(client, oldName, 'renamed');
+
+    await withMigrationLock(client, oldName, lockTimeoutMs, async () => {
+      await withMigrationLock(client, newName, lockTimeoutMs, async () => {
+        await beginTransaction(client, async (txClient) => {
+          // Plain SQL: Drizzle cannot run on a transaction client
+          const [tracked] = await txClient<{ id: string; status: TenantStatus; dbRole: string | null }[]>`
+            SELECT id, status, db_role AS "dbRole" FROM schema_tracker WHERE name = ${oldName} FOR UPDATE
+          `;
+          if (!tracked) {
+            throw new TenantNotFoundError(`Schema ${oldName} not found in schema_tracker`, oldName);
+          }
+          if (tracked.status === 'provisioning' || tracked.status === 'deleting') {
+            throw new Error(`Tenant ${oldName} is ${tracked.status} and cannot be renamed`);
+          }
+
+          const [collision] = await txClient`SELECT id FROM schema_tracker WHERE name = ${newName}`;
+          if (collision || (await schemaExistsInDatabase(txClient, newName))) {
+            throw new TenantAlreadyExistsError(`Schema ${newName} already exists`, newName);
+          }
+          if (!(await schemaExistsInDatabase(txClient, oldName))) {
+            throw new TenantNotFoundError(`Schema ${oldName} does not exist in database`, oldName);
+          }
+
+          await txClient.unsafe(`ALTER SCHEMA ${escapeSchemaName(oldName)} RENAME TO ${escapeSchemaName(newName)}`);
+
+          // Keep the dedicated role's name in step with the schema (its grants follow the schema's OID)
+          const dbRole = tracked.dbRole ? getTenantRoleName(newName) : null;
+          if (tracked.dbRole && dbRole) {
+            if (dbRole.length > 63) {
+              throw new Error(`Role name ${dbRole} is longer than 63 characters; choose a shorter schema name`);
+            }
+            await txClient.unsafe(`ALTER ROLE ${escapeSchemaName(tracked.dbRole)} RENAME TO ${escapeSchemaName(dbRole)}`);
+          }
+
+          await txClient`
+            UPDATE schema_tracker SET name = ${newName}, db_role = ${dbRole}, updated_at = now() WHERE id = ${tracked.id}
+          `;
+          await recordTenantEvent(txClient, tracked.id, newName, 'renamed', { from: oldName, to: newName });
+        });
+      });
+    });
+  } finally {
+    if (!options.client) {
+      await client.end();
+    }
+  }
+}
+
+/**
+ * Upgrades an EXISTING tenant by applying its pending migrations
+ *
+ * Each migration runs in its own transaction (see applyMigrations), so a failing
+ * migration is rolled back on its own while earlier ones stay applied. The schema and
+ * its data are never dropped. On failure the error is recorded in
+ * `schema_tracker.migration_error` and an active tenant moves to `migration_failed`;
+ * the next successful upgrade clears the error and makes it active again. Either way
+ * `migrated_version` is updated. Suspended tenants can still be upgraded explicitly.
+ * A tenant pinned by a rollback is only migrated up to its pinned migration.
+ *
+ * The migrations run on the tenant's shard (schema_tracker.shard); the tracker is updated
+ * on the default database.
+ *
+ * @param schemaName - The existing tenant schema to migrate
+ * @param options.client - Existing DATABASE_URL client/pool to run on (not closed here); a dedicated client is created otherwise
+ * @param options.shardClients - Clients for other shards, shared across calls by bulk runs; created per call otherwise
+ * @param options.logPrefix - Prefix for progress logs; pass '' to run quietly
+ * @param options.unpin - Clear the tenant's pinned migration and migrate to the latest
+ * @param options.lockTimeoutMs - How long to wait for another migrator of this tenant; 0 fails fast
+ * @param options.migrationsFolder - Tenant migrations to apply (default: TENANT_MIGRATIONS_FOLDER)
+ * @param options.deadline - Time (Date.now()) by which the migration must have stopped; past it, the
+ *   running statement is cancelled and its migration rolled back (see applyMigrations())
+ * @throws Error if the schema does not exist, the tenant is provisioning or deleting,
+ *   its migration lock is held, or a migration fails
+ */
+export async function upgradeTenantSchema(
+  schemaName: string,
+  options: {
+    client?: postgres.Sql;
+    shardClients?: ShardClients;
+    logPrefix?: string;
+    unpin?: boolean;
+    lockTimeoutMs?: number;
+    migrationsFolder?: string;
+    deadline?: number;
+  } = {}
+): Promise<void> {
+  validateSchemaName(schemaName);
+
+  const { logPrefix = '  ', unpin = false, lockTimeoutMs, migrationsFolder = TENANT_MIGRATIONS_FOLDER, deadline } = options;
+  const client = options.client ?? createPostgresClient();
+  const shardClients = options.shardClients ?? createShardClients(client);
+  const db = drizzle(client, { schema: { ...schemaPublic } });
+
+  try {
+    const [tracked] = await db
+      .select({ status: schemaPublic.schemaTracker.status, shard: schemaPublic.schemaTracker.shard })
+      .from(schemaPublic.schemaTracker)
+      .where(eq(schemaPublic.schemaTracker.name, schemaName));
+    const status: TenantStatus | undefined = tracked?.status;
+    const tenantClient = shardClients.get(tracked?.shard ?? DEFAULT_SHARD);
+
+    if (status === 'provisioning' || status === 'deleting') {
+      throw new Error(`Tenant ${schemaName} is ${status}; only existing tenants can be upgraded`);
+    }
+
+    try {
+      if (!(await schemaExistsInDatabase(tenantClient, schemaName))) {
+        throw new TenantNotFoundError(`Schema ${schemaName} does not exist in database`, schemaName);
+      }
+
+      const targetTag = unpin ? undefined : await getPinnedMigration(client, schemaName);
+
+      if (targetTag && logPrefix) {
+        console.log(`${logPrefix}Pinned at ${targetTag}; later migrations are skipped (use --unpin to clear)`);
+      }
+
+      await applyMigrations({
+        client: tenantClient,
+        schemaName,
+        migrationsFolder,
+        logPrefix,
+        targetTag,
+        lockTimeoutMs,
+        deadline,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const failed = { migrationError: errorMessage, migratedVersion: await getMigratedVersion(tenantClient, schemaName) };
+      if (status === 'active') {
+        await transitionTenantStatus(client, schemaName, 'migration_failed', { from: ['active'], set: failed });
+      } else {
+        await db
+          .update(schemaPublic.schemaTracker)
+          .set(failed)
+          .where(eq(schemaPublic.schemaTracker.name, schemaName));
+      }
+      throw error;
+    }
+
+    const succeeded = {
+      migrationError: null,
+      migratedVersion: await getMigratedVersion(tenantClient, schemaName),
+      ...(unpin ? { pinnedMigration: null } : {}),
+    };
+    if (status === 'migration_failed') {
+      await transitionTenantStatus(client, schemaName, 'active', { from: ['migration_failed'], set: succeeded });
+    } else {
+      await db
+        .update(schemaPublic.schemaTracker)
+        .set(succeeded)
+        .where(eq(schemaPublic.schemaTracker.name, schemaName));
+    }
+  } finally {
+    if (!options.shardClients) {
+      await shardClients.end();
+    }
+    if (!options.client) {
+      await client.end();
+    }
+  }
+}
+
+/**
+ * Plans what upgradeTenantSchema() would apply to a tenant, without executing anything
+ *
+ * @param options.unpin - Plan as if the tenant's pin were cleared (matches `--unpin`)
+ * @param options.migrationsFolder - Tenant migrations to plan (default: TENANT_MIGRATIONS_FOLDER)
+ */
+export async function planTenantMigrations(
+  schemaName: string,
+  options: { client?: postgres.Sql; shardClients?: ShardClients; unpin?: boolean; migrationsFolder?: string } = {}
+): Promise<MigrationPlan> {
+  validateSchemaName(schemaName);
+
+  const client = options.client ?? createPostgresClient();
+  const shardClients = options.shardClients ?? createShardClients(client);
+
+  try {
+    const tenantClient = shardClients.get((await getTenantShard(client, schemaName)) ?? DEFAULT_SHARD);
+    if (!(await schemaExistsInDatabase(tenantClient, schemaName))) {
+      throw new TenantNotFoundError(`Schema ${schemaName} does not exist in database`, schemaName);
+    }
+
+    return await buildMigrationPlan({
+      client: tenantClient,
+      schemaName,
+      migrationsFolder: options.migrationsFolder ?? TENANT_MIGRATIONS_FOLDER,
+      targetTag: options.unpin ? undefined : await getPinnedMigration(client, schemaName),
+    });
+  } finally {
+    if (!options.shardClients) {
+      await shardClients.end();
+    }
+    if (!options.client) {
+      await client.end();
+    }
+  }
+}
+
+/**
+ * Plans migrations for every tenant in schema_tracker, without executing anything
+ * Tenants that migrateAllTenantSchemas() skips (suspended, provisioning, deleting) are left out.
+ *
+ * @param options.client - Existing DATABASE_URL client/pool to run on (not closed here); a dedicated client is created otherwise
+ * @param options.shardClients - Clients for the shards (not closed here); created from `client` otherwise
+ * @param options.migrationsFolder - Tenant migrations to plan (default: TENANT_MIGRATIONS_FOLDER)
+ */
+export async function planAllTenantMigrations(
+  options: { client?: postgres.Sql; shardClients?: ShardClients; migrationsFolder?: string } = {}
+): Promise<{
+  plans: MigrationPlan[];
+  errors: Array<{ schema: string; error: string }>;
+}> {
+  const client = options.client ?? createPostgresClient();
+  const shardClients = options.shardClients ?? createShardClients(client);
+  const db = drizzle(client, { schema: { ...schemaPublic } });
+  const results = {
+    plans: [] as MigrationPlan[],
+    errors: [] as Array<{ schema: string; error: string }>,
+  };
+
+  try {
+    const schemas = await db
+      .select({ name: schemaPublic.schemaTracker.name })
+      .from(schemaPublic.schemaTracker)
+      .where(notInArray(schemaPublic.schemaTracker.status, SKIPPED_BY_BULK_MIGRATIONS))
+      .orderBy(schemaPublic.schemaTracker.name);
+
+    for (const { name } of schemas) {
+      try {
+        results.plans.push(await planTenantMigrations(name, { client, shardClients, migrationsFolder: options.migrationsFolder }));
+      } catch (error) {
+        results.errors.push({ schema: name, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  } finally {
+    if (!options.shardClients) {
+      await shardClients.end();
+    }
+    if (!options.client) {
+      await client.end();
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Rolls back an EXISTING tenant using the paired down migrations in `migrations/tenant/down/`
+ *
+ * After the rollback the tenant is pinned at its remaining latest migration
+ * (`schema_tracker.pinned_migration`), so health-check treats it as intentionally
+ * behind and upgrades stop at that version until it is unpinned.
+ *
+ * @param schemaName - The existing tenant schema to roll back
+ * @param options.toTag - Keep this migration applied and roll back everything after it; default: only the latest
+ * @param options.client - Existing DATABASE_URL client/pool to run on (not closed here); a dedicated client is created otherwise
+ * @param options.shardClients - Clients for other shards, shared across calls by bulk runs; created per call otherwise
+ * @param options.logPrefix - Prefix for progress logs; pass '' to run quietly
+ * @param options.lockTimeoutMs - How long to wait for another migrator of this tenant; 0 fails fast
+ * @returns Tags that were rolled back, newest first
+ * @throws Error if the schema does not exist, its migration lock is held, a down migration is missing, or one fails
+ */
+export async function rollbackTenantSchema(
+  schemaName: string,
+  options: {
+    toTag?: string;
+    client?: postgres.Sql;
+    shardClients?: ShardClients;
+    logPrefix?: string;
+    lockTimeoutMs?: number;
+  } = {}
+): Promise<string[]> {
+  validateSchemaName(schemaName);
+
+  const { logPrefix = '  ' } = options;
+  const client = options.client ?? createPostgresClient();
+  const shardClients = options.shardClients ?? createShardClients(client);
+  const db = drizzle(client, { schema: { ...schemaPublic } });
+
+  try {
+    const tenantClient = shardClients.get((await getTenantShard(client, schemaName)) ?? DEFAULT_SHARD);
+    if (!(await schemaExistsInDatabase(tenantClient, schemaName))) {
+      throw new TenantNotFoundError(`Schema ${schemaName} does not exist in database`, schemaName);
+    }
+
+    const rolledBack = await rollbackMigrations({
+      client: tenantClient,
+      schemaName,
+      migrationsFolder: TENANT_MIGRATIONS_FOLDER,
+      toTag: options.toTag,
+      logPrefix,
+      lockTimeoutMs: options.lockTimeoutMs,
+    });
+
+    const migratedVersion = await getMigratedVersion(tenantClient, schemaName);
+    await db
+      .update(schemaPublic.schemaTracker)
+      .set({ pinnedMigration: migratedVersion, migratedVersion })
+      .where(eq(schemaPublic.schemaTracker.name, schemaName));
+
+    return rolledBack;
+  } finally {
+    if (!options.shardClients) {
+      await shardClients.end();
+    }
+    if (!options.client) {
+      await client.end();
+    }
+  }
+}
+
+/**
+ * Lists the tracked tenants an all-tenants run should process
+ *
+ * Tenants in SKIPPED_BY_BULK_MIGRATIONS are reported (to `onSkipped` as well as the log)
+ * and counted in `results.skipped`. Returns null (after logging) when there is nothing to process.
+ */
+async function selectBulkMigrationTargets(
+  db: ReturnType<typeof drizzle<typeof schemaPublic>>,
+  results: { skipped: number },
+  {
+    log = console.log,
+    onSkipped,
+  }: { log?: (message: string) => void; onSkipped?: (name: string, shard: string, status: string) => void } = {}
+): Promise<Array<{ name: string; shard: string }> | null> {
+  const tracked = await db
+    .select({
+      name: schemaPublic.schemaTracker.name,
+      status: schemaPublic.schemaTracker.status,
+      shard: schemaPublic.schemaTracker.shard,
+    })
+    .from(schemaPublic.schemaTracker);
+
+  if (tracked.length === 0) {
+    log('No tenant schemas found in schema_tracker');
+    return null;
+  }
+
+  const schemas = tracked.filter(({ status }) => !SKIPPED_BY_BULK_MIGRATIONS.includes(status));
+  for (const { name, status, shard } of tracked) {
+    if (SKIPPED_BY_BULK_MIGRATIONS.includes(status)) {
+      results.skipped++;
+      log(`- ${name}: Skipped (${status})`);
+      onSkipped?.(name, shard, status);
+    }
+  }
+
+  if (schemas.length === 0) {
+    log('No tenant schemas to process');
+    return null;
+  }
+
+  return schemas;
+}
+
+/**
+ * Rolls back every tenant in schema_tracker, one at a time
+ *
+ * With `toTag`, tenants that do not have that migration applied (already at an
+ * older version) are skipped and counted as successful. Suspended, provisioning and
+ * deleting tenants are skipped and counted in `skipped`. Holds the all-tenants
+ * migration lock, so it never overlaps with another all-tenants migrate or rollback.
+ *
+ * @param options.lockTimeoutMs - How long to wait for the all-tenants and per-tenant locks; 0 fails fast
+ * @returns Object with success, failure and skipped counts
+ */
+export async function rollbackAllTenantSchemas(
+  options: { toTag?: string; lockTimeoutMs?: number } = {}
+): Promise<{
   success: number;
   failures: number;
+  skipped: number;
   errors: Array<{ schema: string; error: string }>;
 }> {
-  const client = createPostgresClient();
+  const { toTag, lockTimeoutMs = DEFAULT_LOCK_TIMEOUT_MS } = options;
+
+  // One connection holds the all-tenants lock, the other does the work
+  const client = createPostgresClient({ max: 2 });
+  // Tenants on other shards are rolled back over one connection per shard
+  const shardClients = createShardClients(client);
   const db = drizzle(client, { schema: { ...schemaPublic } });
 
   const results = {
     success: 0,
     failures: 0,
+    skipped: 0,
     errors: [] as Array<{ schema: string; error: string }>,
   };
 
   try {
-    // Query all schema names from schema_tracker
-    const schemas = await db.select({ name: schemaPublic.schemaTracker.name }).from(schemaPublic.schemaTracker);
+    await withMigrationLock(client, ALL_TENANTS_LOCK_KEY, lockTimeoutMs, async () => {
+      const schemas = await selectBulkMigrationTargets(db, results);
+      if (!schemas) {
+        return;
+      }
 
-    if (schemas.length === 0) {
-      console.log('No tenant schemas found in schema_tracker');
-      return results;
-    }
+      console.log(`Found ${schemas.length} tenant schema(s) to roll back\n`);
 
-    console.log(`Found ${schemas.length} tenant schema(s) to migrate`);
+      for (const { name, shard } of schemas) {
+        try {
+          if (toTag && !(await getAppliedMigrations(shardClients.get(shard), name)).includes(toTag)) {
+            results.success++;
+            console.log(`- ${name}: ${toTag} not applied, already at an older version`);
+            continue;
+          }
 
-    // Migrate each schema sequentially
-    for (const { name } of schemas) {
-      try {
-        console.log(`Migrating schema: ${name}`);
-        await createTenantSchemaWithMigrations(name);
-        results.success++;
-        console.log(`✓ Successfully migrated schema: ${name}`);
-      } catch (error) {
-        results.failures++;
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        results.errors.push({ schema: name, error: errorMessage });
-        console.error(`✗ Failed to migrate schema ${name}:`, errorMessage);
+          const rolledBack = await rollbackTenantSchema(name, { toTag, client, shardClients, logPrefix: '', lockTimeoutMs });
+          results.success++;
+          console.log(`✓ ${name}: Rolled back ${rolledBack.length > 0 ? rolledBack.join(', ') : 'nothing'}`);
+        } catch (error) {
+          results.failures++;
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          results.errors.push({ schema: name, error: errorMessage });
+          console.error(`✗ ${name}: ${errorMessage}`);
+        }
       }
-    }
 
-    console.log(
-      `\nMigration summary: ${results.success} succeeded, ${results.failures} failed`
-    );
+      console.log(`\nRollback summary: ${results.success} succeeded, ${results.failures} failed, ${results.skipped} skipped`);
+    });
   } finally {
+    await shardClients.end();
     await client.end();
   }
 
   return results;
 }
 
+/**
+ * Options for migrateAllTenantSchemas()
+ */
+export interface MigrateAllTenantsOptions {
+  /** Maximum number of tenants migrated at the same time (default: 4) */
+  concurrency?: number;
+  /** Per-tenant time limit in milliseconds (default: 5 minutes) */
+  timeoutMs?: number;
+  /** How long to wait for the all-tenants and per-tenant migration locks; 0 fails fast (default: 60s) */
+  lockTimeoutMs?: number;
+  /** Called as each tenant is migrated, fails or is skipped, e.g. to stream results */
+  onTenantResult?: (result: TenantMigrationResult) => void;
+  /** Leave out the progress logs (default: false) */
+  quiet?: boolean;
+  /** Tenant migrations to apply (default: TENANT_MIGRATIONS_FOLDER) */
+  migrationsFolder?: string;
+  /** Existing DATABASE_URL pool to run on (not closed here), with at least `concurrency + 1` connections;
+   *  a pool sized for `concurrency` is created otherwise */
+  client?: postgres.Sql;
+  /** Clients for the shards (not closed here); created from `client` otherwise */
+  shardClients?: ShardClients;
+}
+
+/**
+ * Outcome for one tenant of migrateAllTenantSchemas()
+ */
+export interface TenantMigrationResult {
+  schema: string;
+  shard: string;
+  status: 'migrated' | 'failed' | 'skipped';
+  /** Time spent on the tenant (migrated and failed only) */
+  durationMs?: number;
+  /** Error message (failed only) */
+  error?: string;
+  /** Tenant status that caused the skip (skipped only) */
+  reason?: string;
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` workers in flight
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+/**
+ * Migrates all tenant schemas listed in schema_tracker table
+ *
+ * Every tenant goes through upgradeTenantSchema(), so a failed migration is recorded
+ * in schema_tracker and never drops the tenant's schema or data. Suspended,
+ * provisioning and deleting tenants are skipped and counted in `skipped`.
+ * Tenants are migrated in parallel (bounded by `concurrency`) over one shared pool per
+ * shard, with a per-tenant timeout. The timeout is enforced in the database (see
+ * upgradeTenantSchema()'s `deadline`): a tenant that runs out of time has its statement
+ * cancelled and its transaction rolled back before it is reported as a failure, so its lane
+ * and connection are free again when the next tenant starts.
+ * The run holds the all-tenants migration lock, and each tenant its own lock, so two
+ * deploys migrating at once cannot apply the same migration twice.
+ *
+ * @param options - Concurrency, per-tenant timeout and lock wait settings, and a per-tenant result callback
+ * @throws Error if another all-tenants run still holds the lock after `lockTimeoutMs`
+ * @returns Object with success, failure and skipped counts
+ */
+export async function migrateAllTenantSchemas(
+  options: MigrateAllTenantsOptions = {}
+): Promise<{
+  success: number;
+  failures: number;
+  skipped: number;
+  errors: Array<{ schema: string; error: string }>;
+}> {
+  const {
+    concurrency = 4,
+    timeoutMs = 5 * 60 * 1000,
+    lockTimeoutMs = DEFAULT_LOCK_TIMEOUT_MS,
+    onTenantResult,
+    migrationsFolder,
+  } = options;
+  const log = options.quiet ? () => {} : console.log;
+  const logError = options.quiet ? () => {} : console.error;
+
+  // One pool shared by every tenant: one connection per lane, plus one holding the all-tenants lock
+  const client = options.client ?? createPostgresClient({ max: concurrency + 1 });
+  // Tenants on other shards: one pool per shard, one connection per lane
+  const shardClients = options.shardClients ?? createShardClients(client, { max: concurrency });
+  const db = drizzle(client, { schema: { ...schemaPublic } });
+
+  const results = {
+    success: 0,
+    failures: 0,
+    skipped: 0,
+    errors: [] as Array<{ schema: string; error: string }>,
+  };
+
+  try {
+    await withMigrationLock(client, ALL_TENANTS_LOCK_KEY, lockTimeoutMs, async () => {
+      // Query all schema names from schema_tracker, leaving out suspended/provisioning/deleting tenants
+      const schemas = await selectBulkMigrationTargets(db, results, {
+        log,
+        onSkipped: (schema, shard, reason) => onTenantResult?.({ schema, shard, status: 'skipped', reason }),
+      });
+      if (!schemas) {
+        return;
+      }
+
+      log(
+        `Found ${schemas.length} tenant schema(s) to migrate ` +
+          `(concurrency: ${concurrency}, timeout: ${formatTime(timeoutMs)} per tenant)\n`
+      );
+
+      const runStart = performance.now();
+      let completed = 0;
+      const progress = () => `[${++completed}/${schemas.length}]`;
+
+      await runWithConcurrency(schemas, concurrency, async ({ name, shard }) => {
+        const start = performance.now();
+        try {
+          await upgradeTenantSchema(name, {
+            client,
+            shardClients,
+            logPrefix: '',
+            lockTimeoutMs,
+            migrationsFolder,
+            deadline: Date.now() + timeoutMs,
+          });
+          results.success++;
+          const durationMs = performance.now() - start;
+          log(`${progress()} ✓ ${name} (${formatTime(durationMs)})`);
+          onTenantResult?.({ schema: name, shard, status: 'migrated', durationMs });
+        } catch (error) {
+          results.failures++;
+          const durationMs = performance.now() - start;
+          // Only a run the deadline stopped is a timeout; a slow tenant that failed reports its error
+          const errorMessage =
+            error instanceof MigrationTimeoutError
+              ? `Timed out after ${formatTime(timeoutMs)}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          results.errors.push({ schema: name, error: errorMessage });
+          logError(`${progress()} ✗ ${name}: ${errorMessage}`);
+          onTenantResult?.({ schema: name, shard, status: 'failed', durationMs, error: errorMessage });
+        }
+      });
+
+      log(
+        `\nMigration summary: ${results.success} succeeded, ${results.failures} failed, ${results.skipped} skipped ` +
+          `in ${formatTime(performance.now() - runStart)}`
+      );
+    });
+  } finally {
+    if (!options.shardClients) {
+      await shardClients.end();
+    }
+    if (!options.client) {
+      await client.end();
+    }
+  }
+
+  return results;
+}
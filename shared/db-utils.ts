@@ -50,7 +50,8 @@ function isPostgresClient(connection: Connection): connection is postgres.Sql {
  * @param connection - Postgres client or Drizzle database instance
  * @param schemaName - Schema name (e.g., 'public')
  * @param tableName - Table name to check
- * @returns True if table exists, false otherwise
+ * @returns True if table exists, false otherwise (also when the query fails)
+ * @throws Error if a lazily created default connection is not configured
  * 
  * @example
  * ```typescript
@@ -67,8 +68,10 @@ export async function tableExists(
   schemaName: string,
   tableName: string
 ): Promise<boolean> {
+  // Outside the try: a default connection that is not configured (missing env var) throws here
+  const isClient = isPostgresClient(connection);
   try {
-    if (isPostgresClient(connection)) {
+    if (isClient) {
       const result = await connection`
         SELECT EXISTS(
           SELECT 1 FROM information_schema.tables 
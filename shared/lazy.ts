@@ -0,0 +1,41 @@
+/**
+ * A stand-in for an object that does not exist yet, e.g. a module's default pool
+ *
+ * Every property access and call is forwarded to `resolve()`'s result, so the module can
+ * export the stand-in without connecting or reading the environment at import time; an
+ * error from `resolve()` (a missing env var) surfaces at first use instead. `resolve` runs
+ * on every access and should return a memoized instance; returning a new one after the old
+ * one was closed makes the stand-in follow it.
+ *
+ * @param options.callable - The instance is a function, e.g. a postgres-js client (`sql\`...\``)
+ *
+ * @example
+ * ```typescript
+ * export const db = lazy(() => getDefaultPools().db);
+ * export const client = lazy(() => getDefaultPools().client, { callable: true });
+ * ```
+ */
+export function lazy<T extends object>(resolve: () => T, options: { callable?: boolean } = {}): T {
+  // The target's type decides what typeof reports (Drizzle's is() expects an object) and whether it can be called
+  const target = options.callable ? () => {} : {};
+  return new Proxy(target, {
+    get(_, property) {
+      const instance = resolve();
+      const value = Reflect.get(instance, property, instance);
+      // Methods run against the real instance; `constructor` keeps its static members (Drizzle's is())
+      return typeof value === 'function' && property !== 'constructor' ? value.bind(instance) : value;
+    },
+    set(_, property, value) {
+      return Reflect.set(resolve(), property, value);
+    },
+    has(_, property) {
+      return Reflect.has(resolve(), property);
+    },
+    apply(_, thisArg, args) {
+      return Reflect.apply(resolve() as (...args: unknown[]) => unknown, thisArg, args);
+    },
+    getPrototypeOf() {
+      return Reflect.getPrototypeOf(resolve());
+    },
+  }) as T;
+}
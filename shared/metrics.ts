@@ -0,0 +1,88 @@
+import http from 'http';
+
+/**
+ * Prometheus text exposition for the metrics exporter (`pnpm db:metrics`)
+ *
+ * Collectors return MetricFamily lists; formatMetrics() renders them in the text format
+ * (version 0.0.4) and startMetricsServer() serves them on `/metrics` with node:http.
+ */
+
+export interface MetricSample {
+  labels?: Record<string, string>;
+  value: number;
+}
+
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'gauge' | 'counter';
+  samples: MetricSample[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Renders metric families in the Prometheus text format; families without samples are left out
+ */
+export function formatMetrics(families: MetricFamily[]): string {
+  const lines: string[] = [];
+
+  for (const { name, help, type, samples } of families) {
+    if (samples.length === 0) {
+      continue;
+    }
+    lines.push(`# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    lines.push(`# TYPE ${name} ${type}`);
+    for (const { labels = {}, value } of samples) {
+      const labelList = Object.entries(labels)
+        .map(([label, labelValue]) => `${label}="${escapeLabelValue(labelValue)}"`)
+        .join(',');
+      lines.push(`${name}${labelList ? `{${labelList}}` : ''} ${formatValue(value)}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Serves `collect()` on GET /metrics; every other path is a 404
+ *
+ * Each scrape runs `collect()` again. A collector that throws turns the scrape into a 500
+ * (the error goes to stderr), so Prometheus marks the target as down.
+ */
+export function startMetricsServer({
+  port,
+  host = '0.0.0.0',
+  collect,
+}: {
+  port: number;
+  host?: string;
+  collect: () => Promise<MetricFamily[]>;
+}): http.Server {
+  const server = http.createServer(async (req, res) => {
+    if (req.method !== 'GET' || req.url?.split('?')[0] !== '/metrics') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found; metrics are served on /metrics\n');
+      return;
+    }
+
+    try {
+      const body = formatMetrics(await collect());
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' }).end(body);
+    } catch (error) {
+      console.error(`✗ Scrape failed: ${error instanceof Error ? error.message : String(error)}`);
+      res.writeHead(500, { 'Content-Type': 'text/plain' }).end('Scrape failed\n');
+    }
+  });
+
+  server.listen(port, host);
+  return server;
+}
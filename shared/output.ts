@@ -0,0 +1,104 @@
+/**
+ * Machine-readable output for the operational scripts (`--format json|ndjson`)
+ *
+ * - `text` (default): the human-readable report, unchanged
+ * - `json`: nothing but one JSON document on stdout when the script finishes
+ * - `ndjson`: one JSON object per line on stdout as results come in, ending with a `summary` line
+ *
+ * Every JSON document and NDJSON line has `command` and `type`; the final one
+ * (`type: "result"` for json, `"summary"` for ndjson, `"error"` for either on a fatal error)
+ * also has `exitCode`. Error messages still go to stderr.
+ */
+
+export type OutputFormat = 'text' | 'json' | 'ndjson';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'ndjson'];
+
+/**
+ * Exit codes of health-check, list-tenants, migrate-tenants and verify-migrations
+ *
+ * The problem codes are bits: a run that finds unhealthy and orphaned schemas exits with 6.
+ */
+export const EXIT_CODES = {
+  ok: 0,
+  /** The script could not run to the end (connection failure, bad arguments, ...) */
+  fatal: 1,
+  /** Tenants or migrations are broken (missing/failed migrations, missing tables, role grants) */
+  unhealthy: 2,
+  /** Schemas exist in a database but are not in schema_tracker */
+  orphaned: 4,
+  /** Tables differ from their Drizzle definitions */
+  drift: 8,
+} as const;
+
+/**
+ * Reads `--format <text|json|ndjson>` (`--json` is short for `--format json`); exits on an unknown format
+ */
+export function getOutputFormat(args: string[]): OutputFormat {
+  const index = args.indexOf('--format');
+  if (index === -1) {
+    return args.includes('--json') ? 'json' : 'text';
+  }
+
+  const value = args[index + 1] as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(value)) {
+    console.error(`Error: --format must be one of ${OUTPUT_FORMATS.join(', ')}`);
+    process.exit(EXIT_CODES.fatal);
+  }
+  return value;
+}
+
+export interface ScriptOutput {
+  format: OutputFormat;
+  /** console.log for the text format; does nothing otherwise */
+  log: (...args: unknown[]) => void;
+  /** Writes one NDJSON line now; does nothing for the other formats */
+  record: (type: string, data: object) => void;
+  /** Writes the final document (json) or summary line (ndjson); does nothing for text */
+  result: (exitCode: number, data: object) => void;
+  /** Writes a fatal error as the final document or line; does nothing for text (see handleScriptError) */
+  error: (error: unknown) => void;
+}
+
+/**
+ * Creates the output functions of one script run
+ *
+ * @param command - Script name written into every document, e.g. 'health-check'
+ */
+export function createScriptOutput(command: string, format: OutputFormat): ScriptOutput {
+  const write = (data: object) => {
+    process.stdout.write(`${format === 'json' ? JSON.stringify(data, null, 2) : JSON.stringify(data)}\n`);
+  };
+
+  return {
+    format,
+    log: format === 'text' ? console.log : () => {},
+    record: (type, data) => {
+      if (format === 'ndjson') {
+        write({ command, type, ...data });
+      }
+    },
+    result: (exitCode, data) => {
+      if (format !== 'text') {
+        write({
+          command,
+          type: format === 'json' ? 'result' : 'summary',
+          generatedAt: new Date().toISOString(),
+          exitCode,
+          ...data,
+        });
+      }
+    },
+    error: (error) => {
+      if (format !== 'text') {
+        write({
+          command,
+          type: 'error',
+          generatedAt: new Date().toISOString(),
+          exitCode: EXIT_CODES.fatal,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+  };
+}
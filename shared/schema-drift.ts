@@ -0,0 +1,352 @@
+import postgres from 'postgres';
+import { SQL, getTableName, is } from 'drizzle-orm';
+import { IndexedColumn, PgDialect, PgTable, getTableConfig } from 'drizzle-orm/pg-core';
+
+/**
+ * One difference between a table in the database and its Drizzle definition
+ */
+export interface SchemaDriftIssue {
+  table: string;
+  issue: string;
+}
+
+const dialect = new PgDialect();
+
+// Spellings Drizzle uses -> what format_type() reports
+const TYPE_ALIASES: Record<string, string> = {
+  serial: 'integer',
+  bigserial: 'bigint',
+  smallserial: 'smallint',
+  int: 'integer',
+  int2: 'smallint',
+  int4: 'integer',
+  int8: 'bigint',
+  float4: 'real',
+  float8: 'double precision',
+  bool: 'boolean',
+  decimal: 'numeric',
+  varchar: 'character varying',
+  char: 'character',
+};
+
+// pg_constraint.confdeltype / confupdtype
+const FOREIGN_KEY_ACTIONS: Record<string, string> = {
+  a: 'no action',
+  r: 'restrict',
+  c: 'cascade',
+  n: 'set null',
+  d: 'set default',
+};
+
+/**
+ * Tables declared in a schema module (e.g. `import * as schemaTenant from './schema-tenant'`)
+ */
+export function getDeclaredTables(schemaModule: Record<string, unknown>): PgTable[] {
+  return Object.values(schemaModule).filter((value): value is PgTable => is(value, PgTable));
+}
+
+/**
+ * Brings a type to format_type() spelling, e.g. `timestamp (3)` -> `timestamp(3) without time zone`
+ */
+function normalizeType(type: string): string {
+  const compact = type.toLowerCase().trim().replace(/\s+\(/g, '(').replace(/,\s+/g, ',');
+  const match = compact.match(/^([a-z0-9 ]+?)(\([\d,]+\))?( with(?:out)? time zone)?((?:\[\])*)$/);
+  if (!match) {
+    return compact;
+  }
+  const [, base, args = '', timeZone, arrays] = match;
+  if (base === 'timestamp' || base === 'time' || base === 'timestamptz' || base === 'timetz') {
+    const withZone = base.endsWith('tz') || timeZone === ' with time zone';
+    return `${base.replace(/tz$/, '')}${args} ${withZone ? 'with' : 'without'} time zone${arrays}`;
+  }
+  return `${TYPE_ALIASES[base] ?? base}${args}${arrays}`;
+}
+
+/**
+ * Brings a default expression to a comparable form: casts and wrapping parentheses removed
+ */
+function normalizeDefault(expression: string): string {
+  let normalized = expression.trim().replace(/::[a-z ]+(\(\d+(,\s*\d+)?\))?(\[\])*/gi, '');
+  while (normalized.startsWith('(') && normalized.endsWith(')')) {
+    normalized = normalized.slice(1, -1).trim();
+  }
+  return normalized;
+}
+
+/**
+ * The database default a Drizzle column declares, or null (`$defaultFn()` defaults live in the app)
+ */
+function declaredDefault(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (is(value, SQL)) {
+    return normalizeDefault(dialect.sqlToQuery(value).sql);
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return `'${JSON.stringify(value).replace(/'/g, "''")}'`;
+}
+
+function describeColumns(columns: string[]): string {
+  return `(${columns.join(', ')})`;
+}
+
+/**
+ * Compares the tables actually in a schema with their Drizzle definitions
+ *
+ * Checks columns (type, nullability, default), the primary key, unique, check and foreign
+ * key constraints, indexes, and row-level security (enabled flag and policies by name,
+ * command and mode). Policy expressions are not compared, because Postgres stores them
+ * reformatted. Reports what is missing, different, and present but not declared.
+ *
+ * @param client - Client on the database holding the schema (not closed here)
+ * @param schemaName - Schema to inspect (a tenant schema, or `public` for the RLS tables)
+ * @param tables - Declared tables, e.g. getDeclaredTables(schemaTenant)
+ * @param options.ignoreTables - Tables in the schema that are not declared on purpose (e.g. `__drizzle_migrations`)
+ * @param options.reportExtraTables - Report undeclared tables (off for shared schemas such as `public`)
+ * @returns Differences found; empty if the schema matches the definitions
+ */
+export async function detectSchemaDrift(
+  client: postgres.Sql,
+  schemaName: string,
+  tables: PgTable[],
+  options: { ignoreTables?: string[]; reportExtraTables?: boolean } = {}
+): Promise<SchemaDriftIssue[]> {
+  const { ignoreTables = [], reportExtraTables = true } = options;
+
+  const [actualTables, actualColumns, actualConstraints, actualIndexes, actualPolicies] = await Promise.all([
+    client`
+      SELECT c.relname AS table_name, c.relrowsecurity AS rls_enabled
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = ${schemaName} AND c.relkind IN ('r', 'p')
+    `,
+    client`
+      SELECT c.relname AS table_name, a.attname AS column_name,
+             format_type(a.atttypid, a.atttypmod) AS data_type, a.attnotnull AS not_null,
+             pg_get_expr(d.adbin, d.adrelid) AS column_default
+      FROM pg_attribute a
+      JOIN pg_class c ON c.oid = a.attrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+      WHERE n.nspname = ${schemaName} AND c.relkind IN ('r', 'p') AND a.attnum > 0 AND NOT a.attisdropped
+      ORDER BY a.attnum
+    `,
+    client`
+      SELECT cl.relname AS table_name, c.conname, c.contype, ref.relname AS referenced_table,
+             c.confdeltype, c.confupdtype,
+             array_to_string(ARRAY(
+               SELECT a.attname FROM unnest(c.conkey) WITH ORDINALITY k(attnum, ord)
+               JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = k.attnum
+               ORDER BY k.ord
+             ), ',') AS columns,
+             array_to_string(ARRAY(
+               SELECT a.attname FROM unnest(c.confkey) WITH ORDINALITY k(attnum, ord)
+               JOIN pg_attribute a ON a.attrelid = c.confrelid AND a.attnum = k.attnum
+               ORDER BY k.ord
+             ), ',') AS referenced_columns
+      FROM pg_constraint c
+      JOIN pg_class cl ON cl.oid = c.conrelid
+      JOIN pg_namespace n ON n.oid = cl.relnamespace
+      LEFT JOIN pg_class ref ON ref.oid = c.confrelid
+      WHERE n.nspname = ${schemaName} AND c.contype IN ('p', 'u', 'f', 'c')
+    `,
+    // Indexes that back a constraint (primary key, unique) are compared as constraints
+    client`
+      SELECT t.relname AS table_name, i.relname AS index_name, ix.indisunique AS is_unique, am.amname AS method,
+             array_to_string(ARRAY(
+               SELECT COALESCE(a.attname, '(expression)')
+               FROM unnest(ix.indkey::int2[]) WITH ORDINALITY k(attnum, ord)
+               LEFT JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+               ORDER BY k.ord
+             ), ',') AS columns
+      FROM pg_index ix
+      JOIN pg_class i ON i.oid = ix.indexrelid
+      JOIN pg_class t ON t.oid = ix.indrelid
+      JOIN pg_namespace n ON n.oid = t.relnamespace
+      JOIN pg_am am ON am.oid = i.relam
+      WHERE n.nspname = ${schemaName}
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_constraint c WHERE c.conindid = ix.indexrelid AND c.conrelid = ix.indrelid AND c.contype IN ('p', 'u', 'x')
+        )
+    `,
+    client`
+      SELECT tablename AS table_name, policyname, permissive, cmd
+      FROM pg_policies
+      WHERE schemaname = ${schemaName}
+    `,
+  ]);
+
+  const issues: SchemaDriftIssue[] = [];
+  const declaredNames = new Set<string>();
+
+  for (const table of tables) {
+    const config = getTableConfig(table);
+    const name = config.name;
+    declaredNames.add(name);
+    const report = (issue: string) => issues.push({ table: name, issue });
+
+    const actualTable = actualTables.find((t) => t.table_name === name);
+    if (!actualTable) {
+      report('Table is missing');
+      continue;
+    }
+
+    // Columns
+    const columns = actualColumns.filter((c) => c.table_name === name);
+    for (const column of config.columns) {
+      const actual = columns.find((c) => c.column_name === column.name);
+      if (!actual) {
+        report(`Column ${column.name} is missing`);
+        continue;
+      }
+      const declaredType = column.getSQLType();
+      if (normalizeType(actual.data_type) !== normalizeType(declaredType)) {
+        report(`Column ${column.name} is ${actual.data_type}, expected ${declaredType}`);
+      }
+      const declaredNotNull = column.notNull || column.primary;
+      if (actual.not_null !== declaredNotNull) {
+        report(`Column ${column.name} is ${actual.not_null ? 'NOT NULL' : 'nullable'}, expected ${declaredNotNull ? 'NOT NULL' : 'nullable'}`);
+      }
+      // Serial columns get their sequence default from Postgres, not from the definition
+      if (!/serial$/i.test(declaredType)) {
+        const expected = declaredDefault(column.default);
+        const found = actual.column_default === null ? null : normalizeDefault(actual.column_default);
+        if (expected !== found) {
+          report(`Column ${column.name} defaults to ${actual.column_default ?? '(none)'}, expected ${expected ?? '(none)'}`);
+        }
+      }
+    }
+    for (const actual of columns) {
+      if (!config.columns.some((column) => column.name === actual.column_name)) {
+        report(`Column ${actual.column_name} is not declared`);
+      }
+    }
+
+    // Primary key
+    const constraints = actualConstraints.filter((c) => c.table_name === name);
+    const declaredPrimaryKey = config.primaryKeys[0]?.columns.map((c) => c.name)
+      ?? config.columns.filter((c) => c.primary).map((c) => c.name);
+    const actualPrimaryKey = constraints.find((c) => c.contype === 'p')?.columns.split(',') ?? [];
+    if (declaredPrimaryKey.join(',') !== actualPrimaryKey.join(',')) {
+      report(
+        `Primary key is ${actualPrimaryKey.length > 0 ? describeColumns(actualPrimaryKey) : '(none)'}, ` +
+          `expected ${declaredPrimaryKey.length > 0 ? describeColumns(declaredPrimaryKey) : '(none)'}`
+      );
+    }
+
+    // Unique, check and foreign key constraints, matched by name
+    const declaredConstraints = new Map<string, { type: string; definition?: string }>();
+    config.columns
+      .filter((column) => column.isUnique && column.uniqueName)
+      .forEach((column) => declaredConstraints.set(column.uniqueName!, { type: 'u', definition: column.name }));
+    config.uniqueConstraints.forEach((unique) =>
+      declaredConstraints.set(unique.getName() ?? `${name}_${unique.columns.map((c) => c.name).join('_')}_unique`, {
+        type: 'u',
+        definition: unique.columns.map((c) => c.name).join(','),
+      })
+    );
+    config.checks.forEach((check) => declaredConstraints.set(check.name, { type: 'c' }));
+    config.foreignKeys.forEach((foreignKey) => {
+      const { columns: from, foreignColumns } = foreignKey.reference();
+      declaredConstraints.set(foreignKey.getName(), {
+        type: 'f',
+        definition:
+          `${from.map((c) => c.name).join(',')} -> ${getTableName(foreignColumns[0].table)}(${foreignColumns.map((c) => c.name).join(',')})` +
+          ` on delete ${foreignKey.onDelete ?? 'no action'} on update ${foreignKey.onUpdate ?? 'no action'}`,
+      });
+    });
+
+    for (const [constraintName, declared] of declaredConstraints) {
+      const actual = constraints.find((c) => c.conname === constraintName);
+      if (!actual) {
+        report(`Constraint ${constraintName} is missing`);
+        continue;
+      }
+      const actualDefinition =
+        actual.contype === 'f'
+          ? `${actual.columns} -> ${actual.referenced_table}(${actual.referenced_columns})` +
+            ` on delete ${FOREIGN_KEY_ACTIONS[actual.confdeltype]} on update ${FOREIGN_KEY_ACTIONS[actual.confupdtype]}`
+          : actual.contype === 'u'
+            ? actual.columns
+            : undefined;
+      if (actual.contype !== declared.type || actualDefinition !== declared.definition) {
+        report(`Constraint ${constraintName} is ${actualDefinition ?? actual.contype}, expected ${declared.definition ?? declared.type}`);
+      }
+    }
+    for (const actual of constraints) {
+      if (actual.contype !== 'p' && !declaredConstraints.has(actual.conname)) {
+        report(`Constraint ${actual.conname} is not declared`);
+      }
+    }
+
+    // Indexes, matched by name
+    const indexes = actualIndexes.filter((i) => i.table_name === name);
+    for (const index of config.indexes) {
+      const indexName = index.config.name;
+      if (!indexName) {
+        continue; // Unnamed indexes get their name from drizzle-kit; nothing to match on
+      }
+      const actual = indexes.find((i) => i.index_name === indexName);
+      if (!actual) {
+        report(`Index ${indexName} is missing`);
+        continue;
+      }
+      const declaredColumns = index.config.columns.map((c) => (is(c, IndexedColumn) && c.name ? c.name : '(expression)'));
+      const declaredMethod = index.config.method ?? 'btree';
+      if (
+        actual.columns !== declaredColumns.join(',') ||
+        actual.is_unique !== index.config.unique ||
+        actual.method !== declaredMethod
+      ) {
+        report(
+          `Index ${indexName} is ${actual.is_unique ? 'unique ' : ''}${actual.method} ${describeColumns(actual.columns.split(','))}, ` +
+            `expected ${index.config.unique ? 'unique ' : ''}${declaredMethod} ${describeColumns(declaredColumns)}`
+        );
+      }
+    }
+    for (const actual of indexes) {
+      if (!config.indexes.some((index) => index.config.name === actual.index_name)) {
+        report(`Index ${actual.index_name} is not declared`);
+      }
+    }
+
+    // Row-level security
+    if (actualTable.rls_enabled !== config.enableRLS) {
+      report(`Row-level security is ${actualTable.rls_enabled ? 'enabled' : 'disabled'}, expected ${config.enableRLS ? 'enabled' : 'disabled'}`);
+    }
+    const policies = actualPolicies.filter((p) => p.table_name === name);
+    for (const policy of config.policies) {
+      const actual = policies.find((p) => p.policyname === policy.name);
+      if (!actual) {
+        report(`Policy ${policy.name} is missing`);
+        continue;
+      }
+      const declaredCommand = (policy.for ?? 'all').toUpperCase();
+      const declaredMode = (policy.as ?? 'permissive').toUpperCase();
+      if (actual.cmd !== declaredCommand || actual.permissive !== declaredMode) {
+        report(`Policy ${policy.name} is ${actual.permissive} FOR ${actual.cmd}, expected ${declaredMode} FOR ${declaredCommand}`);
+      }
+    }
+    for (const actual of policies) {
+      if (!config.policies.some((policy) => policy.name === actual.policyname)) {
+        report(`Policy ${actual.policyname} is not declared`);
+      }
+    }
+  }
+
+  if (reportExtraTables) {
+    for (const { table_name: table } of actualTables) {
+      if (!declaredNames.has(table) && !ignoreTables.includes(table)) {
+        issues.push({ table, issue: 'Table is not declared' });
+      }
+    }
+  }
+
+  return issues;
+}